@@ -1,30 +1,144 @@
 import {type DragEvent, type FormEvent, useEffect, useMemo, useRef, useState} from 'react';
 import {motion} from 'framer-motion';
-import {
-	getDirectoryContentViaContentsApi,
-	getDirectoryContentViaTreesApi,
-	type ListGithubDirectoryOptions,
-	type TreeResponseObject,
-	type ContentsReponseObject,
-} from 'list-github-dir-content';
-import pMap from 'p-map';
-import authenticatedFetch from './authenticated-fetch.js';
+import authenticatedFetch, {hasToken} from './authenticated-fetch.js';
 import {downloadFile} from './download.js';
+import {addGeneratedFiles, downloadFiles, getRelativePath} from './download-files.js';
 import getRepositoryInfo from './repository-info.js';
+import parseErrorMessage from './error-messages.js';
+import {type FilterRule, filterFiles, parseFilter} from './path-filter.js';
+import {pickFileSink, saveFile} from './file-sink.js';
+import {type Provider, type RepositoryReference, type RequestOptions} from './provider.js';
+import {createManifest, manifestFilename, serializeManifest} from './manifest.js';
+import {createChangeNotes, summarizeChanges} from './changes.js';
+import {getProvider} from './providers.js';
+import {type RateLimitPause, onRateLimitPause} from './rate-limit.js';
+import {createConcurrencyLimiter} from './concurrency-limiter.js';
+import {type FileTreeNode, buildFileTree, getSelectionRules} from './file-tree.js';
+import FileBrowser from './file-browser.js';
+import GithubSignIn from './github-sign-in.js';
+import TokenDetails from './token-details.js';
+import TokenLock, {type TokenLockState} from './token-lock.js';
+import TokenProfilesPanel from './token-profiles-panel.js';
+import {
+	type TokenProfile,
+	findTokenProfile,
+	getTokenProfiles,
+	saveTokenProfiles,
+} from './token-profiles.js';
+import {
+	endTokenSession,
+	getLockedToken,
+	getSessionToken,
+	isTokenLocked,
+	removeLockedToken,
+	updateLockedToken,
+} from './token-vault.js';
+import {type TokenInspection, diagnoseAccess, inspectToken} from './token-inspection.js';
+import {type SubmoduleFile, expandSubmodules, getFileSource, isGitlink} from './submodules.js';
+import {type SizeSummary, defaultSizeThresholds, exceedsThresholds, summarizeSize} from './size-summary.js';
+import {
+	type OauthSession,
+	type OauthSettings,
+	getOauthSession,
+	getOauthSettings,
+	isOauthSessionExpired,
+	saveOauthSession,
+	saveOauthSettings,
+	tokenPattern,
+} from './github-oauth.js';
+import {
+	type HostConfig,
+	type ProviderType,
+	getHostConfigs,
+	normalizeHostname,
+	providerTypes,
+	saveHostConfigs,
+} from './hosts.js';
+import {
+	type ArchiveFormat,
+	type ArchiveOutput,
+	archiveFormats,
+	createArchiveWriter,
+	ensureArchiveFilename,
+	isFolderOutputSupported,
+	parseArchiveFormat,
+	parseGitMode,
+	pickArchiveOutput,
+	releaseArchiveOutput,
+	resolveSymlinkTarget,
+	sanitizeFilename,
+	saveArchiveFile,
+} from './archive.js';
+import {
+	type DownloadJobSummary,
+	type JobAttachment,
+	createJob,
+	discardJob,
+	discardStaleJobs,
+	getJob,
+	getJobFiles,
+	listJobs,
+	saveJobFile,
+} from './download-jobs.js';
+import {
+	type DownloadOutcome,
+	type DownloadSettings,
+	type QueueItem,
+	type QueueRequest,
+	canRetry,
+	createQueueItem,
+	defaultDownloadSettings,
+	listQueueItems,
+	moveQueueItem,
+	requeueItem,
+	restoreQueue,
+	saveQueueItems,
+} from './download-queue.js';
+import QueueList from './queue-list.js';
+import {formatBytes, isAbortError} from './utilities.js';
+
+type RepoFile = SubmoduleFile;
+
+type SingleFileMode = DownloadSettings['singleFileMode'];
+
+type BaseReference = {
+	reference: string;
+	commit: string;
+};
 
-type ApiOptions = ListGithubDirectoryOptions & {getFullData: true};
-type RepoFile = TreeResponseObject | ContentsReponseObject;
+type SizeDecision = 'continue' | 'trim' | 'cancel';
 
-type QueueItem = {
-	url: string;
-	filename?: string;
-	filter?: string;
+type FileReview = {
+	/** The files that are left after the filter */
+	files: RepoFile[];
+	tree: FileTreeNode;
+	/** Every listed file, so that the exported rules don't depend on the filter */
+	fullTree: FileTreeNode;
 };
 
 const sampleUrl = 'https://github.com/mrdoob/three.js/tree/dev/build';
 const blockedWords = /malware|virus|trojan/i;
 const recentStorageKey = 'recent-directory-links';
 const tokenStorageKey = 'token';
+const autoLockStorageKey = 'token-auto-lock';
+const defaultAutoLockMinutes = 15;
+const queueParallelStorageKey = 'queue-parallel';
+const megabyte = 1024 * 1024;
+const defaultSubmoduleDepth = defaultDownloadSettings.submoduleDepth;
+
+// Auto mode starts low and grows, so slow connections don't begin with a wave of timeouts
+const initialAdaptiveConcurrency = 6;
+const maxConcurrency = 40;
+
+/** Turns the "Download speed" choice into a limiter: `auto` adapts, a number stays fixed */
+function createDownloadLimiter(concurrency: string) {
+	if (concurrency === 'auto') {
+		return createConcurrencyLimiter({initial: initialAdaptiveConcurrency, max: maxConcurrency, adaptive: true});
+	}
+
+	const parsedConcurrency = Number.parseInt(concurrency, 10);
+	return createConcurrencyLimiter({initial: Number.isNaN(parsedConcurrency) ? 20 : parsedConcurrency, max: maxConcurrency});
+}
 
 const motionEase = [0.16, 1, 0.3, 1] as const;
 
@@ -32,37 +146,7 @@ function isError(error: unknown): error is Error {
 	return error instanceof Error;
 }
 
-function isAbortError(error: unknown): boolean {
-	return error instanceof DOMException && error.name === 'AbortError';
-}
-
-function sanitizeFilename(filename: string): string {
-	return filename.replaceAll(/[<>:"/\\|?*]+/g, '-').replaceAll(/\s+/g, ' ').trim();
-}
-
-function ensureZipFilename(filename: string): string {
-	const cleaned = sanitizeFilename(filename);
-	const safe = cleaned.length > 0 ? cleaned : 'downloaded-directory';
-	return safe.endsWith('.zip') ? safe : `${safe}.zip`;
-}
-
-function formatBytes(bytes: number): string {
-	if (!Number.isFinite(bytes) || bytes <= 0) {
-		return '--';
-	}
-
-	const units = ['B', 'KB', 'MB', 'GB'];
-	let value = bytes;
-	let index = 0;
-	while (value >= 1024 && index < units.length - 1) {
-		value /= 1024;
-		index++;
-	}
-
-	return `${value.toFixed(value >= 100 || index === 0 ? 0 : 1)} ${units[index]}`;
-}
-
-function parseGithubUrl(rawUrl: string): string | undefined {
+function parseRepositoryUrl(rawUrl: string): string | undefined {
 	const candidate = rawUrl.trim();
 	if (candidate.length === 0) {
 		return;
@@ -79,7 +163,7 @@ function parseGithubUrl(rawUrl: string): string | undefined {
 		return;
 	}
 
-	if (!/^(?:www\.)?github\.com$/i.test(parsed.hostname)) {
+	if (!getProvider(parsed)) {
 		return;
 	}
 
@@ -92,26 +176,10 @@ function parseUrlList(rawValue: string): string[] {
 		.split(/\r?\n|,|\s+/)
 		.map(value => value.trim())
 		.filter(value => value.length > 0)
-		.map(value => parseGithubUrl(value))
+		.map(value => parseRepositoryUrl(value))
 		.filter((value): value is string => typeof value === 'string' && value.length > 0);
 }
 
-function parseFilter(value: string): string[] {
-	return value
-		.split(',')
-		.map(entry => entry.trim().toLowerCase())
-		.filter(entry => entry.length > 0)
-		.map(entry => (entry.startsWith('.') ? entry : `.${entry}`));
-}
-
-function filterFiles(files: RepoFile[], extensions: string[]): RepoFile[] {
-	if (extensions.length === 0) {
-		return files;
-	}
-
-	return files.filter(file => extensions.some(extension => file.path.toLowerCase().endsWith(extension)));
-}
-
 function estimateBytes(files: RepoFile[]): number {
 	let total = 0;
 	for (const file of files) {
@@ -123,74 +191,132 @@ function estimateBytes(files: RepoFile[]): number {
 	return total;
 }
 
+/** Reads an optional number input. Empty or invalid values mean no limit */
+function parseLimit(value: string): number | undefined {
+	const limit = Number(value);
+	return value.trim() && Number.isFinite(limit) && limit >= 0 ? limit : undefined;
+}
+
+function formatClock(milliseconds: number): string {
+	const seconds = Math.floor(milliseconds / 1000);
+	const hours = Math.floor(seconds / 3600);
+	const minutes = Math.floor(seconds / 60) % 60;
+	const remainingSeconds = seconds % 60;
+	const clock = `${String(minutes).padStart(2, '0')}:${String(remainingSeconds).padStart(2, '0')}`;
+	return hours > 0 ? `${String(hours).padStart(2, '0')}:${clock}` : clock;
+}
+
+function shortenCommit(commit: string): string {
+	return commit.slice(0, 7);
+}
+
 function buildDefaultFilename(data: {
 	user: string;
 	repository: string;
 	gitReference?: string;
+	commit?: string;
 	directory: string;
 }): string {
-	const parts = [data.user, data.repository, data.gitReference, data.directory || 'root'].filter(Boolean);
+	const parts = [data.user, data.repository, data.gitReference, data.commit && shortenCommit(data.commit), data.directory || 'root'].filter(Boolean);
 	return sanitizeFilename(parts.join('-'));
 }
 
-function saveFile(blob: Blob, filename: string) {
-	const url = URL.createObjectURL(blob);
-	const link = document.createElement('a');
-	link.href = url;
-	link.download = filename;
-	link.click();
-	URL.revokeObjectURL(url);
-}
-
-async function getZip() {
-	// @ts-expect-error Dynamic import default export typing
-	// eslint-disable-next-line @typescript-eslint/consistent-type-imports, @typescript-eslint/naming-convention
-	const JSZip = await import('jszip') as typeof import('jszip');
-	return new JSZip();
-}
-
-async function listFiles(repoListingConfig: ApiOptions): Promise<RepoFile[]> {
-	const files = await getDirectoryContentViaTreesApi(repoListingConfig);
-	if (!files.truncated) {
-		return files;
-	}
-
-	return getDirectoryContentViaContentsApi(repoListingConfig);
-}
-
 export default function App() {
 	const [urlText, setUrlText] = useState('');
 	const [filename, setFilename] = useState('');
+	const [format, setFormat] = useState<ArchiveFormat>('zip');
 	const [filterText, setFilterText] = useState('');
-	const [concurrency, setConcurrency] = useState('20');
+	const [baseRefText, setBaseRefText] = useState('');
+	const [filterCaseSensitive, setFilterCaseSensitive] = useState(false);
+	const [includeCommitInFilename, setIncludeCommitInFilename] = useState(false);
+	const [lockShareLinkToCommit, setLockShareLinkToCommit] = useState(false);
+	const [includeManifest, setIncludeManifest] = useState(false);
+	const [verifyFiles, setVerifyFiles] = useState(true);
+	const [reviewBeforeDownload, setReviewBeforeDownload] = useState(false);
+	const [materializeSymlinks, setMaterializeSymlinks] = useState(false);
+	const [includeSubmodules, setIncludeSubmodules] = useState(true);
+	const [submoduleDepthText, setSubmoduleDepthText] = useState(String(defaultSubmoduleDepth));
+	const [review, setReview] = useState<FileReview | undefined>();
+	const [reviewSelection, setReviewSelection] = useState<Set<string>>(new Set());
+	const [maxFilesText, setMaxFilesText] = useState(String(defaultSizeThresholds.files));
+	const [maxMegabytesText, setMaxMegabytesText] = useState(String(defaultSizeThresholds.bytes / megabyte));
+	const [autoApproveText, setAutoApproveText] = useState('');
+	const [sizeCheck, setSizeCheck] = useState<SizeSummary | undefined>();
+	const [concurrency, setConcurrency] = useState('auto');
+	const [currentConcurrency, setCurrentConcurrency] = useState<number | undefined>();
+	const [singleFileMode, setSingleFileMode] = useState<SingleFileMode>('file');
 	const [token, setToken] = useState('');
 	const [tokenPanelOpen, setTokenPanelOpen] = useState(false);
 	const [tokenVisible, setTokenVisible] = useState(false);
+	const [oauthSettings, setOauthSettings] = useState<OauthSettings | undefined>(() => getOauthSettings());
+	const [isSignedIn, setIsSignedIn] = useState(false);
+	const [tokenLock, setTokenLock] = useState<TokenLockState>('none');
+	const [autoLockMinutes, setAutoLockMinutes] = useState(() => Number(localStorage.getItem(autoLockStorageKey) ?? defaultAutoLockMinutes));
+	const [tokenProfiles, setTokenProfiles] = useState<TokenProfile[]>(() => getTokenProfiles());
+	const [queueTokenProfile, setQueueTokenProfile] = useState('');
+	const [tokenInspection, setTokenInspection] = useState<TokenInspection | {error: string} | undefined>();
 	const [statusLines, setStatusLines] = useState<string[]>([]);
 	const [recentUrls, setRecentUrls] = useState<string[]>([]);
 	const [queueItems, setQueueItems] = useState<QueueItem[]>([]);
+	const [queuePaused, setQueuePaused] = useState(false);
+	const [queueParallel, setQueueParallel] = useState(() => Number(localStorage.getItem(queueParallelStorageKey) ?? 1));
+	const [unfinishedJobs, setUnfinishedJobs] = useState<DownloadJobSummary[]>([]);
 	const [failedFiles, setFailedFiles] = useState<string[]>([]);
+	const [corruptedFiles, setCorruptedFiles] = useState<string[]>([]);
 	const [totalFiles, setTotalFiles] = useState(0);
 	const [downloadedFiles, setDownloadedFiles] = useState(0);
 	const [estimatedBytes, setEstimatedBytes] = useState(0);
+	const [sessionCommit, setSessionCommit] = useState('');
 	const [elapsed, setElapsed] = useState('00:00');
 	const [progressLabel, setProgressLabel] = useState('Idle');
 	const [isBusy, setIsBusy] = useState(false);
-
-	const controllerRef = useRef<AbortController | null>(null);
+	const [rateLimitPause, setRateLimitPause] = useState<RateLimitPause | undefined>();
+	const [rateLimitCountdown, setRateLimitCountdown] = useState('');
+	const [hosts, setHosts] = useState<HostConfig[]>(() => getHostConfigs());
+	const [hostnameText, setHostnameText] = useState('');
+	const [hostType, setHostType] = useState<ProviderType>('gitlab');
+	const [hostApiBase, setHostApiBase] = useState('');
+	const [hostRawBase, setHostRawBase] = useState('');
+	const [hostToken, setHostToken] = useState('');
+
+	// Queue items can run side by side, each with its own controller. They are kept by queue item ID, so each can be canceled
+	const controllersRef = useRef(new Map<string, AbortController>());
 	const startedAtRef = useRef<number>(0);
 	const elapsedTimerRef = useRef<number | null>(null);
 	const queueRef = useRef<QueueItem[]>([]);
 	const isProcessingQueueRef = useRef(false);
+	const activeSessionsRef = useRef(0);
+	const queuePausedRef = useRef(false);
+	const queueParallelRef = useRef(queueParallel);
+	// Only one prompt can be shown at a time, so parallel downloads take turns
+	const promptTurnRef = useRef<Promise<unknown>>(Promise.resolve());
+	// Outputs picked on the Download click, by queue item
+	const pickedOutputsRef = useRef(new Map<string, ArchiveOutput>());
+	const finishReviewRef = useRef<((selection?: Set<string>) => void) | undefined>(undefined);
+	const finishSizeCheckRef = useRef<((decision: SizeDecision) => void) | undefined>(undefined);
+	const finishUnlockRef = useRef<((unlocked: boolean) => void) | undefined>(undefined);
 
 	useEffect(() => {
-		queueRef.current = queueItems;
-	}, [queueItems]);
+		queuePausedRef.current = queuePaused;
+	}, [queuePaused]);
+
+	useEffect(() => {
+		queueParallelRef.current = queueParallel;
+		localStorage.setItem(queueParallelStorageKey, String(queueParallel));
+	}, [queueParallel]);
 
 	useEffect(() => {
 		const storedToken = localStorage.getItem(tokenStorageKey);
-		if (storedToken) {
+		const session = getOauthSession();
+		if (getLockedToken()) {
+			setTokenLock('locked');
+			setIsSignedIn(Boolean(session));
+			setTokenPanelOpen(true);
+		} else if (storedToken && isOauthSessionExpired(session)) {
+			expireSignIn();
+		} else if (storedToken) {
 			setToken(storedToken);
+			setIsSignedIn(Boolean(session));
 			setTokenPanelOpen(true);
 		}
 
@@ -208,14 +334,314 @@ export default function App() {
 	}, []);
 
 	useEffect(() => {
-		if (token.length === 0) {
+		// A locked token is only stored encrypted
+		if (tokenLock !== 'none') {
+			localStorage.removeItem(tokenStorageKey);
+			if (tokenLock === 'unlocked') {
+				saveUnlockedToken(token);
+			}
+		} else if (token.length === 0) {
 			localStorage.removeItem(tokenStorageKey);
 		} else {
 			localStorage.setItem(tokenStorageKey, token);
 		}
+	}, [token, tokenLock]);
+
+	useEffect(() => {
+		localStorage.setItem(autoLockStorageKey, String(autoLockMinutes));
+	}, [autoLockMinutes]);
+
+	useEffect(() => {
+		// Downloads need the token until they end, so they hold the lock off
+		if (tokenLock !== 'unlocked' || !autoLockMinutes || isBusy) {
+			return;
+		}
+
+		let timeout: ReturnType<typeof setTimeout>;
+		const restart = () => {
+			clearTimeout(timeout);
+			timeout = setTimeout(() => {
+				changeTokenLock('locked');
+				addStatus(`Token locked after ${autoLockMinutes} minutes of inactivity.`);
+			}, autoLockMinutes * 60_000);
+		};
+
+		const events = ['pointerdown', 'keydown', 'scroll'] as const;
+		for (const event of events) {
+			window.addEventListener(event, restart, {passive: true});
+		}
+
+		restart();
+		return () => {
+			clearTimeout(timeout);
+			for (const event of events) {
+				window.removeEventListener(event, restart);
+			}
+		};
+	}, [tokenLock, autoLockMinutes, isBusy]);
+
+	useEffect(() => {
+		setTokenInspection(undefined);
+		if (!token) {
+			return;
+		}
+
+		// Wait for the user to finish typing or pasting. The typed token is inspected, not a token profile for github.com
+		const controller = new AbortController();
+		const timeout = setTimeout(async () => {
+			try {
+				setTokenInspection(await inspectToken(controller.signal, token));
+			} catch (error) {
+				if (!controller.signal.aborted) {
+					setTokenInspection({error: isError(error) ? error.message : String(error)});
+				}
+			}
+		}, 500);
+		return () => {
+			clearTimeout(timeout);
+			controller.abort();
+		};
 	}, [token]);
 
+	const saveSignInSettings = (settings: OauthSettings | undefined) => {
+		saveOauthSettings(settings);
+		setOauthSettings(settings);
+		addStatus(settings ? 'Saved the GitHub sign-in settings.' : 'Removed the GitHub sign-in settings.');
+	};
+
+	const signIn = (session: OauthSession) => {
+		saveOauthSession(session);
+		setToken(session.token);
+		setIsSignedIn(true);
+		addStatus('Signed in with GitHub.');
+	};
+
+	const signOut = () => {
+		saveOauthSession(undefined);
+		setToken('');
+		setIsSignedIn(false);
+		addStatus('Signed out. The token is forgotten here, revoke it on GitHub to end it everywhere.');
+	};
+
+	/** Drops a signed-in token that expired or was revoked, so that it isn't sent anymore */
+	function expireSignIn() {
+		saveOauthSession(undefined);
+		localStorage.removeItem(tokenStorageKey);
+		removeLockedToken();
+		changeTokenLock('none');
+		setIsSignedIn(false);
+		setTokenPanelOpen(true);
+		addStatus('Your GitHub sign-in expired. Sign in again to download private repositories.');
+	}
+
+	/** Encrypts a new or edited token with the session's passphrase. Emptying the field deletes the locked token */
+	function saveUnlockedToken(value: string) {
+		if (!value) {
+			removeLockedToken();
+			changeTokenLock('none');
+		} else if (value !== getSessionToken()) {
+			updateLockedToken(value).catch((error: unknown) => {
+				addStatus(`The token couldn't be encrypted: ${isError(error) ? error.message : String(error)}.`);
+			});
+		}
+	}
+
+	function changeTokenLock(state: TokenLockState, value = '') {
+		if (state === 'locked') {
+			endTokenSession();
+		}
+
+		setTokenLock(state);
+		setToken(value);
+		finishUnlockRef.current?.(state === 'unlocked');
+		if (state === 'none') {
+			// The profile tokens were locked along with the token, only the unlocked ones can be kept
+			updateTokenProfiles(tokenProfiles.filter(profile => profile.token));
+		} else if (state === 'unlocked' && tokenLock === 'none') {
+			// A new passphrase encrypts the stored profile tokens too
+			updateTokenProfiles(tokenProfiles);
+		} else {
+			setTokenProfiles(getTokenProfiles());
+		}
+	}
+
+	function updateTokenProfiles(profiles: TokenProfile[]) {
+		setTokenProfiles(profiles);
+		saveTokenProfiles(profiles).catch((error: unknown) => {
+			addStatus(`The token profiles couldn't be saved: ${isError(error) ? error.message : String(error)}.`);
+		});
+	}
+
+	/** Shows the prompt once the ones of other downloads are answered, since only one fits on the page */
+	async function takePromptTurn<T>(signal: AbortSignal, prompt: () => Promise<T>): Promise<T> {
+		const turn = promptTurnRef.current.then(async () => {
+			signal.throwIfAborted();
+			return prompt();
+		});
+		promptTurnRef.current = turn.catch(() => undefined);
+		return turn;
+	}
+
+	/** Waits for the passphrase when a private repository needs the locked token. Resolves with whether it was unlocked */
+	const waitForUnlock = async (signal: AbortSignal): Promise<boolean> => {
+		if (!isTokenLocked()) {
+			return false;
+		}
+
+		return takePromptTurn(signal, async () => {
+			// Another download may have asked for it while this one waited
+			if (!isTokenLocked()) {
+				return getSessionToken() !== undefined;
+			}
+
+			setTokenPanelOpen(true);
+			setProgressLabel('Waiting for the passphrase...');
+			addStatus('This repository needs your token. Enter the passphrase in the token panel to unlock it.');
+			return new Promise(resolve => {
+				const finish = (unlocked: boolean) => {
+					signal.removeEventListener('abort', onAbort);
+					finishUnlockRef.current = undefined;
+					resolve(unlocked);
+				};
+
+				const onAbort = () => {
+					finish(false);
+				};
+
+				signal.addEventListener('abort', onAbort, {once: true});
+				finishUnlockRef.current = finish;
+			});
+		});
+	};
+
+	/** Whether a private repository can be downloaded, after unlocking the token if needed */
+	const ensureToken = async (url: string, signal: AbortSignal, {tokenProfile}: RequestOptions = {}): Promise<boolean> => {
+		if (hasToken(url, tokenProfile)) {
+			return true;
+		}
+
+		if (await waitForUnlock(signal)) {
+			return true;
+		}
+
+		setTokenPanelOpen(true);
+		addStatus('Private repository detected. Please add a token to continue.');
+		return false;
+	};
+
+	/** GitHub answers 404 for private repositories that the token can't see, so ask GitHub what the token can do */
+	const reportAccessProblems = async (url: string, signal: AbortSignal, {tokenProfile}: RequestOptions) => {
+		const parsedUrl = new URL(url);
+		const parsed = getProvider(parsedUrl)?.parseUrl(parsedUrl);
+		if (!hasToken(url, tokenProfile) || parsedUrl.hostname !== 'github.com' || !parsed || 'error' in parsed) {
+			return;
+		}
+
+		const inspection = await inspectToken(signal, findTokenProfile(parsedUrl, {name: tokenProfile})?.token);
+		setTokenInspection(inspection);
+		setTokenPanelOpen(true);
+		for (const diagnostic of diagnoseAccess(inspection, parsed)) {
+			addStatus(diagnostic);
+		}
+	};
+
+	/** Reports why the URL can't be downloaded, and resolves with the error in that case */
+	const resolveRepository = async (url: string, signal: AbortSignal, options: RequestOptions = {}) => {
+		let repositoryInfo = await getRepositoryInfo(url, options);
+		// Private repositories look missing until the token is unlocked
+		if ('error' in repositoryInfo && repositoryInfo.error === 'REPOSITORY_NOT_FOUND' && await waitForUnlock(signal)) {
+			repositoryInfo = await getRepositoryInfo(url, options);
+		}
+
+		if (!('error' in repositoryInfo)) {
+			return repositoryInfo;
+		}
+
+		addStatus(parseErrorMessage(repositoryInfo.error));
+		if (repositoryInfo.error === 'REPOSITORY_NOT_FOUND') {
+			await reportAccessProblems(url, signal, options);
+		}
+
+		return repositoryInfo;
+	};
+
+	const addHost = () => {
+		const hostname = normalizeHostname(hostnameText.replace(/^https?:\/\//, '').split('/')[0] ?? '');
+		if (!/^[a-z\d.-]+(?::\d+)?$/.test(hostname)) {
+			addStatus('Enter the hostname of the instance, like gitlab.example.com.');
+			return;
+		}
+
+		if (getProvider(new URL(`https://${hostname}`))) {
+			addStatus(`${hostname} is already supported.`);
+			return;
+		}
+
+		const host: HostConfig = {hostname, type: hostType, token: hostToken.trim() || undefined};
+		if (hostType === 'github') {
+			try {
+				host.apiBase = new URL(hostApiBase.trim() || `https://${hostname}/api/v3`).href.replace(/\/$/, '');
+				host.rawBase = new URL(hostRawBase.trim() || `https://${hostname}/raw`).href.replace(/\/$/, '');
+			} catch {
+				addStatus('The API and raw bases must be full URLs, like https://github.example.com/api/v3.');
+				return;
+			}
+		}
+
+		const nextHosts = [...hosts, host];
+		saveHostConfigs(nextHosts);
+		setHosts(nextHosts);
+		setHostnameText('');
+		setHostApiBase('');
+		setHostRawBase('');
+		setHostToken('');
+		addStatus(`Added ${hostname} as a ${providerTypes[hostType]} instance.`);
+	};
+
+	const removeHost = (hostname: string) => {
+		const nextHosts = hosts.filter(host => host.hostname !== hostname);
+		saveHostConfigs(nextHosts);
+		setHosts(nextHosts);
+	};
+
+	const refreshUnfinishedJobs = async () => {
+		try {
+			setUnfinishedJobs(await listJobs());
+		} catch {
+			// IndexedDB is unavailable, so there is nothing to resume.
+		}
+	};
+
+	useEffect(() => {
+		(async () => {
+			await discardStaleJobs();
+			await refreshUnfinishedJobs();
+		})().catch(error => {
+			console.error(error);
+		});
+	}, []);
+
+	useEffect(() => {
+		(async () => {
+			const items = restoreQueue(await listQueueItems());
+			const pending = items.filter(item => item.status === 'pending').length;
+			// Restored downloads wait for the user, instead of starting as soon as the page opens
+			if (pending > 0) {
+				setQueuePaused(true);
+				queuePausedRef.current = true;
+				addStatus(`Restored ${pending} queued download(s). Resume the queue to run them.`);
+			}
+
+			changeQueue(current => [...items, ...current]);
+		})().catch(() => {
+			// IndexedDB is unavailable, so the queue only lasts until the page closes.
+		});
+	}, []);
+
 	const formattedEstimate = useMemo(() => formatBytes(estimatedBytes), [estimatedBytes]);
+	// A locked token can only be unlocked or forgotten, so it isn't replaced by mistake
+	const isTokenInputDisabled = useMemo(() => isBusy || tokenLock === 'locked', [isBusy, tokenLock]);
+	const reviewedFiles = useMemo(() => review?.files.filter(file => reviewSelection.has(file.path)) ?? [], [review, reviewSelection]);
 
 	const addStatus = (message: string) => {
 		const entry = `[${new Date().toLocaleTimeString()}] ${message}`;
@@ -226,23 +652,42 @@ export default function App() {
 		setStatusLines([]);
 	};
 
-	const updateElapsed = () => {
-		if (!startedAtRef.current) {
-			setElapsed('00:00');
+	useEffect(() => onRateLimitPause(pause => {
+		setRateLimitPause(pause);
+		addStatus(`${pause.hostname} rate limit reached. Requests pause until ${new Date(pause.resumeAt).toLocaleTimeString()} and then resume on their own.`);
+	}), []);
+
+	useEffect(() => {
+		if (!rateLimitPause) {
 			return;
 		}
 
-		const ms = performance.now() - startedAtRef.current;
-		const seconds = Math.floor(ms / 1000);
-		const hours = Math.floor(seconds / 3600);
-		const minutes = Math.floor(seconds / 60) % 60;
-		const remainingSeconds = seconds % 60;
-		if (hours > 0) {
-			setElapsed(`${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(remainingSeconds).padStart(2, '0')}`);
+		const updateCountdown = () => {
+			const remaining = rateLimitPause.resumeAt - Date.now();
+			if (remaining > 0) {
+				setRateLimitCountdown(formatClock(remaining + 999));
+				return;
+			}
+
+			window.clearInterval(timer);
+			setRateLimitPause(undefined);
+			addStatus(`Resuming requests to ${rateLimitPause.hostname}.`);
+		};
+
+		const timer = window.setInterval(updateCountdown, 1000);
+		updateCountdown();
+		return () => {
+			window.clearInterval(timer);
+		};
+	}, [rateLimitPause]);
+
+	const updateElapsed = () => {
+		if (!startedAtRef.current) {
+			setElapsed('00:00');
 			return;
 		}
 
-		setElapsed(`${String(minutes).padStart(2, '0')}:${String(remainingSeconds).padStart(2, '0')}`);
+		setElapsed(formatClock(performance.now() - startedAtRef.current));
 	};
 
 	const startElapsedTimer = () => {
@@ -268,27 +713,53 @@ export default function App() {
 		setTotalFiles(0);
 		setDownloadedFiles(0);
 		setEstimatedBytes(0);
+		setSessionCommit('');
+		setCurrentConcurrency(undefined);
 		setFailedFiles([]);
+		setCorruptedFiles([]);
 		setProgressLabel('Idle');
 	};
 
 	const clearAll = (message?: string) => {
-		controllerRef.current?.abort();
-		controllerRef.current = null;
+		for (const controller of controllersRef.current.values()) {
+			controller.abort();
+		}
+
 		stopElapsedTimer();
 		resetSession();
 		clearStatus();
 		setUrlText('');
 		setFilename('');
+		setFormat('zip');
 		setFilterText('');
-		setToken('');
+		setBaseRefText('');
+		setFilterCaseSensitive(false);
+		setIncludeCommitInFilename(false);
+		setLockShareLinkToCommit(false);
+		setIncludeManifest(false);
+		setVerifyFiles(true);
+		setReviewBeforeDownload(false);
+		setMaterializeSymlinks(false);
+		setIncludeSubmodules(true);
+		setSubmoduleDepthText(String(defaultSubmoduleDepth));
+		setMaxFilesText(String(defaultSizeThresholds.files));
+		setMaxMegabytesText(String(defaultSizeThresholds.bytes / megabyte));
+		setAutoApproveText('');
+		setQueueTokenProfile('');
+		// Only signing out ends a GitHub sign-in and only "Forget token" deletes a locked token, this just locks it again
+		if (tokenLock !== 'none') {
+			changeTokenLock('locked');
+		} else if (!isSignedIn) {
+			setToken('');
+			localStorage.removeItem(tokenStorageKey);
+		}
+
 		setTokenVisible(false);
 		setTokenPanelOpen(false);
-		localStorage.removeItem(tokenStorageKey);
 		localStorage.removeItem(recentStorageKey);
 		setRecentUrls([]);
-		setQueueItems([]);
-		queueRef.current = [];
+		changeQueue(() => []);
+		setQueuePaused(false);
 		setIsBusy(false);
 		if (message) {
 			addStatus(message);
@@ -303,27 +774,63 @@ export default function App() {
 		});
 	};
 
-	const buildShareUrl = () => {
+	const buildShareUrl = async () => {
 		const urls = parseUrlList(urlText);
 		const firstUrl = urls[0];
 		if (!firstUrl) {
-			addStatus('Enter at least one GitHub directory URL first.');
+			addStatus('Enter at least one repository directory URL first.');
 			return;
 		}
 
 		const shareUrl = new URL(location.href);
 		shareUrl.searchParams.set('url', firstUrl);
+		shareUrl.searchParams.delete('commit');
+		if (lockShareLinkToCommit) {
+			const repositoryInfo = await getRepositoryInfo(firstUrl);
+			if ('error' in repositoryInfo) {
+				addStatus(parseErrorMessage(repositoryInfo.error));
+				return;
+			}
+
+			shareUrl.searchParams.set('commit', repositoryInfo.commit);
+			addStatus(`Share link locked to commit ${shortenCommit(repositoryInfo.commit)}.`);
+		}
+
 		if (filename.trim()) {
 			shareUrl.searchParams.set('filename', filename.trim());
 		} else {
 			shareUrl.searchParams.delete('filename');
 		}
 
+		if (format === 'zip') {
+			shareUrl.searchParams.delete('format');
+		} else {
+			shareUrl.searchParams.set('format', format);
+		}
+
+		if (filterText.trim()) {
+			shareUrl.searchParams.set('filter', filterText.trim());
+		} else {
+			shareUrl.searchParams.delete('filter');
+		}
+
+		if (filterCaseSensitive) {
+			shareUrl.searchParams.set('case-sensitive', '1');
+		} else {
+			shareUrl.searchParams.delete('case-sensitive');
+		}
+
+		if (baseRefText.trim()) {
+			shareUrl.searchParams.set('base', baseRefText.trim());
+		} else {
+			shareUrl.searchParams.delete('base');
+		}
+
 		return shareUrl.toString();
 	};
 
 	const copyShareLink = async () => {
-		const shareUrl = buildShareUrl();
+		const shareUrl = await buildShareUrl();
 		if (!shareUrl) {
 			return;
 		}
@@ -357,142 +864,284 @@ export default function App() {
 		}
 	};
 
-	const downloadFullRepository = async (options: {
+	const downloadFullRepository = async (options: RequestOptions & {
 		signal: AbortSignal;
+		provider: Provider;
 		user: string;
 		repository: string;
 		gitReference?: string;
+		commit: string;
 		downloadUrl: string;
 		isPrivate: boolean;
+		filename?: string;
+		format: ArchiveFormat;
+		settings: DownloadSettings;
+		/** Picked for `format`, for links that weren't known to be whole repositories until they were resolved */
+		output?: ArchiveOutput;
 	}) => {
-		const filenameFromInput = filename.trim();
+		// Hosts only serve whole repositories as zip or tar.gz
+		const archiveFormat = options.format === 'tar.gz' ? 'tar.gz' : 'zip';
+		if (archiveFormat !== options.format) {
+			addStatus(`${options.provider.name} only provides zip and tar.gz archives for whole repositories. Downloading a zip instead of ${archiveFormats[options.format].label}.`);
+		}
+
+		const archiveUrl = archiveFormat === 'zip'
+			? options.downloadUrl
+			: options.provider.getArchiveUrl(options, options.commit, archiveFormat);
 		const defaultName = buildDefaultFilename({
 			user: options.user,
 			repository: options.repository,
 			gitReference: options.gitReference,
+			commit: options.settings.includeCommit ? options.commit : undefined,
 			directory: '',
 		});
-		const zipName = ensureZipFilename(filenameFromInput || defaultName);
+		const zipName = ensureArchiveFilename(options.filename ?? defaultName, archiveFormat);
 
 		if (options.isPrivate) {
 			addStatus('Downloading private repository archive with token.');
-			const response = await authenticatedFetch(options.downloadUrl, {signal: options.signal});
+			const response = await authenticatedFetch(archiveUrl, {signal: options.signal, tokenProfile: options.tokenProfile});
 			if (!response.ok) {
 				throw new Error(`HTTP ${response.status} while downloading archive`);
 			}
 
 			const blob = await response.blob();
-			setTotalFiles(1);
-			setDownloadedFiles(1);
+			setTotalFiles(current => current + 1);
+			setDownloadedFiles(current => current + 1);
 			setProgressLabel('Archive downloaded');
-			saveFile(blob, zipName);
+			await saveArchiveFile(blob, zipName, {format: archiveFormat, output: options.output, outputFormat: options.format});
 			addStatus(`Saved ${zipName}`);
-			return;
+			return zipName;
 		}
 
-		if (filenameFromInput.length > 0) {
-			addStatus('Note: GitHub controls the filename for public repository archives.');
+		if (options.filename) {
+			addStatus(`Note: ${options.provider.name} controls the filename for public repository archives.`);
 		}
 
-		setTotalFiles(1);
-		setDownloadedFiles(1);
+		setTotalFiles(current => current + 1);
+		setDownloadedFiles(current => current + 1);
 		setProgressLabel('Starting archive download in browser...');
-		window.location.assign(options.downloadUrl);
-		addStatus('GitHub archive download started in a new request.');
+		window.location.assign(archiveUrl);
+		addStatus(`${options.provider.name} archive download started in a new request.`);
+		return undefined;
 	};
 
-	const downloadDirectory = async (options: {
+	const downloadSingleFile = async (options: RequestOptions & {
 		signal: AbortSignal;
+		provider: Provider;
+		url: string;
 		user: string;
 		repository: string;
 		gitReference: string;
-		directory: string;
+		commit: string;
+		filePath: string;
 		isPrivate: boolean;
-		filter: string[];
+		filename?: string;
+		format: ArchiveFormat;
+		settings: DownloadSettings;
+		output?: ArchiveOutput;
 	}) => {
-		addStatus('Retrieving directory file list...');
-		const files = await listFiles({
-			user: options.user,
-			repository: options.repository,
-			ref: options.gitReference,
-			directory: options.directory,
-			token: token || undefined,
-			getFullData: true,
-		});
+		addStatus(`Downloading ${options.filePath}...`);
+		setTotalFiles(current => current + 1);
+		setProgressLabel('Downloading file...');
 
-		if (files.length === 0) {
-			setTotalFiles(0);
-			setDownloadedFiles(0);
-			setProgressLabel('No files in this directory');
-			addStatus('No files found.');
-			return;
+		let blob: Blob;
+		try {
+			blob = await downloadFile({
+				user: options.user,
+				repository: options.repository,
+				reference: options.commit,
+				file: {path: options.filePath},
+				isPrivate: options.isPrivate,
+				signal: options.signal,
+				tokenProfile: options.tokenProfile,
+				provider: options.provider,
+			});
+		} catch (error) {
+			if (options.signal.aborted || isAbortError(error)) {
+				throw new DOMException('Canceled', 'AbortError');
+			}
+
+			setFailedFiles(current => [...current, options.filePath]);
+			throw error;
 		}
 
-		const filteredFiles = filterFiles(files, options.filter);
-		if (filteredFiles.length === 0) {
-			addStatus('No files matched the selected filter.');
-			return;
+		setDownloadedFiles(current => current + 1);
+		setEstimatedBytes(current => current + blob.size);
+		const basename = options.filePath.split('/').at(-1) ?? options.filePath;
+
+		if (options.settings.singleFileMode === 'file') {
+			const rawFilename = sanitizeFilename(options.filename ?? '') || basename;
+			await saveFile(blob, rawFilename, options.output && 'sink' in options.output ? options.output.sink : undefined);
+			setProgressLabel('Download complete');
+			addStatus(`Saved ${rawFilename}`);
+			return rawFilename;
 		}
 
-		if (filteredFiles.some(file => blockedWords.test(file.path))) {
-			throw new Error('Suspicious filename found. Download canceled.');
+		addStatus(`Creating ${archiveFormats[options.format].label} archive...`);
+		const archiveFilename = ensureArchiveFilename(options.filename ?? buildDefaultFilename({
+			user: options.user,
+			repository: options.repository,
+			gitReference: options.gitReference,
+			commit: options.settings.includeCommit ? options.commit : undefined,
+			directory: options.filePath,
+		}), options.format);
+		const archive = await createArchiveWriter(options.format, archiveFilename, options.output);
+		await archive.addFile(basename, blob);
+		if (options.settings.manifest && basename !== manifestFilename) {
+			const directory = options.filePath.split('/').slice(0, -1).join('/');
+			await archive.addFile(manifestFilename, serializeManifest(createManifest({
+				source: options.url,
+				owner: options.user,
+				repository: options.repository,
+				reference: options.gitReference,
+				commit: options.commit,
+				directory,
+				files: [{path: options.filePath, size: blob.size}],
+			})));
 		}
 
-		setTotalFiles(filteredFiles.length);
-		setDownloadedFiles(0);
-		setEstimatedBytes(estimateBytes(filteredFiles));
-		setProgressLabel(`Found ${filteredFiles.length} files`);
+		await archive.close();
+		setProgressLabel('Download complete');
+		addStatus(`Saved ${archiveFilename}`);
+		return archiveFilename;
+	};
 
-		const zipPromise = getZip();
-		const parsedConcurrency = Number.parseInt(concurrency, 10);
-		const safeConcurrency = Number.isNaN(parsedConcurrency) ? 20 : Math.max(1, Math.min(40, parsedConcurrency));
-		addStatus(`Downloading ${filteredFiles.length} files with concurrency ${safeConcurrency}...`);
+	const downloadJobFiles = async (options: RequestOptions & {
+		signal: AbortSignal;
+		provider: Provider;
+		url: string;
+		user: string;
+		repository: string;
+		gitReference?: string;
+		commit: string;
+		directory: string;
+		isPrivate: boolean;
+		filters: string[];
+		base?: BaseReference;
+		files: RepoFile[];
+		attachments?: JobAttachment[];
+		filename: string;
+		format: ArchiveFormat;
+		settings: DownloadSettings;
+		jobId?: string;
+		output?: ArchiveOutput;
+	}) => {
+		const storedFiles = options.jobId ? await getJobFiles(options.jobId) : new Map<string, Blob>();
+		const pendingFiles = options.files.filter(file => !storedFiles.has(file.path));
+		const filesByPath = new Map(options.files.map(file => [file.path, file]));
+		const sizes = new Map([...storedFiles].map(([path, blob]) => [path, blob.size]));
+
+		// Other queue items may be downloading too, so the session counts add up
+		setTotalFiles(current => current + options.files.length);
+		setDownloadedFiles(current => current + storedFiles.size);
+		setEstimatedBytes(current => current + estimateBytes(options.files));
+		setProgressLabel(`Found ${options.files.length} files`);
+
+		const archive = await createArchiveWriter(options.format, options.filename, options.output);
+		addStatus(archive.isStreaming
+			? `Writing ${options.filename} to disk as files arrive.`
+			: 'Building the archive in memory. Very large directories may not fit.');
+
+		const isAdaptive = options.settings.concurrency === 'auto';
+		const limiter = createDownloadLimiter(options.settings.concurrency);
+		setCurrentConcurrency(limiter.concurrency);
+		const stopWatchingConcurrency = limiter.onChange(setCurrentConcurrency);
+		const stopWatchingRateLimits = onRateLimitPause(() => {
+			limiter.recordThrottle();
+		});
+		const fetchListedFile = async (file: RepoFile) => downloadFile({
+			...getFileSource(file, {
+				user: options.user,
+				repository: options.repository,
+				reference: options.commit,
+				isPrivate: options.isPrivate,
+				provider: options.provider,
+			}),
+			signal: options.signal,
+			tokenProfile: options.tokenProfile,
+			verify: options.settings.verify,
+			onRetry: limiter.recordError,
+		});
+
+		// Jobs keep symlinks as they are, so resumed downloads resolve them again
+		const addEntry = async (file: RepoFile, blob: Blob) => {
+			const entry = await getArchiveEntry(file, blob, {files: options.files, fetch: fetchListedFile, materialize: options.settings.materializeSymlinks});
+			await archive.addFile(getRelativePath(file.path, options.directory), entry.blob, {mode: entry.mode});
+		};
+
+		addStatus(isAdaptive
+			? `Downloading ${pendingFiles.length} files, starting with concurrency ${limiter.concurrency} and adjusting it to the connection...`
+			: `Downloading ${pendingFiles.length} files with concurrency ${limiter.concurrency}...`);
 
 		let failures: string[] = [];
-		setFailedFiles([]);
+		const corrupted = new Set<string>();
+		let downloaded = storedFiles.size;
+		let canPersist = Boolean(options.jobId);
 
-		const downloadBatch = async (batch: RepoFile[], label: string) => {
-			addStatus(label);
-			await pMap(batch, async file => {
+		const downloadListedFile = async (file: RepoFile) => {
+			const blob = await limiter.run(async () => fetchListedFile(file));
+			await addEntry(file, blob);
+			sizes.set(file.path, blob.size);
+
+			if (canPersist && options.jobId) {
 				try {
-					const blob = await downloadFile({
-						user: options.user,
-						repository: options.repository,
-						reference: options.gitReference,
-						file,
-						isPrivate: options.isPrivate,
-						signal: options.signal,
-					});
-
-					const zip = await zipPromise;
-					const relativePath = options.directory ? file.path.replace(`${options.directory}/`, '') : file.path;
-					zip.file(relativePath, blob, {binary: true});
-
-					setDownloadedFiles(current => {
-						const next = current + 1;
-						setProgressLabel(`Downloaded ${next}/${filteredFiles.length}`);
-						return next;
-					});
+					await saveJobFile(options.jobId, file.path, blob);
 				} catch (error) {
-					if (options.signal.aborted || isAbortError(error)) {
-						throw error;
-					}
-
-					failures = [...failures, file.path];
-					setFailedFiles([...failures]);
+					console.error(error);
+					canPersist = false;
+					addStatus('Progress could not be saved locally, so this download cannot be resumed.');
 				}
-			}, {concurrency: safeConcurrency});
+			}
+
+			downloaded++;
+			setDownloadedFiles(current => current + 1);
+			setProgressLabel(`Downloaded ${downloaded}/${options.files.length}`);
+		};
+
+		const recordFailure = (file: RepoFile, error: unknown) => {
+			setFailedFiles(current => [...current, file.path]);
+			if (isError(error) && error.message.startsWith('Checksum mismatch')) {
+				corrupted.add(file.path);
+				setCorruptedFiles(current => [...current, file.path]);
+			} else if (isError(error) && error.message.startsWith('LFS ')) {
+				addStatus(`${error.message}.`);
+			}
+		};
+
+		const clearFailures = (files: RepoFile[]) => {
+			const retried = new Set(files.map(file => file.path));
+			setFailedFiles(current => current.filter(path => !retried.has(path)));
+			setCorruptedFiles(current => current.filter(path => !retried.has(path)));
+			corrupted.clear();
+			addStatus('Retrying failed files...');
 		};
 
 		try {
-			await downloadBatch(filteredFiles, 'Downloading files...');
-			if (failures.length > 0) {
-				const retryTargets = filteredFiles.filter(file => failures.includes(file.path));
-				failures = [];
-				setFailedFiles([]);
-				await downloadBatch(retryTargets, 'Retrying failed files...');
+			if (storedFiles.size > 0) {
+				for (const [path, blob] of storedFiles) {
+					// eslint-disable-next-line no-await-in-loop -- The writer handles one entry at a time anyway
+					await addEntry(filesByPath.get(path) ?? {path}, blob);
+				}
+
+				addStatus(`Restored ${storedFiles.size} previously downloaded files.`);
+			}
+
+			addStatus('Downloading files...');
+			const failed = await downloadFiles(pendingFiles, {
+				download: downloadListedFile,
+				// The limiter decides how many of these actually download at once
+				concurrency: maxConcurrency,
+				signal: options.signal,
+				onFailure: recordFailure,
+				onRetry: clearFailures,
+			});
+			failures = failed.map(file => file.path);
+
+			if (corrupted.size > 0) {
+				addStatus(`${corrupted.size} file(s) did not match their git blob SHA and were left out as corrupted.`);
 			}
 		} catch (error) {
+			await archive.abort();
 			if (options.signal.aborted || isAbortError(error)) {
 				throw new DOMException('Canceled', 'AbortError');
 			}
@@ -501,194 +1150,833 @@ export default function App() {
 				throw new Error('Network connection was lost while downloading files.');
 			}
 
-			if (isError(error) && error.message.startsWith('HTTP ')) {
-				throw new Error('One or more files could not be downloaded from GitHub.');
-			}
+			if (isError(error) && error.message.startsWith('HTTP ')) {
+				throw new Error(`One or more files could not be downloaded from ${options.provider.name}.`);
+			}
+
+			throw error;
+		} finally {
+			stopWatchingConcurrency();
+			stopWatchingRateLimits();
+		}
+
+		await addGeneratedFiles(archive, {
+			...options,
+			manifest: options.settings.manifest,
+			failedPaths: failures,
+			sizes,
+			log: addStatus,
+		});
+		addStatus(`Finishing ${archiveFormats[options.format].label} output...`);
+		await archive.close();
+		setProgressLabel('Download complete');
+		addStatus(`Saved ${options.filename}`);
+
+		if (options.jobId) {
+			await discardJob(options.jobId);
+		}
+
+		return options.filename;
+	};
+
+	/** When symlinks are materialized, replaces them with a copy of the file they point to, if that file is in the same repository */
+	const getArchiveEntry = async (link: RepoFile, blob: Blob, {files, fetch, materialize}: {
+		files: RepoFile[];
+		fetch: (file: RepoFile) => Promise<Blob>;
+		materialize: boolean;
+	}): Promise<{blob: Blob; mode?: string}> => {
+		if (!materialize || !parseGitMode(link.mode).isSymlink) {
+			return {blob, mode: link.mode};
+		}
+
+		const target = await blob.text();
+		const targetPath = resolveSymlinkTarget(link.path, target, link.submodule?.path);
+		const targetFile = targetPath ? files.find(file => file.path === targetPath) ?? {path: targetPath, submodule: link.submodule} : undefined;
+
+		// Chains of symlinks are kept, like links to folders and to files outside the repository
+		if (targetFile && !parseGitMode(targetFile.mode).isSymlink) {
+			try {
+				return {blob: await fetch(targetFile), mode: targetFile.mode};
+			} catch (error) {
+				if (isAbortError(error)) {
+					throw error;
+				}
+			}
+		}
+
+		addStatus(`${link.path} points to ${target}, which is not a file in the repository, so it was kept as a symlink.`);
+		return {blob, mode: link.mode};
+	};
+
+	/** Replaces the submodules in the listing with their files and reports the ones that can't be downloaded */
+	const listSubmoduleFiles = async (options: RepositoryReference & RequestOptions & {
+		signal: AbortSignal;
+		provider: Provider;
+		commit: string;
+		isPrivate: boolean;
+		settings: DownloadSettings;
+	}, files: RepoFile[]): Promise<RepoFile[]> => {
+		if (!files.some(file => isGitlink(file))) {
+			return files;
+		}
+
+		const depth = options.settings.submoduleDepth;
+		if (depth > 0) {
+			addStatus('Listing submodules...');
+		}
+
+		const expansion = await expandSubmodules(files, {...options, repository: options, depth});
+		for (const {path, url, commit, skipped} of expansion.submodules) {
+			addStatus(skipped
+				? `Submodule /${path} was skipped. ${skipped}`
+				: `Submodule /${path}: ${url!} at ${shortenCommit(commit)}`);
+		}
+
+		return expansion.files;
+	};
+
+	/** Keeps the files that changed since the base and lists the deleted and renamed ones in text files */
+	const keepChangedFiles = async (options: RepositoryReference & RequestOptions & {
+		signal: AbortSignal;
+		provider: Provider;
+		gitReference: string;
+		commit: string;
+		directory: string;
+		base: BaseReference;
+	}, files: RepoFile[]): Promise<{files: RepoFile[]; attachments: JobAttachment[]}> => {
+		if (!options.provider.compare) {
+			throw new Error(`${options.provider.name} does not support comparing references.`);
+		}
+
+		addStatus(`Comparing ${options.base.reference}...${options.gitReference}`);
+		const changes = await options.provider.compare(options, {
+			base: options.base.commit,
+			head: options.commit,
+			signal: options.signal,
+			tokenProfile: options.tokenProfile,
+		});
+		const summary = summarizeChanges(changes, options.directory);
+		const changedFiles = files.filter(file => summary.changedPaths.has(file.path));
+		addStatus(`${changedFiles.length} added or modified, ${summary.deleted.length} deleted and ${summary.renamed.length} renamed file(s).`);
+		return {files: changedFiles, attachments: createChangeNotes(summary)};
+	};
+
+	/** Shows the file browser and waits for the selection. Resolves with nothing when the review or the session is canceled */
+	const reviewFiles = async (options: {
+		signal: AbortSignal;
+		directory: string;
+		listedFiles: RepoFile[];
+		files: RepoFile[];
+		filters: string[];
+	}): Promise<{files: RepoFile[]; filters: string[]} | undefined> => takePromptTurn(options.signal, async () => {
+		const nextReview: FileReview = {
+			files: options.files,
+			tree: buildFileTree(options.files, options.directory),
+			fullTree: buildFileTree(options.listedFiles, options.directory),
+		};
+		setReview(nextReview);
+		setReviewSelection(new Set(nextReview.tree.filePaths));
+		setProgressLabel('Waiting for the file selection...');
+		addStatus(`Review the ${options.files.length} file(s), then download the selection.`);
+
+		return new Promise(resolve => {
+			const finish = (selection?: Set<string>) => {
+				options.signal.removeEventListener('abort', onAbort);
+				finishReviewRef.current = undefined;
+				setReview(undefined);
+				if (!selection) {
+					resolve(undefined);
+					return;
+				}
+
+				const files = options.files.filter(file => selection.has(file.path));
+				addStatus(`Selected ${files.length} file(s), ${formatBytes(estimateBytes(files))}.`);
+				resolve({
+					files,
+					// The rules describe the selection on their own, so they replace the filter in the manifest
+					filters: files.length < options.files.length ? getSelectionRules(nextReview.fullTree, selection) : options.filters,
+				});
+			};
+
+			const onAbort = () => {
+				finish();
+			};
+
+			options.signal.addEventListener('abort', onAbort, {once: true});
+			finishReviewRef.current = finish;
+		});
+	});
+
+	/** Asks before downloads over the size thresholds, unless the queue item approves them up front */
+	const confirmSize = async (options: {
+		signal: AbortSignal;
+		directory: string;
+		files: RepoFile[];
+		autoApproveMegabytes?: number;
+	}): Promise<SizeDecision> => {
+		const summary = summarizeSize(options.files, options.directory);
+		const thresholds = {
+			files: parseLimit(maxFilesText) ?? Number.POSITIVE_INFINITY,
+			bytes: (parseLimit(maxMegabytesText) ?? Number.POSITIVE_INFINITY) * megabyte,
+		};
+		if (!exceedsThresholds(summary, thresholds)) {
+			return 'continue';
+		}
+
+		const description = `${summary.count} file(s), ${formatBytes(summary.bytes)}`;
+		if (options.autoApproveMegabytes !== undefined && summary.bytes <= options.autoApproveMegabytes * megabyte) {
+			addStatus(`Auto-approved ${description}.`);
+			return 'continue';
+		}
+
+		return takePromptTurn(options.signal, async () => {
+			setSizeCheck(summary);
+			setProgressLabel('Waiting for confirmation...');
+			addStatus(`This download has ${description}, which is over the limits. Continue, trim it or cancel.`);
+
+			return new Promise(resolve => {
+				const finish = (decision: SizeDecision) => {
+					options.signal.removeEventListener('abort', onAbort);
+					finishSizeCheckRef.current = undefined;
+					setSizeCheck(undefined);
+					resolve(decision);
+				};
+
+				const onAbort = () => {
+					finish('cancel');
+				};
+
+				options.signal.addEventListener('abort', onAbort, {once: true});
+				finishSizeCheckRef.current = finish;
+			});
+		});
+	};
+
+	/** Runs the size confirmation and the file review. Resolves with nothing when either is canceled */
+	const confirmFiles = async (options: {
+		signal: AbortSignal;
+		directory: string;
+		listedFiles: RepoFile[];
+		files: RepoFile[];
+		filters: string[];
+		autoApproveMegabytes?: number;
+	}): Promise<{files: RepoFile[]; filters: string[]} | undefined> => {
+		if (options.files.length === 0) {
+			return {files: options.files, filters: options.filters};
+		}
+
+		const decision = await confirmSize(options);
+		if (decision === 'cancel') {
+			addStatus('Download canceled before it started.');
+			return;
+		}
+
+		if (decision === 'trim' || reviewBeforeDownload) {
+			const reviewed = await reviewFiles(options);
+			if (!reviewed) {
+				addStatus('File review canceled.');
+			}
+
+			return reviewed;
+		}
+
+		return {files: options.files, filters: options.filters};
+	};
+
+	const exportReviewRules = () => {
+		if (!review || reviewSelection.size === 0) {
+			return;
+		}
+
+		const rules = getSelectionRules(review.fullTree, reviewSelection);
+		setFilterText(rules.join(', '));
+		setFilterCaseSensitive(true);
+		addStatus(rules.length === 0
+			? 'Every file is selected, so the filter was cleared.'
+			: `Copied the selection to the filter as ${rules.length} case-sensitive rule(s).`);
+	};
+
+	const downloadDirectory = async (options: RequestOptions & {
+		signal: AbortSignal;
+		provider: Provider;
+		url: string;
+		user: string;
+		repository: string;
+		gitReference: string;
+		commit: string;
+		directory: string;
+		isPrivate: boolean;
+		filter: FilterRule[];
+		base?: BaseReference;
+		filename?: string;
+		format: ArchiveFormat;
+		settings: DownloadSettings;
+		autoApproveMegabytes?: number;
+		output?: ArchiveOutput;
+	}): Promise<DownloadOutcome> => {
+		addStatus('Retrieving directory file list...');
+		let files = await options.provider.listFiles(options, {
+			reference: options.commit,
+			directory: options.directory,
+			signal: options.signal,
+			tokenProfile: options.tokenProfile,
+		});
+
+		let attachments: JobAttachment[] = [];
+		if (options.base) {
+			({files, attachments} = await keepChangedFiles({...options, base: options.base}, files));
+		}
+
+		files = await listSubmoduleFiles(options, files);
+
+		if (files.length === 0 && attachments.length === 0) {
+			setProgressLabel(options.base ? 'No changes in this directory' : 'No files in this directory');
+			addStatus(options.base ? 'No files changed.' : 'No files found.');
+			return {status: 'done'};
+		}
+
+		const filterResult = filterFiles(files, options.filter, options.directory);
+		let filteredFiles = filterResult.files;
+		let filters = options.filter.map(rule => rule.source);
+		for (const [index, rule] of options.filter.entries()) {
+			addStatus(`Rule "${rule.source}" ${rule.negated ? 'excluded' : 'matched'} ${filterResult.counts[index] ?? 0} file(s).`);
+		}
+
+		if (filteredFiles.length === 0 && attachments.length === 0) {
+			addStatus('No files matched the selected filter.');
+			return {status: 'failed', error: 'No files matched the filter'};
+		}
+
+		if (filteredFiles.some(file => blockedWords.test(file.path))) {
+			throw new Error('Suspicious filename found. Download canceled.');
+		}
+
+		const confirmed = await confirmFiles({
+			signal: options.signal,
+			directory: options.directory,
+			listedFiles: files,
+			files: filteredFiles,
+			filters,
+			autoApproveMegabytes: options.autoApproveMegabytes,
+		});
+		if (!confirmed) {
+			return {status: 'canceled'};
+		}
+
+		({files: filteredFiles, filters} = confirmed);
+
+		const fallbackName = buildDefaultFilename({
+			user: options.user,
+			repository: options.repository,
+			gitReference: options.base ? `${options.base.reference}..${options.gitReference}` : options.gitReference,
+			commit: options.settings.includeCommit ? options.commit : undefined,
+			directory: options.directory,
+		});
+		const archiveFilename = ensureArchiveFilename(options.filename ?? fallbackName, options.format);
+
+		let jobId: string | undefined;
+		try {
+			const job = await createJob({
+				url: options.url,
+				user: options.user,
+				repository: options.repository,
+				gitReference: options.gitReference,
+				commit: options.commit,
+				directory: options.directory,
+				isPrivate: options.isPrivate,
+				filters,
+				base: options.base,
+				filename: archiveFilename,
+				format: options.format,
+				files: filteredFiles,
+				attachments,
+				tokenProfile: options.tokenProfile,
+			});
+			jobId = job.id;
+		} catch (error) {
+			console.error(error);
+			addStatus('Local storage for resumable downloads is unavailable.');
+		}
+
+		const outputFilename = await downloadJobFiles({
+			signal: options.signal,
+			tokenProfile: options.tokenProfile,
+			provider: options.provider,
+			url: options.url,
+			user: options.user,
+			repository: options.repository,
+			gitReference: options.gitReference,
+			commit: options.commit,
+			directory: options.directory,
+			isPrivate: options.isPrivate,
+			filters,
+			base: options.base,
+			files: filteredFiles,
+			attachments,
+			filename: archiveFilename,
+			format: options.format,
+			settings: options.settings,
+			jobId,
+			output: options.output,
+		});
+		return {status: 'done', outputFilename};
+	};
+
+	/** Runs a download and reports how it ended. Sessions that run side by side share the log, the counters and the timer */
+	const runSession = async (task: (signal: AbortSignal) => Promise<DownloadOutcome | void>, id: string = crypto.randomUUID()): Promise<DownloadOutcome> => {
+		if (activeSessionsRef.current === 0) {
+			clearStatus();
+			resetSession();
+			startElapsedTimer();
+		}
+
+		activeSessionsRef.current++;
+		if (isSignedIn && isOauthSessionExpired(getOauthSession())) {
+			expireSignIn();
+		}
+
+		setIsBusy(true);
+
+		const controller = new AbortController();
+		controllersRef.current.set(id, controller);
+
+		try {
+			return await task(controller.signal) ?? {status: 'done'};
+		} catch (error) {
+			if (controller.signal.aborted || isAbortError(error)) {
+				addStatus('Download canceled by user.');
+				setProgressLabel('Canceled');
+				return {status: 'canceled'};
+			}
+
+			if (isError(error)) {
+				switch (error.message) {
+					case 'Invalid token': {
+						if (isSignedIn) {
+							expireSignIn();
+						} else {
+							addStatus('The token is invalid or revoked.');
+						}
+
+						break;
+					}
+
+					case 'Rate limit exceeded': {
+						addStatus('The API rate limit was still exceeded after waiting for it to reset. Add a token or retry later.');
+						break;
+					}
+
+					default: {
+						addStatus(`Error: ${error.message}`);
+						break;
+					}
+				}
+			} else {
+				addStatus('Unexpected error occurred. Please retry.');
+			}
+
+			return {status: 'failed', error: isError(error) ? error.message : 'Unexpected error'};
+		} finally {
+			controllersRef.current.delete(id);
+			activeSessionsRef.current--;
+			if (activeSessionsRef.current === 0) {
+				stopElapsedTimer();
+				updateElapsed();
+				setIsBusy(false);
+			}
+
+			await refreshUnfinishedJobs();
+		}
+	};
+
+	/** Resolves the reference that only the changes since are downloaded. `false` means that it can't be used and the download should stop */
+	const resolveBase = async (
+		provider: Provider,
+		parsedPath: RepositoryReference & {filePath?: string; baseReference?: string; baseCommit?: string},
+		baseRef?: string,
+		options?: RequestOptions,
+	): Promise<BaseReference | false | undefined> => {
+		const reference = parsedPath.baseReference ?? baseRef;
+		if (!reference) {
+			return;
+		}
+
+		if (parsedPath.filePath) {
+			addStatus('The base ref is ignored for single files.');
+			return;
+		}
 
-			throw error;
+		if (!provider.compare) {
+			addStatus(`${provider.name} does not support comparing references.`);
+			return false;
 		}
 
-		addStatus('Creating zip archive...');
-		const zip = await zipPromise;
-		const zipBlob = await zip.generateAsync({type: 'blob'});
-		const fallbackName = buildDefaultFilename({
-			user: options.user,
-			repository: options.repository,
-			gitReference: options.gitReference,
-			directory: options.directory,
-		});
-		const zipFilename = ensureZipFilename(filename.trim() || fallbackName);
-		saveFile(zipBlob, zipFilename);
-		setProgressLabel('Download complete');
-		addStatus(`Saved ${zipFilename}`);
+		const commit = parsedPath.baseCommit ?? await provider.resolveReference(parsedPath, reference, options);
+		if (!commit) {
+			addStatus(parseErrorMessage('BRANCH_NOT_FOUND'));
+			return false;
+		}
+
+		addStatus(`Base: ${reference} (${shortenCommit(commit)})`);
+		return {reference, commit};
 	};
 
-	const runDownload = async (rawUrl: string, filenameOverride?: string, filterOverride?: string) => {
-		const normalizedUrl = parseGithubUrl(rawUrl);
-		if (!normalizedUrl) {
-			addStatus(`Invalid URL skipped: ${rawUrl}`);
-			return;
+	/** The options of the form, for the links queued now. Queued links keep their own, since the form may change while they wait */
+	const getDownloadSettings = (): DownloadSettings => ({
+		includeCommit: includeCommitInFilename,
+		manifest: includeManifest,
+		verify: verifyFiles,
+		concurrency,
+		materializeSymlinks,
+		submoduleDepth: includeSubmodules ? parseLimit(submoduleDepthText) ?? defaultSubmoduleDepth : 0,
+		singleFileMode,
+	});
+
+	const runDownload = async (item: QueueRequest & {id?: string}, output?: ArchiveOutput): Promise<DownloadOutcome> => {
+		const normalizedUrl = parseRepositoryUrl(item.url);
+		const provider = normalizedUrl ? getProvider(new URL(normalizedUrl)) : undefined;
+		if (!normalizedUrl || !provider) {
+			addStatus(`Invalid URL skipped: ${item.url}`);
+			return {status: 'failed', error: 'Invalid URL'};
 		}
 
 		if (blockedWords.test(normalizedUrl)) {
 			addStatus('Blocked keywords detected in URL.');
-			return;
+			return {status: 'failed', error: 'Blocked keywords in the URL'};
 		}
 
 		if (!navigator.onLine) {
 			addStatus('You are offline. Connect to the internet and retry.');
-			return;
+			return {status: 'failed', error: 'Offline'};
 		}
 
-		clearStatus();
-		setIsBusy(true);
-		startElapsedTimer();
-		addStatus('Preparing download request...');
-		setProgressLabel('Validating repository URL...');
-
-		const controller = new AbortController();
-		controllerRef.current = controller;
+		const {tokenProfile, settings = defaultDownloadSettings} = item;
+		return runSession(async signal => {
+			addStatus('Preparing download request...');
+			setProgressLabel('Validating repository URL...');
 
-		try {
-			const parsedPath = await getRepositoryInfo(normalizedUrl);
+			const parsedPath = await resolveRepository(normalizedUrl, signal, {tokenProfile});
 			if ('error' in parsedPath) {
-				addStatus(parseErrorMessage(parsedPath.error));
-				return;
+				return {status: 'failed', error: parseErrorMessage(parsedPath.error)};
 			}
 
 			const {user, repository, directory, isPrivate} = parsedPath;
-			addStatus(`Repository: ${user}/${repository}`);
-			addStatus(`Directory: /${directory || '(root)'}`);
+			const format = item.format ?? 'zip';
+			addStatus(`Repository: ${user}/${repository} on ${provider.name}`);
+			const commit = item.commit ?? parsedPath.commit;
+			if (commit !== parsedPath.commit) {
+				addStatus(`Locked to commit ${shortenCommit(commit)}, although ${parsedPath.gitReference ?? 'the default branch'} is now at ${shortenCommit(parsedPath.commit)}.`);
+			}
+
+			setSessionCommit(commit);
+			addStatus(`Commit: ${commit}`);
+			addStatus('filePath' in parsedPath ? `File: /${parsedPath.filePath}` : `Directory: /${directory || '(root)'}`);
 			pushRecentUrl(normalizedUrl);
 
-			if (isPrivate && !token) {
-				setTokenPanelOpen(true);
-				addStatus('Private repository detected. Please add a token to continue.');
-				return;
+			if (isPrivate && !await ensureToken(normalizedUrl, signal, {tokenProfile})) {
+				return {status: 'failed', error: 'A token is needed for this private repository'};
 			}
 
-			if ('downloadUrl' in parsedPath) {
-				if (filenameOverride) {
-					setFilename(filenameOverride);
-				}
+			const base = await resolveBase(provider, parsedPath, item.baseRef, {tokenProfile});
+			if (base === false) {
+				return {status: 'failed', error: 'The base reference could not be compared'};
+			}
 
-				await downloadFullRepository({
-					signal: controller.signal,
+			if ('downloadUrl' in parsedPath && !base) {
+				return {status: 'done', outputFilename: await downloadFullRepository({
+					signal,
+					tokenProfile,
+					provider,
 					user,
 					repository,
 					gitReference: parsedPath.gitReference,
-					downloadUrl: parsedPath.downloadUrl,
+					commit,
+					downloadUrl: commit === parsedPath.commit ? parsedPath.downloadUrl : provider.getArchiveUrl(parsedPath, commit),
 					isPrivate,
-				});
-				return;
+					filename: item.filename,
+					format,
+					settings,
+					output,
+				})};
 			}
 
-			if (filenameOverride) {
-				setFilename(filenameOverride);
+			if ('filePath' in parsedPath) {
+				return {status: 'done', outputFilename: await downloadSingleFile({
+					signal,
+					tokenProfile,
+					provider,
+					url: normalizedUrl,
+					user,
+					repository,
+					gitReference: parsedPath.gitReference,
+					commit,
+					filePath: parsedPath.filePath,
+					isPrivate,
+					filename: item.filename,
+					format,
+					settings,
+					output,
+				})};
 			}
 
-			const filter = filterOverride ? parseFilter(filterOverride) : parseFilter(filterText);
-			await downloadDirectory({
-				signal: controller.signal,
+			const filter = parseFilter(item.filter ?? '', {caseSensitive: item.caseSensitive});
+			return downloadDirectory({
+				signal,
+				tokenProfile,
+				provider,
+				url: normalizedUrl,
 				user,
 				repository,
-				gitReference: parsedPath.gitReference,
+				gitReference: parsedPath.gitReference ?? shortenCommit(commit),
+				commit,
 				directory,
 				isPrivate,
 				filter,
+				base,
+				filename: item.filename,
+				format,
+				settings,
+				autoApproveMegabytes: item.autoApproveMegabytes,
+				output,
 			});
-		} catch (error) {
-			if (controller.signal.aborted || isAbortError(error)) {
-				addStatus('Download canceled by user.');
-				setProgressLabel('Canceled');
+		}, item.id);
+	};
+
+	const resumeJob = async (jobId: string) => {
+		await runSession(async signal => {
+			const job = await getJob(jobId);
+			if (!job) {
+				addStatus('That unfinished download is no longer available.');
 				return;
 			}
 
-			if (isError(error)) {
-				switch (error.message) {
-					case 'Invalid token': {
-						addStatus('The token is invalid or revoked.');
-						break;
-					}
-
-					case 'Rate limit exceeded': {
-						addStatus('GitHub rate limit exceeded. Add token or wait and retry.');
-						break;
-					}
+			const provider = getProvider(new URL(job.url));
+			if (!provider) {
+				addStatus('The host of that unfinished download is no longer configured.');
+				return;
+			}
 
-					default: {
-						addStatus(`Error: ${error.message}`);
-						break;
-					}
-				}
-			} else {
-				addStatus('Unexpected error occurred. Please retry.');
+			addStatus(`Resuming ${job.user}/${job.repository} /${job.directory || '(root)'}`);
+			if (job.isPrivate && !await ensureToken(job.url, signal, {tokenProfile: job.tokenProfile})) {
+				return;
 			}
-		} finally {
-			stopElapsedTimer();
-			updateElapsed();
-			setIsBusy(false);
-			controllerRef.current = null;
-		}
+
+			// Jobs saved before downloads were pinned only have the reference
+			const commit = job.commit ?? job.gitReference;
+			setSessionCommit(commit);
+			await downloadJobFiles({
+				signal,
+				provider,
+				url: job.url,
+				user: job.user,
+				repository: job.repository,
+				gitReference: job.gitReference,
+				commit,
+				directory: job.directory,
+				isPrivate: job.isPrivate,
+				filters: job.filters ?? [],
+				base: job.base,
+				attachments: job.attachments,
+				files: job.files,
+				filename: job.filename,
+				format: job.format,
+				settings: getDownloadSettings(),
+				jobId: job.id,
+				tokenProfile: job.tokenProfile,
+			});
+		});
+	};
+
+	const discardUnfinishedJob = async (jobId: string) => {
+		await discardJob(jobId);
+		await refreshUnfinishedJobs();
+		addStatus('Unfinished download discarded.');
+	};
+
+	/** Updates the queue and stores it, so it survives reloads */
+	function changeQueue(update: (items: QueueItem[]) => QueueItem[]) {
+		queueRef.current = update(queueRef.current);
+		setQueueItems(queueRef.current);
+		saveQueueItems(queueRef.current).catch(error => {
+			console.error(error);
+		});
+	}
+
+	const updateQueueItem = (id: string, changes: Partial<QueueItem>) => {
+		changeQueue(items => items.map(item => item.id === id ? {...item, ...changes} : item));
 	};
 
+	/** Starts pending items in order, up to the parallel limit, until none are left or the queue is paused */
 	const processQueue = async () => {
 		if (isProcessingQueueRef.current) {
 			return;
 		}
 
 		isProcessingQueueRef.current = true;
-		while (queueRef.current.length > 0) {
-			const item = queueRef.current[0];
-			queueRef.current = queueRef.current.slice(1);
-			setQueueItems(queueRef.current);
+		const running = new Set<Promise<void>>();
+		for (;;) {
+			const item = queuePausedRef.current || running.size >= queueParallelRef.current
+				? undefined
+				: queueRef.current.find(item => item.status === 'pending');
+			if (item) {
+				updateQueueItem(item.id, {status: 'running', startedAt: Date.now()});
+				const output = pickedOutputsRef.current.get(item.id);
+				pickedOutputsRef.current.delete(item.id);
+				const download = runDownload(item, output).then(async outcome => {
+					if (output && !outcome.outputFilename) {
+						await releaseArchiveOutput(output);
+					}
+
+					updateQueueItem(item.id, {...outcome, finishedAt: Date.now()});
+				}).finally(() => {
+					running.delete(download);
+				});
+				running.add(download);
+				continue;
+			}
 
-			if (!item) {
+			if (running.size === 0) {
 				break;
 			}
 
-			// eslint-disable-next-line no-await-in-loop -- Sequential queue processing is intentional
-			await runDownload(item.url, item.filename, item.filter);
+			// eslint-disable-next-line no-await-in-loop -- A slot opens when any of the downloads ends
+			await Promise.race(running);
 		}
 
 		isProcessingQueueRef.current = false;
 	};
 
-	const addToQueue = () => {
+	const startQueue = () => {
+		processQueue().catch(error => {
+			console.error(error);
+		});
+	};
+
+	const addToQueue = (): QueueItem[] => {
 		const urls = parseUrlList(urlText);
 		if (urls.length === 0) {
-			addStatus('Enter at least one valid GitHub URL.');
-			return;
+			addStatus('Enter at least one valid repository URL.');
+			return [];
 		}
 
-		const nextItems = urls.map(url => ({
+		const nextItems = urls.map(url => createQueueItem({
 			url,
 			filename: filename.trim() || undefined,
 			filter: filterText.trim() || undefined,
+			caseSensitive: filterCaseSensitive,
+			format,
+			baseRef: baseRefText.trim() || undefined,
+			autoApproveMegabytes: parseLimit(autoApproveText),
+			tokenProfile: queueTokenProfile || undefined,
+			settings: getDownloadSettings(),
 		}));
 
-		setQueueItems(prev => {
-			const merged = [...prev, ...nextItems];
-			queueRef.current = merged;
-			return merged;
-		});
+		changeQueue(items => [...items, ...nextItems]);
 		addStatus(`Added ${urls.length} URL(s) to the queue.`);
+		return nextItems;
+	};
+
+	/** Asks where to save the download of a link. Whole repositories come from the host's archive and ambiguous paths may be files, so they are asked about later */
+	const pickOutput = async (item: QueueItem): Promise<ArchiveOutput | undefined> => {
+		const url = parseRepositoryUrl(item.url);
+		const parsedUrl = url ? new URL(url) : undefined;
+		const parsed = parsedUrl ? getProvider(parsedUrl)?.parseUrl(parsedUrl) : undefined;
+		if (!parsed || 'error' in parsed || parsed.parts.length === 0 || parsed.type === 'path') {
+			return;
+		}
+
+		if (parsed.type === 'blob' && (item.settings ?? defaultDownloadSettings).singleFileMode === 'file') {
+			const sink = await pickFileSink(sanitizeFilename(item.filename ?? '') || (parsed.parts.at(-1) ?? parsed.repository));
+			return sink && {sink};
+		}
+
+		const format = item.format ?? 'zip';
+		return pickArchiveOutput(format, ensureArchiveFilename(item.filename ?? sanitizeFilename([parsed.user, parsed.repository, ...parsed.parts].join('-')), format));
+	};
+
+	/**
+	 * Queues the links and starts the queue. The save picker only opens right after a click, so when the first link starts at once its output is picked now instead of after the listing and prompts.
+	 */
+	const downloadNow = async () => {
+		const isIdle = !queuePausedRef.current && !queueRef.current.some(item => item.status === 'pending' || item.status === 'running');
+		const [first] = addToQueue();
+		if (first && isIdle) {
+			try {
+				const output = await pickOutput(first);
+				if (output) {
+					pickedOutputsRef.current.set(first.id, output);
+				}
+			} catch (error) {
+				if (!isAbortError(error)) {
+					throw error;
+				}
+
+				updateQueueItem(first.id, {status: 'canceled', finishedAt: Date.now()});
+				addStatus('No save location was picked, so the download was canceled.');
+			}
+		}
+
+		startQueue();
 	};
 
 	const onSubmit = (event: FormEvent<HTMLFormElement>) => {
 		event.preventDefault();
-		addToQueue();
-		processQueue().catch(error => {
+		downloadNow().catch(error => {
 			console.error(error);
 		});
 	};
 
+	/** Stops the running downloads, which end up canceled in the queue. The queue pauses, so the pending links don't start in their place */
+	const cancelDownloads = () => {
+		for (const controller of controllersRef.current.values()) {
+			controller.abort();
+		}
+
+		const hasPending = queueRef.current.some(item => item.status === 'pending');
+		if (hasPending) {
+			setQueuePaused(true);
+			queuePausedRef.current = true;
+		}
+
+		addStatus(hasPending ? 'Download canceled. The queue is paused, resume it to start the remaining links.' : 'Download canceled.');
+	};
+
+	const cancelQueueItem = (id: string) => {
+		controllersRef.current.get(id)?.abort();
+	};
+
+	// Running items stay until they end, use Cancel to stop them
 	const clearQueue = () => {
-		queueRef.current = [];
-		setQueueItems([]);
+		changeQueue(items => items.filter(item => item.status === 'running'));
 		addStatus('Queue cleared.');
 	};
 
+	const pauseQueue = (paused: boolean) => {
+		setQueuePaused(paused);
+		queuePausedRef.current = paused;
+		addStatus(paused ? 'Queue paused.' : 'Queue resumed.');
+		if (!paused) {
+			startQueue();
+		}
+	};
+
+	const changeQueueParallel = (parallel: number) => {
+		setQueueParallel(parallel);
+		queueParallelRef.current = parallel;
+		startQueue();
+	};
+
+	const editQueueItem = (id: string, changes: Partial<QueueRequest>) => {
+		changeQueue(items => items.map(item => item.id === id && item.status !== 'running' ? requeueItem(item, changes) : item));
+		addStatus('Queue item updated.');
+		startQueue();
+	};
+
+	const retryQueueItems = (id?: string) => {
+		changeQueue(items => items.map(item => canRetry(item) && (!id || item.id === id) ? requeueItem(item) : item));
+		startQueue();
+	};
+
 	const clearRecent = () => {
 		localStorage.removeItem(recentStorageKey);
 		setRecentUrls([]);
@@ -698,8 +1986,7 @@ export default function App() {
 	const onKeyDown = (event: React.KeyboardEvent) => {
 		if ((event.ctrlKey || event.metaKey) && event.key === 'Enter') {
 			event.preventDefault();
-			addToQueue();
-			processQueue().catch(error => {
+			downloadNow().catch(error => {
 				console.error(error);
 			});
 		}
@@ -709,11 +1996,28 @@ export default function App() {
 		const query = new URLSearchParams(location.search);
 		const url = query.get('url');
 		const filenameParam = query.get('filename');
+		const filterParam = query.get('filter');
+		const caseSensitiveParam = query.has('case-sensitive');
+		const formatParam = parseArchiveFormat(query.get('format'));
+		const commitParam = query.get('commit');
+		const baseParam = query.get('base');
 		if (url) {
 			setUrlText(url);
 			setFilename(filenameParam ?? '');
+			setFilterText(filterParam ?? '');
+			setBaseRefText(baseParam ?? '');
+			setFilterCaseSensitive(caseSensitiveParam);
+			setFormat(formatParam ?? 'zip');
 			addStatus('URL detected in query parameters. Auto-starting download...');
-			runDownload(url, filenameParam ?? undefined, undefined).catch(error => {
+			runDownload({
+				url,
+				filename: filenameParam ?? undefined,
+				filter: filterParam ?? undefined,
+				caseSensitive: caseSensitiveParam,
+				format: formatParam,
+				commit: commitParam && /^[\da-f]{40}$/i.test(commitParam) ? commitParam : undefined,
+				baseRef: baseParam ?? undefined,
+			}).catch(error => {
 				console.error(error);
 			});
 		}
@@ -753,7 +2057,7 @@ export default function App() {
 					<div className="eyebrow">Ultimate GitHub Folder Utility</div>
 					<h1>Ultimate Directory Downloader UI</h1>
 					<p>
-						Paste any GitHub directory URL and get a clean zip instantly. Works for public
+						Paste any GitHub, GitLab, Bitbucket or Gitea directory URL and get a clean zip instantly. Works for public
 						repositories and private repos with a token.
 					</p>
 					<div className="hero-actions">
@@ -860,7 +2164,7 @@ export default function App() {
 				>
 					<div className="panel-card form-card">
 						<form id="download-form" onSubmit={onSubmit} onKeyDown={onKeyDown}>
-							<label htmlFor="url">GitHub directory URL or URLs (one per line)</label>
+							<label htmlFor="url">Directory or file URL or URLs (one per line)</label>
 							<div className="input-row">
 								<textarea
 									id="url"
@@ -903,20 +2207,38 @@ export default function App() {
 							</div>
 							<p className="hint">
 								Paste a URL like
-								<code>https://github.com/mrdoob/three.js/tree/dev/build</code>. Drag and drop also works.
+								<code>https://github.com/mrdoob/three.js/tree/dev/build</code>. File links
+								(<code>/blob/</code> or <code>raw.githubusercontent.com</code>) work too, and so do GitLab, Bitbucket
+								and Gitea or Forgejo links. Drag and drop also works.
 							</p>
 							<div className="grid-two">
 								<div>
 									<label htmlFor="filename">Output filename (optional)</label>
-									<input
-										id="filename"
-										name="filename"
-										type="text"
-										placeholder="my-folder-backup"
-										value={filename}
-										onChange={event => setFilename(event.target.value)}
-										disabled={isBusy}
-									/>
+									<div className="input-row">
+										<input
+											id="filename"
+											name="filename"
+											type="text"
+											placeholder="my-folder-backup"
+											value={filename}
+											onChange={event => setFilename(event.target.value)}
+											disabled={isBusy}
+										/>
+										<select
+											id="format"
+											name="format"
+											aria-label="Output format"
+											value={format}
+											onChange={event => setFormat(event.target.value as ArchiveFormat)}
+											disabled={isBusy}
+										>
+											{Object.entries(archiveFormats).map(([value, {label}]) => (
+												<option key={value} value={value} disabled={value === 'folder' && !isFolderOutputSupported()}>
+													{label}
+												</option>
+											))}
+										</select>
+									</div>
 								</div>
 								<div>
 									<label htmlFor="concurrency">Download speed</label>
@@ -927,22 +2249,183 @@ export default function App() {
 										onChange={event => setConcurrency(event.target.value)}
 										disabled={isBusy}
 									>
+										<option value="auto">Auto (adapts to the connection)</option>
 										<option value="8">Steady (8)</option>
 										<option value="20">Fast (20)</option>
 										<option value="30">Very fast (30)</option>
 									</select>
 								</div>
 							</div>
-							<label htmlFor="filter">File type filter (comma-separated, optional)</label>
+							<label className="checkbox">
+								<input
+									type="checkbox"
+									checked={includeCommitInFilename}
+									onChange={event => setIncludeCommitInFilename(event.target.checked)}
+									disabled={isBusy}
+								/>
+								Add the commit SHA to the default filename
+							</label>
+							<label className="checkbox">
+								<input
+									type="checkbox"
+									checked={lockShareLinkToCommit}
+									onChange={event => setLockShareLinkToCommit(event.target.checked)}
+									disabled={isBusy}
+								/>
+								Lock share links to the current commit
+							</label>
+							<label className="checkbox">
+								<input
+									type="checkbox"
+									checked={includeManifest}
+									onChange={event => setIncludeManifest(event.target.checked)}
+									disabled={isBusy}
+								/>
+								Add a {manifestFilename} listing the source, commit and files
+							</label>
+							<label className="checkbox">
+								<input
+									type="checkbox"
+									checked={verifyFiles}
+									onChange={event => setVerifyFiles(event.target.checked)}
+									disabled={isBusy}
+								/>
+								Verify every file against its git blob SHA (slower)
+							</label>
+							<label className="checkbox">
+								<input
+									type="checkbox"
+									checked={reviewBeforeDownload}
+									onChange={event => setReviewBeforeDownload(event.target.checked)}
+									disabled={isBusy}
+								/>
+								Review and pick files before downloading
+							</label>
+							<label className="checkbox">
+								<input
+									type="checkbox"
+									checked={materializeSymlinks}
+									onChange={event => setMaterializeSymlinks(event.target.checked)}
+									disabled={isBusy}
+								/>
+								Save symlinks as copies of the files they point to
+							</label>
+							<div className="grid-two">
+								<label className="checkbox">
+									<input
+										type="checkbox"
+										checked={includeSubmodules}
+										onChange={event => setIncludeSubmodules(event.target.checked)}
+										disabled={isBusy}
+									/>
+									Download git submodules
+								</label>
+								<div>
+									<label htmlFor="submodule-depth">Nested submodule levels</label>
+									<input
+										id="submodule-depth"
+										name="submodule-depth"
+										type="number"
+										min="1"
+										max="10"
+										value={submoduleDepthText}
+										onChange={event => setSubmoduleDepthText(event.target.value)}
+										disabled={isBusy || !includeSubmodules}
+									/>
+								</div>
+							</div>
+							<div className="grid-two">
+								<div>
+									<label htmlFor="max-files">Confirm above this many files</label>
+									<input
+										id="max-files"
+										name="max-files"
+										type="number"
+										min="0"
+										placeholder="No limit"
+										value={maxFilesText}
+										onChange={event => setMaxFilesText(event.target.value)}
+										disabled={isBusy}
+									/>
+								</div>
+								<div>
+									<label htmlFor="max-megabytes">Confirm above this size (MB)</label>
+									<input
+										id="max-megabytes"
+										name="max-megabytes"
+										type="number"
+										min="0"
+										placeholder="No limit"
+										value={maxMegabytesText}
+										onChange={event => setMaxMegabytesText(event.target.value)}
+										disabled={isBusy}
+									/>
+								</div>
+							</div>
+							<label htmlFor="auto-approve">Auto-approve queued downloads up to (MB, optional)</label>
+							<input
+								id="auto-approve"
+								name="auto-approve"
+								type="number"
+								min="0"
+								placeholder="Always ask"
+								value={autoApproveText}
+								onChange={event => setAutoApproveText(event.target.value)}
+								disabled={isBusy}
+							/>
+							<p className="hint">
+								Directories over the limits wait for a confirmation with a breakdown of their size. URLs added
+								to the queue keep the auto-approve size they were added with, so batch runs don't stop to ask.
+							</p>
+							<label htmlFor="single-file-mode">Single file links</label>
+							<select
+								id="single-file-mode"
+								name="single-file-mode"
+								value={singleFileMode}
+								onChange={event => setSingleFileMode(event.target.value as SingleFileMode)}
+								disabled={isBusy}
+							>
+								<option value="file">Save the file as is</option>
+								<option value="archive">Save the file in the selected output format</option>
+							</select>
+							<label htmlFor="filter">File filter rules (comma-separated, optional)</label>
 							<input
 								id="filter"
 								name="filter"
 								type="text"
-								placeholder=".ts, .js, .md"
+								placeholder="src/**/*.ts, !**/__tests__/**, .md"
 								value={filterText}
 								onChange={event => setFilterText(event.target.value)}
 								disabled={isBusy}
 							/>
+							<label className="checkbox">
+								<input
+									type="checkbox"
+									checked={filterCaseSensitive}
+									onChange={event => setFilterCaseSensitive(event.target.checked)}
+									disabled={isBusy}
+								/>
+								Case-sensitive rules
+							</label>
+							<p className="hint">
+								Globs match paths inside the directory. Prefix a rule with <code>!</code> to exclude,
+								end it with <code>/</code> to match a folder. Plain words like <code>md</code> match extensions.
+							</p>
+							<label htmlFor="base-ref">Base ref (optional)</label>
+							<input
+								id="base-ref"
+								name="base-ref"
+								type="text"
+								placeholder="v1.0.0"
+								value={baseRefText}
+								onChange={event => setBaseRefText(event.target.value)}
+								disabled={isBusy}
+							/>
+							<p className="hint">
+								Only download the files added or modified since this branch, tag or commit.
+								Deleted and renamed files are listed in <code>DELETED.txt</code> and <code>RENAMED.txt</code>.
+								Compare URLs like <code>/compare/v1.0...main</code> work too.
+							</p>
 							<details id="token-panel" open={tokenPanelOpen} onToggle={event => setTokenPanelOpen((event.target as HTMLDetailsElement).open)}>
 								<summary>Private repositories (GitHub token)</summary>
 								<label htmlFor="token">Personal access token</label>
@@ -953,25 +2436,140 @@ export default function App() {
 										type={tokenVisible ? 'text' : 'password'}
 										placeholder="ghp_..."
 										autoComplete="off"
-										pattern="[\da-f]{40}|ghp_.+|gho_.+|github_pat_.+"
+										pattern={tokenPattern}
 										value={token}
-										onChange={event => setToken(event.target.value)}
-										disabled={isBusy}
+										onChange={event => {
+											setToken(event.target.value);
+											if (isSignedIn) {
+												saveOauthSession(undefined);
+												setIsSignedIn(false);
+											}
+										}}
+										disabled={isTokenInputDisabled}
 									/>
 									<button
 										id="toggle-token"
 										type="button"
 										aria-pressed={tokenVisible}
 										onClick={() => setTokenVisible(value => !value)}
-										disabled={isBusy}
+										disabled={isTokenInputDisabled}
 									>
 										{tokenVisible ? 'Hide' : 'Show'}
 									</button>
 								</div>
 								<p className="hint">Stored only in your local browser storage.</p>
+								<TokenDetails inspection={tokenInspection}/>
+								<TokenLock
+									state={tokenLock}
+									token={token}
+									disabled={isBusy}
+									autoLockMinutes={autoLockMinutes}
+									onAutoLockChange={setAutoLockMinutes}
+									onStateChange={changeTokenLock}
+									onStatus={addStatus}
+								/>
+								<GithubSignIn
+									settings={oauthSettings}
+									isSignedIn={isSignedIn}
+									disabled={isTokenInputDisabled}
+									onSettingsChange={saveSignInSettings}
+									onSignIn={signIn}
+									onSignOut={signOut}
+									onStatus={addStatus}
+								/>
+							</details>
+							<TokenProfilesPanel
+								profiles={tokenProfiles}
+								queueProfile={queueTokenProfile}
+								disabled={isTokenInputDisabled}
+								onQueueProfileChange={setQueueTokenProfile}
+								onChange={updateTokenProfiles}
+								onStatus={addStatus}
+							/>
+							<details id="hosts-panel">
+								<summary>Self-hosted instances</summary>
+								<label htmlFor="host">Hostname</label>
+								<div className="input-row">
+									<input
+										id="host"
+										name="host"
+										type="text"
+										placeholder="gitlab.example.com"
+										value={hostnameText}
+										onChange={event => setHostnameText(event.target.value)}
+										disabled={isBusy}
+									/>
+									<select
+										id="host-type"
+										aria-label="Host type"
+										value={hostType}
+										onChange={event => setHostType(event.target.value as ProviderType)}
+										disabled={isBusy}
+									>
+										<option value="github">{providerTypes.github}</option>
+										<option value="gitlab">{providerTypes.gitlab}</option>
+										<option value="gitea">{providerTypes.gitea}</option>
+									</select>
+								</div>
+								{hostType === 'github' && (
+									<div className="grid-two">
+										<div>
+											<label htmlFor="host-api-base">API base</label>
+											<input
+												id="host-api-base"
+												type="url"
+												placeholder={`https://${hostnameText.trim() || 'github.example.com'}/api/v3`}
+												value={hostApiBase}
+												onChange={event => setHostApiBase(event.target.value)}
+												disabled={isBusy}
+											/>
+										</div>
+										<div>
+											<label htmlFor="host-raw-base">Raw content base</label>
+											<input
+												id="host-raw-base"
+												type="url"
+												placeholder={`https://${hostnameText.trim() || 'github.example.com'}/raw`}
+												value={hostRawBase}
+												onChange={event => setHostRawBase(event.target.value)}
+												disabled={isBusy}
+											/>
+										</div>
+									</div>
+								)}
+								<label htmlFor="host-token">Token for this host (optional)</label>
+								<div className="input-row">
+									<input
+										id="host-token"
+										type="password"
+										autoComplete="off"
+										value={hostToken}
+										onChange={event => setHostToken(event.target.value)}
+										disabled={isBusy}
+									/>
+									<button type="button" onClick={addHost} disabled={isBusy}>
+										Add
+									</button>
+								</div>
+								{hosts.length > 0 && (
+									<ul className="job-list">
+										{hosts.map(host => (
+											<li key={host.hostname}>
+												<span>{host.hostname} ({providerTypes[host.type]}{host.token ? ', with token' : ''})</span>
+												<button type="button" onClick={() => removeHost(host.hostname)} disabled={isBusy}>
+													Remove
+												</button>
+											</li>
+										))}
+									</ul>
+								)}
+								<p className="hint">
+									GitHub, GitLab, Bitbucket, Codeberg and gitea.com work without setup. Links to a registered
+									host, its API or its raw content are routed to it automatically.
+								</p>
 							</details>
 							<div className="actions">
-								<button id="cancel-button" className="btn btn-danger" type="button" disabled={!isBusy} onClick={() => clearAll('Download canceled. Ready for a new request.')}>
+								<button id="cancel-button" className="btn btn-danger" type="button" disabled={!isBusy} onClick={cancelDownloads}>
 									<span className="btn-icon" aria-hidden="true">
 										<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
 											<path d="M18 6L6 18"></path>
@@ -994,32 +2592,105 @@ export default function App() {
 						</form>
 					</div>
 
-					<div className="panel-card queue-card" id="queue">
-						<div className="card-head">
-							<h2>Queue</h2>
-							<div className="queue-actions">
-								<button id="clear-queue" className="btn btn-ghost" type="button" onClick={clearQueue}>
-									<span className="btn-icon" aria-hidden="true">
-										<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-											<path d="M3 6h18"></path>
-											<path d="M10 6v10"></path>
-											<path d="M14 6v10"></path>
-										</svg>
-									</span>
-								Clear queue
+					{sizeCheck && (
+						<div className="panel-card size-check-card" id="size-check">
+							<div className="card-head">
+								<h2>Large download</h2>
+								<span className="log-hint">{`${sizeCheck.count} files, ${formatBytes(sizeCheck.bytes)}`}</span>
+							</div>
+							<div className="size-breakdown">
+								<div>
+									<h3>Largest folders</h3>
+									<ul className="size-list">
+										{sizeCheck.largestFolders.length === 0 ? (
+											<li className="empty">No folders</li>
+										) : sizeCheck.largestFolders.map(entry => (
+											<li key={entry.name}>
+												<span>{`${entry.name}/`}</span>
+												<span className="tree-size">{`${entry.count} files, ${formatBytes(entry.size)}`}</span>
+											</li>
+										))}
+									</ul>
+								</div>
+								<div>
+									<h3>Largest files</h3>
+									<ul className="size-list">
+										{sizeCheck.largestFiles.map(entry => (
+											<li key={entry.name}>
+												<span>{entry.name}</span>
+												<span className="tree-size">{formatBytes(entry.size)}</span>
+											</li>
+										))}
+									</ul>
+								</div>
+								<div>
+									<h3>File types</h3>
+									<ul className="size-list">
+										{sizeCheck.extensions.map(entry => (
+											<li key={entry.name}>
+												<span>{entry.name ? `.${entry.name}` : 'No extension'}</span>
+												<span className="tree-size">{`${entry.count} files, ${formatBytes(entry.size)}`}</span>
+											</li>
+										))}
+									</ul>
+								</div>
+							</div>
+							<div className="actions">
+								<button className="btn btn-primary" type="button" onClick={() => finishSizeCheckRef.current?.('continue')}>
+									Download everything
+								</button>
+								<button className="btn btn-soft" type="button" onClick={() => finishSizeCheckRef.current?.('trim')}>
+									Trim the files
+								</button>
+								<button className="btn btn-ghost" type="button" onClick={() => finishSizeCheckRef.current?.('cancel')}>
+									Cancel
 								</button>
 							</div>
 						</div>
-						<ul className="queue-list">
-							{queueItems.length === 0 ? (
-								<li className="empty">Queue is empty</li>
-							) : (
-								queueItems.map((item, index) => (
-									<li key={`${item.url}-${index}`}>{`${index + 1}. ${item.url}`}</li>
-								))
-							)}
-						</ul>
-					</div>
+					)}
+
+					{review && (
+						<div className="panel-card review-card" id="review">
+							<div className="card-head">
+								<h2>Review files</h2>
+								<span className="log-hint">{`${reviewedFiles.length} of ${review.files.length} files, ${formatBytes(estimateBytes(reviewedFiles))}`}</span>
+							</div>
+							<div className="actions">
+								<button className="btn btn-soft" type="button" onClick={() => setReviewSelection(new Set(review.tree.filePaths))}>
+									Select all
+								</button>
+								<button className="btn btn-soft" type="button" onClick={() => setReviewSelection(new Set())}>
+									Select none
+								</button>
+								<button className="btn btn-soft" type="button" disabled={reviewSelection.size === 0} onClick={exportReviewRules}>
+									Use as filter rules
+								</button>
+							</div>
+							<FileBrowser tree={review.tree} selected={reviewSelection} formatSize={formatBytes} onChange={setReviewSelection}/>
+							<div className="actions">
+								<button className="btn btn-primary" type="button" disabled={reviewSelection.size === 0} onClick={() => finishReviewRef.current?.(reviewSelection)}>
+									Download selection
+								</button>
+								<button className="btn btn-ghost" type="button" onClick={() => finishReviewRef.current?.()}>
+									Cancel
+								</button>
+							</div>
+						</div>
+					)}
+
+					<QueueList
+						items={queueItems}
+						paused={queuePaused}
+						parallel={queueParallel}
+						onPausedChange={pauseQueue}
+						onParallelChange={changeQueueParallel}
+						onMove={(id, offset) => changeQueue(items => moveQueueItem(items, id, offset))}
+						onEdit={editQueueItem}
+						onRemove={id => changeQueue(items => items.filter(item => item.id !== id))}
+						onCancel={cancelQueueItem}
+						onRetry={retryQueueItems}
+						onClear={clearQueue}
+					/>
 
 					<div className="panel-card session-card" id="session">
 						<div className="card-head">
@@ -1058,10 +2729,51 @@ export default function App() {
 								<strong>{failedFiles.length}</strong>
 								<span>Failed files</span>
 							</article>
+							<article>
+								<strong title={sessionCommit || undefined}>{sessionCommit ? shortenCommit(sessionCommit) : '--'}</strong>
+								<span>Commit</span>
+							</article>
+							<article>
+								<strong>{currentConcurrency ?? '--'}</strong>
+								<span>{concurrency === 'auto' ? 'Concurrency (auto)' : 'Concurrency'}</span>
+							</article>
 						</div>
 						<div className="progress-wrap">
 							<progress value={downloadedFiles} max={Math.max(totalFiles, 1)}></progress>
 							<div id="progress-label">{progressLabel}</div>
+							{rateLimitPause && (
+								<div className="rate-limit-notice" role="status">
+									{`Paused by the ${rateLimitPause.hostname} rate limit, resuming in ${rateLimitCountdown}. Cancel to stop waiting.`}
+								</div>
+							)}
+						</div>
+						<div className="recents">
+							<h3>Unfinished downloads</h3>
+							<ul className="recent-list job-list">
+								{unfinishedJobs.length === 0 ? (
+									<li className="empty">None</li>
+								) : (
+									unfinishedJobs.map(job => (
+										<li key={job.id}>
+											<span>{`${job.user}/${job.repository}/${job.directory} (${job.completedPaths.length}/${job.totalFiles} files)`}</span>
+											<button type="button" disabled={isBusy} onClick={() => {
+												resumeJob(job.id).catch(error => {
+													console.error(error);
+												});
+											}}>
+												Resume
+											</button>
+											<button type="button" disabled={isBusy} onClick={() => {
+												discardUnfinishedJob(job.id).catch(error => {
+													console.error(error);
+												});
+											}}>
+												Discard
+											</button>
+										</li>
+									))
+								)}
+							</ul>
 						</div>
 						<div className="recents">
 							<h3>Recent URLs</h3>
@@ -1096,7 +2808,7 @@ export default function App() {
 									<li className="empty">None</li>
 								) : (
 									failedFiles.slice(0, 15).map(file => (
-										<li key={file}>{file}</li>
+										<li key={file}>{corruptedFiles.includes(file) ? `${file} (corrupted)` : file}</li>
 									))
 								)}
 							</ul>
@@ -1108,7 +2820,7 @@ export default function App() {
 			<footer className="site-footer">
 				<div>
 					<p>
-						No content is hosted on this website. Files are fetched directly from GitHub using the URL you provide.
+						No content is hosted on this website. Files are fetched directly from the repository host using the URL you provide.
 					</p>
 					<p>
 						Built by <a href="https://www.elitechwiz.site" target="_blank" rel="noreferrer">EliTechWiz</a>
@@ -1123,28 +2835,3 @@ export default function App() {
 		</div>
 	);
 }
-
-function parseErrorMessage(error: string): string {
-	switch (error) {
-		case 'NOT_A_REPOSITORY': {
-			return 'Not a repository URL.';
-		}
-
-		case 'NOT_A_DIRECTORY': {
-			return 'That URL points to a file, not a directory.';
-		}
-
-		case 'REPOSITORY_NOT_FOUND': {
-			return 'Repository not found. If it is private, provide a valid token.';
-		}
-
-		case 'BRANCH_NOT_FOUND': {
-			return 'Branch or tag could not be resolved.';
-		}
-
-		default: {
-			return 'Unknown repository parsing error.';
-		}
-	}
-}
-
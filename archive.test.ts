@@ -0,0 +1,78 @@
+import {afterEach, expect, test, vi} from 'vitest';
+import {
+	createArchiveWriter,
+	pickArchiveOutput,
+	releaseArchiveOutput,
+	resolveSymlinkTarget,
+	saveArchiveFile,
+} from './archive.js';
+import {type FileSink} from './file-sink.js';
+
+test('resolveSymlinkTarget', () => {
+	expect(resolveSymlinkTarget('bin/latest', 'run.sh')).toBe('bin/run.sh');
+	expect(resolveSymlinkTarget('bin/latest', './tools/../run.sh')).toBe('bin/run.sh');
+	expect(resolveSymlinkTarget('docs/readme.md', '../readme.md')).toBe('readme.md');
+	expect(resolveSymlinkTarget('readme.md', '../outside.md')).toBeUndefined();
+	expect(resolveSymlinkTarget('bin/latest', '/usr/bin/env')).toBeUndefined();
+	expect(resolveSymlinkTarget('bin/root', '..')).toBeUndefined();
+	expect(resolveSymlinkTarget('vendor/lib/link', 'src/lib.c', 'vendor/lib')).toBe('vendor/lib/src/lib.c');
+	expect(resolveSymlinkTarget('vendor/lib/link', '../readme.md', 'vendor/lib')).toBeUndefined();
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+function createMemorySink() {
+	const chunks: Array<Blob | Uint8Array> = [];
+	const sink: FileSink & {chunks: typeof chunks; isAborted: boolean} = {
+		chunks,
+		isAborted: false,
+		isStreaming: true,
+		async write(chunk) {
+			chunks.push(chunk);
+		},
+		async close() {
+			// Nothing to flush
+		},
+		async abort() {
+			sink.isAborted = true;
+		},
+	};
+	return sink;
+}
+
+test('createArchiveWriter writes to the output picked when the download started', async () => {
+	const sink = createMemorySink();
+	const archive = await createArchiveWriter('zip', 'repo.zip', {sink});
+	await archive.addFile('readme.md', new Blob(['# Hello']));
+	await archive.close();
+
+	const bytes = new Uint8Array(await new Blob(sink.chunks).arrayBuffer());
+	expect(String.fromCodePoint(...bytes.slice(0, 2))).toBe('PK');
+	expect(sink.isAborted).toBe(false);
+});
+
+test('pickArchiveOutput leaves the choice for later without a save picker', async () => {
+	expect(await pickArchiveOutput('zip', 'repo.zip')).toBeUndefined();
+
+	const sink = createMemorySink();
+	await releaseArchiveOutput({sink});
+	expect(sink.isAborted).toBe(true);
+});
+
+test('saveArchiveFile writes a whole repository archive to the output picked for it', async () => {
+	// A `tree/main` link can't be told apart from a directory before it's resolved, so a sink is picked for it
+	const sink = createMemorySink();
+	await saveArchiveFile(new Blob(['PK archive']), 'repo-main.zip', {format: 'zip', output: {sink}});
+	expect(await new Blob(sink.chunks).text()).toBe('PK archive');
+	expect(sink.isAborted).toBe(false);
+
+	const click = vi.fn();
+	vi.stubGlobal('document', {createElement: () => ({click})});
+	const tarSink = createMemorySink();
+	await saveArchiveFile(new Blob(['PK archive']), 'repo-main.zip', {format: 'zip', output: {sink: tarSink}, outputFormat: 'tar'});
+	expect(tarSink.chunks).toEqual([]);
+	expect(tarSink.isAborted).toBe(true);
+	expect(click).toHaveBeenCalledOnce();
+});
@@ -0,0 +1,215 @@
+import {
+	type FileSink,
+	createFileSink,
+	createGzipSink,
+	pickFileSink,
+	saveFile,
+} from './file-sink.js';
+import {createTarWriter} from './tar-writer.js';
+import {createZipWriter} from './zip-writer.js';
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz' | 'folder';
+
+export type ArchiveEntryOptions = {
+	/** The git tree mode, like `100644`, `100755` or `120000` */
+	mode?: string;
+};
+
+export type ArchiveWriter = {
+	isStreaming: boolean;
+	/** Entries are written in call order, so concurrent callers can await their own entry */
+	addFile(path: string, blob: Blob, options?: ArchiveEntryOptions): Promise<void>;
+	close(): Promise<void>;
+	abort(): Promise<void>;
+};
+
+export const archiveFormats: Record<ArchiveFormat, {label: string; extension: string; mimeType: string}> = {
+	zip: {label: 'zip', extension: '.zip', mimeType: 'application/zip'},
+	tar: {label: 'tar', extension: '.tar', mimeType: 'application/x-tar'},
+	// eslint-disable-next-line @typescript-eslint/naming-convention -- The format name is also the extension
+	'tar.gz': {label: 'tar.gz', extension: '.tar.gz', mimeType: 'application/gzip'},
+	folder: {label: 'Folder', extension: '', mimeType: ''},
+};
+
+/** Where the output goes, picked while the click that started the download still allows the save and folder pickers */
+export type ArchiveOutput = {sink: FileSink} | {folder: FileSystemDirectoryHandle};
+
+type DirectoryPickerGlobal = typeof globalThis & {
+	showDirectoryPicker?: (options?: {mode?: 'read' | 'readwrite'}) => Promise<FileSystemDirectoryHandle>;
+};
+
+export function parseArchiveFormat(value: string | undefined | null): ArchiveFormat | undefined {
+	return value && Object.hasOwn(archiveFormats, value) ? value as ArchiveFormat : undefined;
+}
+
+export function isFolderOutputSupported(): boolean {
+	return typeof (globalThis as DirectoryPickerGlobal).showDirectoryPicker === 'function';
+}
+
+export function parseGitMode(mode: string | undefined): {isSymlink: boolean; isExecutable: boolean; permissions: number} {
+	switch (mode) {
+		case '120000': {
+			return {isSymlink: true, isExecutable: false, permissions: 0o777};
+		}
+
+		case '100755': {
+			return {isSymlink: false, isExecutable: true, permissions: 0o755};
+		}
+
+		default: {
+			return {isSymlink: false, isExecutable: false, permissions: 0o644};
+		}
+	}
+}
+
+/** The path from the repository root that a symlink at `linkPath` points to. `undefined` for absolute targets and ones that leave `root` */
+export function resolveSymlinkTarget(linkPath: string, target: string, root = ''): string | undefined {
+	if (target.startsWith('/')) {
+		return;
+	}
+
+	const segments = linkPath.split('/').slice(0, -1);
+	for (const segment of target.split('/')) {
+		if (segment === '..') {
+			if (segments.length === 0) {
+				return;
+			}
+
+			segments.pop();
+		} else if (segment && segment !== '.') {
+			segments.push(segment);
+		}
+	}
+
+	const path = segments.join('/');
+	return path && (!root || path.startsWith(`${root}/`)) ? path : undefined;
+}
+
+export function sanitizeFilename(filename: string): string {
+	return filename.replaceAll(/[<>:"/\\|?*]+/g, '-').replaceAll(/\s+/g, ' ').trim();
+}
+
+export function ensureArchiveFilename(filename: string, format: ArchiveFormat): string {
+	const cleaned = sanitizeFilename(filename);
+	const safe = cleaned.length > 0 ? cleaned : 'downloaded-directory';
+	const {extension} = archiveFormats[format];
+	return safe.toLowerCase().endsWith(extension) ? safe : `${safe}${extension}`;
+}
+
+function createFolderWriter(root: FileSystemDirectoryHandle): ArchiveWriter {
+	const directories = new Map<string, Promise<FileSystemDirectoryHandle>>();
+	const getDirectory = async (path: string): Promise<FileSystemDirectoryHandle> => {
+		if (!path) {
+			return root;
+		}
+
+		let directory = directories.get(path);
+		if (!directory) {
+			const separator = path.lastIndexOf('/');
+			const parent = getDirectory(path.slice(0, Math.max(0, separator)));
+			directory = parent.then(async handle => handle.getDirectoryHandle(path.slice(separator + 1), {create: true}));
+			directories.set(path, directory);
+		}
+
+		return directory;
+	};
+
+	return {
+		isStreaming: true,
+		// Symlinks can't be created through the File System Access API, so they're saved as files containing their target
+		async addFile(path, blob) {
+			const separator = path.lastIndexOf('/');
+			const directory = await getDirectory(path.slice(0, Math.max(0, separator)));
+			const fileHandle = await directory.getFileHandle(path.slice(separator + 1), {create: true});
+			const writable = await fileHandle.createWritable();
+			await writable.write(blob);
+			await writable.close();
+		},
+		async close() {
+			// Every file is closed as soon as it's written
+		},
+		async abort() {
+			// Files already written are kept, like with any interrupted copy
+		},
+	};
+}
+
+async function pickFolder(): Promise<FileSystemDirectoryHandle> {
+	const {showDirectoryPicker} = globalThis as DirectoryPickerGlobal;
+	if (!showDirectoryPicker) {
+		throw new Error('Saving to a folder is not supported in this browser.');
+	}
+
+	return showDirectoryPicker({mode: 'readwrite'});
+}
+
+/**
+ * Asks where to save the output, which browsers only allow right after a click. Resolves with nothing where the save picker isn't available, so `createArchiveWriter` falls back to a download later.
+ */
+export async function pickArchiveOutput(format: ArchiveFormat, filename: string): Promise<ArchiveOutput | undefined> {
+	if (format === 'folder') {
+		return isFolderOutputSupported() ? {folder: await pickFolder()} : undefined;
+	}
+
+	const sink = await pickFileSink(filename);
+	return sink && {sink};
+}
+
+/** Discards an output that the download didn't write to, so no empty file is left behind */
+export async function releaseArchiveOutput(output: ArchiveOutput): Promise<void> {
+	if ('sink' in output) {
+		// It's already aborted if the download failed while writing
+		await output.sink.abort().catch(() => undefined);
+	}
+}
+
+/**
+ * Saves an archive that's already built, like the host's archive of a whole repository, to the output picked for it. An output picked for another format can't hold it, so it's released and the archive is saved as a download instead.
+ */
+export async function saveArchiveFile(blob: Blob, filename: string, {format, output, outputFormat = format}: {
+	format: ArchiveFormat;
+	output?: ArchiveOutput;
+	/** The format the output was picked for */
+	outputFormat?: ArchiveFormat;
+}): Promise<void> {
+	if (output && 'sink' in output && outputFormat === format) {
+		await saveFile(blob, filename, output.sink);
+		return;
+	}
+
+	if (output) {
+		await releaseArchiveOutput(output);
+	}
+
+	await saveFile(blob, filename);
+}
+
+/**
+ * Returns a writer for the chosen format, asking where to save the output unless it was picked already. Dismissing the save or folder picker rejects with an `AbortError`.
+ */
+export async function createArchiveWriter(format: ArchiveFormat, filename: string, output?: ArchiveOutput): Promise<ArchiveWriter> {
+	if (format === 'folder') {
+		const parent = output && 'folder' in output ? output.folder : await pickFolder();
+		return createFolderWriter(await parent.getDirectoryHandle(filename, {create: true}));
+	}
+
+	const sink = output && 'sink' in output ? output.sink : await createFileSink(filename, {mimeType: archiveFormats[format].mimeType});
+	return createSinkArchiveWriter(format, sink);
+}
+
+/** Writes an archive of the given format to any sink, like a file on disk in Node */
+export function createSinkArchiveWriter(format: Exclude<ArchiveFormat, 'folder'>, sink: FileSink): ArchiveWriter {
+	switch (format) {
+		case 'tar': {
+			return createTarWriter(sink);
+		}
+
+		case 'tar.gz': {
+			return createTarWriter(createGzipSink(sink));
+		}
+
+		default: {
+			return createZipWriter(sink);
+		}
+	}
+}
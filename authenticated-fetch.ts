@@ -1,39 +1,100 @@
+import {findHostConfig} from './hosts.js';
+import {getRateLimitDelay, pauseHost, waitForHost} from './rate-limit.js';
+import {findTokenProfile} from './token-profiles.js';
+import {getSessionToken} from './token-vault.js';
+
+const githubHosts = new Set([
+	'api.github.com',
+	'github.com',
+	'raw.githubusercontent.com',
+	'media.githubusercontent.com',
+]);
+
+// Each token belongs to one host, so it must not leak to other hosts
+function getToken(url: URL, tokenProfile?: string): string | undefined {
+	const profile = findTokenProfile(url, {name: tokenProfile});
+	if (profile) {
+		return profile.token;
+	}
+
+	if (githubHosts.has(url.hostname)) {
+		// A token locked with a passphrase is only usable while it's unlocked
+		return getSessionToken() ?? globalThis.localStorage?.getItem('token') ?? undefined;
+	}
+
+	return findHostConfig(url)?.token;
+}
+
+/** Whether requests to the URL are sent with a token */
+export function hasToken(url: string, tokenProfile?: string): boolean {
+	return Boolean(getToken(new URL(url), tokenProfile));
+}
+
+// Each wait can take up to an hour, so a few are plenty
+const maxRateLimitRetries = 3;
+
+/**
+ * Requests wait while the host is rate limited. When a response reports that the budget ran out, every request to that host pauses until it resets, and a rejected request is sent again afterwards.
+ */
 export default async function authenticatedFetch(
 	url: string,
-	{signal, method}: {signal?: AbortSignal; method?: 'HEAD'} = {},
+	{signal, tokenProfile, method, accept, body}: {
+		signal?: AbortSignal;
+		/** The token profile picked for the download, instead of the one matching the URL */
+		tokenProfile?: string;
+		method?: 'HEAD' | 'POST';
+		accept?: string;
+		/** Sent as the `accept` media type too, which is what JSON APIs like Git LFS expect */
+		body?: string;
+	} = {},
 ): Promise<Response> {
-	const token = globalThis.localStorage?.getItem('token');
-
-	const response = await fetch(url, {
-		method,
-		signal,
-		...(token
-			? {
-				headers: {
-					// eslint-disable-next-line @typescript-eslint/naming-convention
-					Authorization: `Bearer ${token}`,
-				},
-			}
-			: {}),
-	});
-
-	switch (response.status) {
-		case 401: {
+	const parsedUrl = new URL(url);
+	const token = getToken(parsedUrl, tokenProfile);
+
+	for (let attempt = 0; ; attempt++) {
+		// eslint-disable-next-line no-await-in-loop -- Retries must wait for the rate limit to reset
+		await waitForHost(parsedUrl.hostname, signal);
+
+		/* eslint-disable @typescript-eslint/naming-convention -- HTTP headers */
+		// eslint-disable-next-line no-await-in-loop -- Retries must wait for the rate limit to reset
+		const response = await fetch(url, {
+			method,
+			signal,
+			body,
+			headers: {
+				...(accept ? {Accept: accept} : {}),
+				...(accept && body ? {'Content-Type': accept} : {}),
+				...(token ? {Authorization: `Bearer ${token}`} : {}),
+			},
+		});
+		/* eslint-enable @typescript-eslint/naming-convention */
+
+		if (response.status === 401) {
 			throw new Error('Invalid token');
 		}
 
-		case 403:
-		case 429: {
-			// See https://developer.github.com/v3/#rate-limiting
-			if (response.headers.get('X-RateLimit-Remaining') === '0') {
-				throw new Error('Rate limit exceeded');
-			}
+		// Organizations with SAML single sign-on reject tokens that weren't authorized for them
+		const sso = response.status === 403 ? response.headers.get('X-GitHub-SSO') : null;
+		if (sso?.startsWith('required')) {
+			const ssoUrl = /url=(\S+)/.exec(sso)?.[1];
+			throw new Error(`SSO authorization required${ssoUrl ? `: authorize the token at ${ssoUrl}` : ''}`);
+		}
+
+		// See https://docs.github.com/en/rest/using-the-rest-api/rate-limits-for-the-rest-api
+		const delay = getRateLimitDelay(response);
+		if (delay === undefined) {
+			return response;
+		}
+
+		pauseHost(parsedUrl.hostname, Date.now() + delay);
 
-			break;
+		// This request made it, only the next ones have to wait
+		if (response.ok) {
+			return response;
 		}
 
-		default:
+		if (attempt >= maxRateLimitRetries) {
+			throw new Error('Rate limit exceeded');
+		}
 	}
-
-	return response;
 }
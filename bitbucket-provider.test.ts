@@ -0,0 +1,78 @@
+import {afterEach, expect, test, vi} from 'vitest';
+import {createBitbucketProvider} from './bitbucket-provider.js';
+import bitbucket from './fixtures/bitbucket.js';
+import serveFixtures from './fixtures/serve-fixtures.js';
+import getRepositoryInfo from './repository-info.js';
+
+const controller = new AbortController();
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+test('parseUrl', () => {
+	const provider = createBitbucketProvider();
+	expect(provider.parseUrl(new URL('https://bitbucket.org/atlassian/python-bitbucket/src/master/docs/'))).toEqual({
+		user: 'atlassian',
+		repository: 'python-bitbucket',
+		type: 'path',
+		parts: ['master', 'docs'],
+	});
+	expect(provider.parseUrl(new URL('https://bitbucket.org/atlassian/python-bitbucket/raw/master/readme.md'))).toEqual({
+		user: 'atlassian',
+		repository: 'python-bitbucket',
+		type: 'blob',
+		parts: ['master', 'readme.md'],
+	});
+	expect(provider.parseUrl(new URL('https://bitbucket.org/atlassian/python-bitbucket/pull-requests'))).toEqual({error: 'NOT_A_DIRECTORY'});
+});
+
+test('getRepositoryInfo', async () => {
+	serveFixtures(bitbucket);
+	await expect(getRepositoryInfo('https://bitbucket.org/atlassian/python-bitbucket/src/master/docs/')).resolves.toEqual({
+		user: 'atlassian',
+		repository: 'python-bitbucket',
+		gitReference: 'master',
+		commit: '7e3d5a0c4b1f9e8d2c6a5b4f3e2d1c0b9a8f7e6d',
+		directory: 'docs',
+		isPrivate: false,
+	});
+	await expect(getRepositoryInfo('https://bitbucket.org/atlassian/python-bitbucket/raw/master/readme.md')).resolves.toEqual({
+		user: 'atlassian',
+		repository: 'python-bitbucket',
+		gitReference: 'master',
+		commit: '7e3d5a0c4b1f9e8d2c6a5b4f3e2d1c0b9a8f7e6d',
+		directory: '',
+		filePath: 'readme.md',
+		isPrivate: false,
+	});
+	await expect(getRepositoryInfo('https://bitbucket.org/atlassian/private-repository')).resolves.toEqual({error: 'REPOSITORY_NOT_FOUND'});
+});
+
+test('listFiles recurses into directories and keeps modes', async () => {
+	serveFixtures(bitbucket);
+	const provider = createBitbucketProvider();
+	await expect(provider.listFiles({user: 'atlassian', repository: 'python-bitbucket'}, {reference: 'master', directory: 'docs'})).resolves.toEqual([
+		{path: 'docs/index.rst', size: 1380, mode: '100644'},
+		{path: 'docs/make.sh', size: 210, mode: '100755'},
+		{path: 'docs/api/latest', size: 7, mode: '120000'},
+	]);
+});
+
+test('fetchFile', async () => {
+	const requests = serveFixtures(bitbucket);
+	const provider = createBitbucketProvider();
+	const repository = {user: 'atlassian', repository: 'python-bitbucket'};
+	const options = {
+		reference: 'master',
+		file: {path: 'docs/index.rst'},
+		isPrivate: false,
+		signal: controller.signal,
+	};
+	const blob = await provider.fetchFile(repository, options);
+	await expect(blob.text()).resolves.toBe('Python Bitbucket\n================\n');
+	await provider.fetchFile(repository, options);
+
+	// The branch is only resolved once
+	expect(requests.filter(request => request.url.includes('/refs/'))).toHaveLength(1);
+});
@@ -0,0 +1,224 @@
+import authenticatedFetch from './authenticated-fetch.js';
+import {
+	type ChangedFile,
+	type Provider,
+	type ProviderFile,
+	type RepositoryReference,
+	type RequestOptions,
+	encodePath,
+	getPathSegments,
+} from './provider.js';
+
+type BitbucketSourceItem = {
+	type: 'commit_file' | 'commit_directory';
+	path: string;
+	size?: number;
+	attributes?: string[];
+};
+
+type BitbucketDiffstat = {
+	status: 'added' | 'removed' | 'modified' | 'renamed' | 'merge conflict' | 'local deleted' | 'remote deleted';
+	old: {path: string} | null;
+	new: {path: string} | null;
+};
+
+type BitbucketPage<T> = {
+	values: T[];
+	next?: string;
+};
+
+const apiBase = 'https://api.bitbucket.org/2.0';
+
+function getMode(attributes: string[] = []): string {
+	if (attributes.includes('link')) {
+		return '120000';
+	}
+
+	return attributes.includes('executable') ? '100755' : '100644';
+}
+
+export function createBitbucketProvider(): Provider {
+	// Source URLs need a commit hash, because branch names can contain slashes too
+	const commits = new Map<string, Promise<string | undefined>>();
+
+	const getRepositoryUrl = ({user, repository}: RepositoryReference) =>
+		`${apiBase}/repositories/${user}/${repository}`;
+
+	const findCommit = async (repository: RepositoryReference, reference: string, options?: RequestOptions): Promise<string | undefined> => {
+		const repositoryUrl = getRepositoryUrl(repository);
+		for (const type of ['branches', 'tags']) {
+			// eslint-disable-next-line no-await-in-loop -- Branches win over tags, like in git
+			const response = await authenticatedFetch(`${repositoryUrl}/refs/${type}/${encodeURIComponent(reference)}`, options);
+			if (response.ok) {
+				// eslint-disable-next-line no-await-in-loop -- Branches win over tags, like in git
+				const {target} = await response.json() as {target: {hash: string}};
+				return target.hash;
+			}
+		}
+
+		if (!/^[\da-f]{7,40}$/i.test(reference)) {
+			return;
+		}
+
+		const response = await authenticatedFetch(`${repositoryUrl}/commit/${reference}`, options);
+		if (!response.ok) {
+			return;
+		}
+
+		const {hash} = await response.json() as {hash: string};
+		return hash;
+	};
+
+	const resolveCommit = async (repository: RepositoryReference, reference: string, options?: RequestOptions) => {
+		if (/^[\da-f]{40}$/i.test(reference)) {
+			return reference;
+		}
+
+		const key = `${repository.user}/${repository.repository}/${reference}`;
+		let commit = commits.get(key);
+		if (!commit) {
+			commit = findCommit(repository, reference, options);
+			commits.set(key, commit);
+		}
+
+		return commit;
+	};
+
+	const getSourceUrl = async (repository: RepositoryReference, reference: string, path: string, options?: RequestOptions) => {
+		const commit = await resolveCommit(repository, reference, options);
+		if (!commit) {
+			throw new Error('Branch or tag could not be resolved.');
+		}
+
+		return `${getRepositoryUrl(repository)}/src/${commit}/${encodePath(path)}`;
+	};
+
+	return {
+		name: 'Bitbucket',
+		hostname: 'bitbucket.org',
+		parseUrl(url) {
+			const [user, repository, type, ...parts] = getPathSegments(url);
+			if (!user || !repository) {
+				return {error: 'NOT_A_REPOSITORY'};
+			}
+
+			switch (type) {
+				case undefined: {
+					return {user, repository, parts: []};
+				}
+
+				case 'src': {
+					return {user, repository, type: 'path', parts};
+				}
+
+				case 'raw': {
+					return {user, repository, type: 'blob', parts};
+				}
+
+				default: {
+					return {error: 'NOT_A_DIRECTORY'};
+				}
+			}
+		},
+		async getRepository(repository, options) {
+			const response = await authenticatedFetch(getRepositoryUrl(repository), options);
+
+			// Private repositories are 403 rather than 404 without access
+			if (response.status === 404 || response.status === 403) {
+				return;
+			}
+
+			const {is_private: isPrivate, mainbranch} = await response.json() as {is_private: boolean; mainbranch: {name: string}};
+			return {isPrivate, defaultBranch: mainbranch.name};
+		},
+		resolveReference: resolveCommit,
+		async getPathType(repository, reference, path, options) {
+			const response = await authenticatedFetch(`${await getSourceUrl(repository, reference, path, options)}?format=meta`, options);
+			if (!response.ok) {
+				return;
+			}
+
+			const {type} = await response.json() as BitbucketSourceItem;
+			return type === 'commit_directory' ? 'directory' : 'file';
+		},
+		getArchiveUrl({user, repository}, reference, format = 'zip') {
+			return `https://bitbucket.org/${user}/${repository}/get/${encodeURIComponent(reference ?? 'HEAD')}.${format}`;
+		},
+		async listFiles(repository, {reference, directory, signal, tokenProfile}) {
+			const listDirectory = async (path: string): Promise<ProviderFile[]> => {
+				const files: ProviderFile[] = [];
+				const subdirectories: Array<Promise<ProviderFile[]>> = [];
+				let next: string | undefined = `${await getSourceUrl(repository, reference, path, {tokenProfile})}${path ? '/' : ''}?pagelen=100`;
+				while (next) {
+					// eslint-disable-next-line no-await-in-loop -- Each page links to the next one
+					const response = await authenticatedFetch(next, {signal, tokenProfile});
+					if (response.status === 404) {
+						return [];
+					}
+
+					if (!response.ok) {
+						throw new Error(`HTTP ${response.status} while listing files`);
+					}
+
+					// eslint-disable-next-line no-await-in-loop -- Each page links to the next one
+					const page = await response.json() as BitbucketPage<BitbucketSourceItem>;
+					for (const item of page.values) {
+						if (item.type === 'commit_directory') {
+							subdirectories.push(listDirectory(item.path));
+						} else {
+							files.push({path: item.path, size: item.size, mode: getMode(item.attributes)});
+						}
+					}
+
+					next = page.next;
+				}
+
+				const nestedFiles = await Promise.all(subdirectories);
+				return [...files, ...nestedFiles.flat()];
+			};
+
+			return listDirectory(directory);
+		},
+		async fetchFile(repository, {reference, file, signal, tokenProfile}) {
+			const response = await authenticatedFetch(await getSourceUrl(repository, reference, file.path, {tokenProfile}), {signal, tokenProfile});
+			if (!response.ok) {
+				throw new Error(`HTTP ${response.statusText} for ${file.path}`);
+			}
+
+			return response.blob();
+		},
+		async compare(repository, {base, head, signal, tokenProfile}) {
+			const [baseCommit, headCommit] = await Promise.all([resolveCommit(repository, base, {tokenProfile}), resolveCommit(repository, head, {tokenProfile})]);
+			if (!baseCommit || !headCommit) {
+				throw new Error('Branch or tag could not be resolved.');
+			}
+
+			// The spec reads like `git diff base...head` when it's written as `head..base`
+			const files: ChangedFile[] = [];
+			let next: string | undefined = `${getRepositoryUrl(repository)}/diffstat/${headCommit}..${baseCommit}?pagelen=500`;
+			while (next) {
+				// eslint-disable-next-line no-await-in-loop -- Each page links to the next one
+				const response = await authenticatedFetch(next, {signal, tokenProfile});
+				if (!response.ok) {
+					throw new Error(`HTTP ${response.status} while comparing ${base} and ${head}`);
+				}
+
+				// eslint-disable-next-line no-await-in-loop -- Each page links to the next one
+				const page = await response.json() as BitbucketPage<BitbucketDiffstat>;
+				for (const item of page.values) {
+					if (item.new && item.old && item.status === 'renamed') {
+						files.push({path: item.new.path, status: 'renamed', previousPath: item.old.path});
+					} else if (item.new) {
+						files.push({path: item.new.path, status: item.old ? 'modified' : 'added'});
+					} else if (item.old) {
+						files.push({path: item.old.path, status: 'removed'});
+					}
+				}
+
+				next = page.next;
+			}
+
+			return files;
+		},
+	};
+}
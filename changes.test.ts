@@ -0,0 +1,39 @@
+import {test, expect} from 'vitest';
+import {createChangeNotes, summarizeChanges} from './changes.js';
+import {type ChangedFile} from './provider.js';
+
+const changes: ChangedFile[] = [
+	{path: 'docs/added.md', status: 'added'},
+	{path: 'docs/guide.md', status: 'modified'},
+	{path: 'docs/old.md', status: 'removed'},
+	{path: 'docs/new-name.md', previousPath: 'docs/name.md', status: 'renamed'},
+	{path: 'archive/moved-out.md', previousPath: 'docs/moved-out.md', status: 'renamed'},
+	{path: 'docs/moved-in.md', previousPath: 'notes/moved-in.md', status: 'renamed'},
+	{path: 'src/index.ts', status: 'modified'},
+	{path: 'src/removed.ts', status: 'removed'},
+];
+
+test('summarizeChanges limits the comparison to the directory', () => {
+	expect(summarizeChanges(changes, 'docs')).toEqual({
+		changedPaths: new Set(['docs/added.md', 'docs/guide.md', 'docs/new-name.md', 'docs/moved-in.md']),
+		deleted: ['moved-out.md', 'old.md'],
+		renamed: [{from: 'name.md', to: 'new-name.md'}],
+	});
+});
+
+test('summarizeChanges keeps every change at the root', () => {
+	const summary = summarizeChanges(changes, '');
+	expect(summary.changedPaths.size).toBe(6);
+	expect(summary.deleted).toEqual(['docs/old.md', 'src/removed.ts']);
+	expect(summary.renamed).toHaveLength(3);
+});
+
+test('createChangeNotes', () => {
+	expect(createChangeNotes(summarizeChanges(changes, 'docs'))).toEqual([
+		{path: 'DELETED.txt', content: 'moved-out.md\nold.md\n'},
+		{path: 'RENAMED.txt', content: 'name.md -> new-name.md\n'},
+	]);
+	expect(createChangeNotes(summarizeChanges(changes, 'src'))).toEqual([
+		{path: 'DELETED.txt', content: 'removed.ts\n'},
+	]);
+});
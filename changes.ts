@@ -0,0 +1,57 @@
+import {type ChangedFile} from './provider.js';
+
+export type ChangeSummary = {
+	/** Added, modified and renamed paths, from the repository root */
+	changedPaths: Set<string>;
+	/** Removed paths, relative to the directory */
+	deleted: string[];
+	/** Renames within the directory, relative to it */
+	renamed: Array<{from: string; to: string}>;
+};
+
+/** Limits a comparison to one directory. Files renamed out of it count as deleted, and files renamed into it as added */
+export function summarizeChanges(changes: ChangedFile[], directory: string): ChangeSummary {
+	const prefix = directory ? `${directory}/` : '';
+	const isInside = (path: string) => path.startsWith(prefix);
+	const getRelativePath = (path: string) => path.slice(prefix.length);
+
+	const summary: ChangeSummary = {changedPaths: new Set(), deleted: [], renamed: []};
+	for (const change of changes) {
+		if (change.status === 'removed') {
+			if (isInside(change.path)) {
+				summary.deleted.push(getRelativePath(change.path));
+			}
+
+			continue;
+		}
+
+		if (change.previousPath && isInside(change.previousPath)) {
+			if (isInside(change.path)) {
+				summary.renamed.push({from: getRelativePath(change.previousPath), to: getRelativePath(change.path)});
+			} else {
+				summary.deleted.push(getRelativePath(change.previousPath));
+			}
+		}
+
+		if (isInside(change.path)) {
+			summary.changedPaths.add(change.path);
+		}
+	}
+
+	summary.deleted.sort();
+	return summary;
+}
+
+/** The text files that describe what a patch archive doesn't contain */
+export function createChangeNotes({deleted, renamed}: ChangeSummary): Array<{path: string; content: string}> {
+	const notes: Array<{path: string; content: string}> = [];
+	if (deleted.length > 0) {
+		notes.push({path: 'DELETED.txt', content: deleted.join('\n') + '\n'});
+	}
+
+	if (renamed.length > 0) {
+		notes.push({path: 'RENAMED.txt', content: renamed.map(({from, to}) => `${from} -> ${to}`).join('\n') + '\n'});
+	}
+
+	return notes;
+}
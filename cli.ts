@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+import process from 'node:process';
+import runCommandLine from './command-line.js';
+
+const controller = new AbortController();
+process.once('SIGINT', () => {
+	controller.abort();
+});
+
+process.exitCode = await runCommandLine(process.argv.slice(2), {signal: controller.signal});
@@ -0,0 +1,152 @@
+import {
+	mkdir,
+	mkdtemp,
+	readFile,
+	readdir,
+	readlink,
+	rm,
+	stat,
+	symlink,
+} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import path from 'node:path';
+import {setTimeout as delay} from 'node:timers/promises';
+import JSZip from 'jszip';
+import {afterEach, beforeEach, expect, test, vi} from 'vitest';
+import runCommandLine, {exitCodes, parseArguments} from './command-line.js';
+import gitlab from './fixtures/gitlab.js';
+import serveFixtures, {type Fixture} from './fixtures/serve-fixtures.js';
+import {createNodeFileSink, createNodeFolderWriter} from './node-writers.js';
+
+const project = 'https://gitlab.com/api/v4/projects/gitlab-org%2Fcli';
+const commit = '3d3bd0ba4ee0fde06fb1a5ee8b4a8b8e5c36c5f0';
+
+// Downloads are pinned to the commit, so the listings recorded for `main` are served for it too
+const fixtures: Record<string, Fixture> = {
+	...gitlab,
+	...Object.fromEntries(Object.entries(gitlab).map(([url, fixture]) => [url.replace('ref=main', `ref=${commit}`), fixture])),
+	[`${project}/repository/files/docs%2Fsource%2Fgen.sh/raw?ref=${commit}&lfs=true`]: {
+		body: '#!/bin/sh\n',
+	},
+};
+
+let directory: string;
+
+function createOutput() {
+	let text = '';
+	return {
+		write(chunk: string) {
+			text += chunk;
+		},
+		get text() {
+			return text;
+		},
+	};
+}
+
+beforeEach(async () => {
+	directory = await mkdtemp(path.join(tmpdir(), 'directory-downloader-'));
+});
+
+afterEach(async () => {
+	vi.unstubAllGlobals();
+	await rm(directory, {recursive: true, force: true});
+});
+
+test('parseArguments', () => {
+	expect(parseArguments(['https://github.com/user/repo/tree/main/src', '-o', 'out.tgz', '-f', '*.ts', '--filter', '!*.test.ts', '-c', '5'])).toMatchObject({
+		url: 'https://github.com/user/repo/tree/main/src',
+		output: 'out.tgz',
+		format: 'tar.gz',
+		filters: ['*.ts', '!*.test.ts'],
+		concurrency: 5,
+		verify: true,
+	});
+	expect(parseArguments(['https://github.com/user/repo', '--extract-to', 'vendor', '--no-verify'])).toMatchObject({
+		extractTo: 'vendor',
+		verify: false,
+	});
+	expect(parseArguments(['https://github.com/user/repo'])).toEqual({error: 'Pass --output, --extract-to or both.'});
+	expect(parseArguments(['https://github.com/user/repo', '-o', 'out.rar'])).toEqual({error: 'The output must end with .zip, .tar, .tar.gz or .tgz.'});
+	expect(parseArguments(['https://github.com/user/repo', '-o', 'out.zip', '-c', '0'])).toEqual({error: 'The concurrency must be a number from 1 to 40.'});
+	expect(parseArguments(['https://github.com/user/repo', '-o', 'out.zip', '--submodule-depth', '0'])).toMatchObject({submoduleDepth: 0});
+	expect(parseArguments(['https://github.com/user/repo', '-o', 'out.zip', '--submodule-depth', '1.5'])).toEqual({error: 'The submodule depth must be a number from 0 to 10.'});
+	expect(parseArguments(['https://github.com/user/repo', '-o', 'out.zip', '--host-type', 'svn'])).toMatchObject({error: expect.stringContaining('github, gitlab') as string});
+	expect(parseArguments(['-o', 'out.zip'])).toEqual({error: 'Pass exactly one URL.'});
+	expect(parseArguments(['--help'])).toMatchObject({help: true});
+});
+
+test('downloads into an archive and a folder', async () => {
+	const requests = serveFixtures(fixtures);
+	vi.stubGlobal('localStorage', undefined);
+	const stderr = createOutput();
+	const output = path.join(directory, 'docs.zip');
+	const extracted = path.join(directory, 'docs');
+	await expect(runCommandLine([
+		'https://gitlab.com/gitlab-org/cli/-/tree/main/docs',
+		'-o',
+		output,
+		'--extract-to',
+		extracted,
+		'--token-env',
+		'token',
+		'--no-verify',
+		'--manifest',
+	], {stderr, env: {token: 'glpat-secret'}})).resolves.toBe(exitCodes.success);
+
+	expect(stderr.text).toContain('[2/2]');
+	expect(stderr.text).toContain('Saved 2 files');
+	expect(requests.map(request => request.headers.get('authorization'))).toEqual(requests.map(() => 'Bearer glpat-secret'));
+
+	const archive = await JSZip.loadAsync(await readFile(output));
+	expect(Object.keys(archive.files).sort()).toEqual(['MANIFEST.json', 'index.md', 'source/gen.sh']);
+
+	await expect(readdir(extracted, {recursive: true})).resolves.toEqual(expect.arrayContaining(['index.md', path.join('source', 'gen.sh')]));
+	await expect(readFile(path.join(extracted, 'index.md'), 'utf8')).resolves.toBe('# GitLab CLI\n');
+	const {mode} = await stat(path.join(extracted, 'source', 'gen.sh'));
+	expect(mode & 0o777).toBe(0o755); // eslint-disable-line no-bitwise -- File permissions
+});
+
+test('exit codes', async () => {
+	serveFixtures(fixtures);
+	const output = path.join(directory, 'docs.zip');
+	const options = {stderr: createOutput()};
+	await expect(runCommandLine(['https://gitlab.com/gitlab-org/cli/-/tree/main/docs', '-o', output, '-f', '*.rs'], options)).resolves.toBe(exitCodes.noFiles);
+	await expect(runCommandLine(['https://gitlab.com/gitlab-org/missing/-/tree/main', '-o', output], options)).resolves.toBe(exitCodes.notFound);
+	await expect(runCommandLine(['https://svn.example.com/repo', '-o', output], options)).resolves.toBe(exitCodes.notFound);
+	await expect(runCommandLine(['https://gitlab.com/gitlab-org/cli', '-o', output, '--token-env', 'MISSING'], {...options, env: {}})).resolves.toBe(exitCodes.usage);
+	await expect(readdir(directory)).resolves.toEqual([]);
+});
+
+test('reports an output path that cannot be written', async () => {
+	serveFixtures(fixtures);
+	const stderr = createOutput();
+	const output = path.join(directory, 'missing', 'docs.zip');
+	await expect(runCommandLine(['https://gitlab.com/gitlab-org/cli/-/tree/main/docs', '-o', output, '--no-verify'], {stderr})).resolves.toBe(exitCodes.failure);
+	expect(stderr.text).toContain('ENOENT');
+
+	// The listing can take a while, the sink must not reject unhandled before the first chunk
+	const sink = createNodeFileSink(output);
+	await delay(50);
+	await expect(sink.write(new Uint8Array([1]))).rejects.toThrow('ENOENT');
+});
+
+test('keeps the extracted files inside the folder', async () => {
+	const extracted = path.join(directory, 'vendor');
+	const outside = path.join(directory, 'outside');
+	await mkdir(outside);
+	const writer = createNodeFolderWriter(extracted);
+
+	await writer.addFile('bin/run.sh', new Blob(['#!/bin/sh\n']), {mode: '100755'});
+	await writer.addFile('bin/latest', new Blob(['run.sh']), {mode: '120000'});
+	await expect(readlink(path.join(extracted, 'bin', 'latest'))).resolves.toBe('run.sh');
+	await expect(writer.addFile('bin/escape', new Blob(['../../outside']), {mode: '120000'})).rejects.toThrow('Refusing to create a symlink');
+	await expect(writer.addFile('absolute', new Blob([outside]), {mode: '120000'})).rejects.toThrow('Refusing to create a symlink');
+
+	// Like a symlink named `Evil` followed by `evil/x` on a case-insensitive filesystem
+	await symlink(outside, path.join(extracted, 'evil'));
+	await expect(writer.addFile('evil/x', new Blob(['x']))).rejects.toThrow('Refusing to write through the symlink');
+	await expect(writer.addFile('evil/sub/x', new Blob(['x']))).rejects.toThrow('Refusing to write through the symlink');
+	await expect(writer.addFile('../outside/x', new Blob(['x']))).rejects.toThrow('Refusing to write outside');
+	await expect(readdir(outside)).resolves.toEqual([]);
+});
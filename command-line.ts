@@ -0,0 +1,460 @@
+import process from 'node:process';
+import {parseArgs} from 'node:util';
+import {type ArchiveFormat, type ArchiveWriter, createSinkArchiveWriter} from './archive.js';
+import {createChangeNotes, summarizeChanges} from './changes.js';
+import {downloadFile} from './download.js';
+import {addGeneratedFiles, downloadFiles, getRelativePath} from './download-files.js';
+import parseErrorMessage from './error-messages.js';
+import {
+	type ProviderType,
+	findHostConfig,
+	getHostConfigs,
+	normalizeHostname,
+	providerTypes,
+	saveHostConfigs,
+} from './hosts.js';
+import {manifestFilename} from './manifest.js';
+import {createNodeFileSink, createNodeFolderWriter} from './node-writers.js';
+import {filterFiles, parseFilter} from './path-filter.js';
+import {type JobAttachment} from './download-jobs.js';
+import {type Provider} from './provider.js';
+import {getProvider} from './providers.js';
+import {onRateLimitPause} from './rate-limit.js';
+import getRepositoryInfo from './repository-info.js';
+import {type SubmoduleFile, expandSubmodules, getFileSource} from './submodules.js';
+import {formatBytes, isAbortError} from './utilities.js';
+
+export const exitCodes = {
+	success: 0,
+	/** Unexpected errors, like a lost connection or an invalid token */
+	failure: 1,
+	usage: 2,
+	/** The host, repository or reference could not be resolved */
+	notFound: 3,
+	/** Some files could not be downloaded, the others were saved */
+	incomplete: 4,
+	/** Nothing was left to download after the filter */
+	noFiles: 5,
+	canceled: 130,
+} as const;
+
+export const usage = `Usage: directory-downloader <url> [options]
+
+Downloads a directory, file or whole repository from GitHub, GitLab, Bitbucket or Gitea.
+
+Options:
+  -o, --output <file>       Write an archive; .zip, .tar, .tar.gz or .tgz
+  -x, --extract-to <dir>    Write the files into a directory
+  -f, --filter <rules>      Include/exclude rules, like "src/**/*.ts, !**/__tests__/**"; repeatable
+      --case-sensitive      Match the filter rules case-sensitively
+  -c, --concurrency <n>     Parallel downloads, 1 to 40 (default: 20)
+      --submodule-depth <n> Follow nested submodules this deep; 0 skips them (default: 3)
+      --token-env <name>    Read the token for the host from this environment variable
+      --host-type <type>    Register the URL's host as a self-hosted ${Object.keys(providerTypes).join(', ')} instance
+      --manifest            Add a ${manifestFilename}
+      --no-verify           Skip checking files against their git blob SHA
+  -q, --quiet               Only report errors
+  -h, --help                Show this help
+
+Exit codes: 0 done, 1 error, 2 bad usage, 3 not found, 4 some files failed, 5 no files matched, 130 canceled
+`;
+
+export type CommandLineOptions = {
+	url: string;
+	output?: string;
+	format: Exclude<ArchiveFormat, 'folder'>;
+	extractTo?: string;
+	filters: string[];
+	caseSensitive: boolean;
+	concurrency: number;
+	submoduleDepth: number;
+	tokenEnv?: string;
+	hostType?: ProviderType;
+	manifest: boolean;
+	verify: boolean;
+	quiet: boolean;
+	help: boolean;
+};
+
+type Output = {
+	isTTY?: boolean;
+	write(text: string): unknown;
+};
+
+type RepositoryInfo = Exclude<Awaited<ReturnType<typeof getRepositoryInfo>>, {error: string}>;
+
+const outputFormats: Array<[extension: string, format: CommandLineOptions['format']]> = [
+	['.tar.gz', 'tar.gz'],
+	['.tgz', 'tar.gz'],
+	['.tar', 'tar'],
+	['.zip', 'zip'],
+];
+
+function getOutputFormat(filename: string): CommandLineOptions['format'] | undefined {
+	return outputFormats.find(([extension]) => filename.toLowerCase().endsWith(extension))?.[1];
+}
+
+function getErrorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+function isProviderType(value: string): value is ProviderType {
+	return Object.hasOwn(providerTypes, value);
+}
+
+/** Returns `false` when the value isn't a whole number in the range */
+function parseInteger(value: string | undefined, min: number, max: number): number | false | undefined {
+	if (value === undefined) {
+		return;
+	}
+
+	const number = Number(value);
+	return Number.isInteger(number) && number >= min && number <= max ? number : false;
+}
+
+export function parseArguments(argv: string[]): CommandLineOptions | {error: string} {
+	let parsed;
+	try {
+		parsed = parseArgs({
+			args: argv,
+			allowPositionals: true,
+			options: {
+				output: {type: 'string', short: 'o'},
+				'extract-to': {type: 'string', short: 'x'},
+				filter: {type: 'string', short: 'f', multiple: true},
+				'case-sensitive': {type: 'boolean'},
+				concurrency: {type: 'string', short: 'c'},
+				'submodule-depth': {type: 'string'},
+				'token-env': {type: 'string'},
+				'host-type': {type: 'string'},
+				manifest: {type: 'boolean'},
+				'no-verify': {type: 'boolean'},
+				quiet: {type: 'boolean', short: 'q'},
+				help: {type: 'boolean', short: 'h'},
+			},
+		});
+	} catch (error) {
+		return {error: getErrorMessage(error)};
+	}
+
+	const {values, positionals} = parsed;
+	const options: CommandLineOptions = {
+		url: positionals[0] ?? '',
+		output: values.output,
+		format: 'zip',
+		extractTo: values['extract-to'],
+		filters: values.filter ?? [],
+		caseSensitive: Boolean(values['case-sensitive']),
+		concurrency: 20,
+		submoduleDepth: 3,
+		tokenEnv: values['token-env'],
+		manifest: Boolean(values.manifest),
+		verify: !values['no-verify'],
+		quiet: Boolean(values.quiet),
+		help: Boolean(values.help),
+	};
+
+	if (options.help) {
+		return options;
+	}
+
+	if (positionals.length !== 1) {
+		return {error: 'Pass exactly one URL.'};
+	}
+
+	if (!URL.canParse(options.url)) {
+		return {error: `Not a URL: ${options.url}`};
+	}
+
+	if (!options.output && !options.extractTo) {
+		return {error: 'Pass --output, --extract-to or both.'};
+	}
+
+	if (options.output) {
+		const format = getOutputFormat(options.output);
+		if (!format) {
+			return {error: 'The output must end with .zip, .tar, .tar.gz or .tgz.'};
+		}
+
+		options.format = format;
+	}
+
+	const concurrency = parseInteger(values.concurrency, 1, 40);
+	if (concurrency === false) {
+		return {error: 'The concurrency must be a number from 1 to 40.'};
+	}
+
+	const submoduleDepth = parseInteger(values['submodule-depth'], 0, 10);
+	if (submoduleDepth === false) {
+		return {error: 'The submodule depth must be a number from 0 to 10.'};
+	}
+
+	options.concurrency = concurrency ?? options.concurrency;
+	options.submoduleDepth = submoduleDepth ?? options.submoduleDepth;
+
+	const hostType = values['host-type'];
+	if (hostType !== undefined) {
+		if (!isProviderType(hostType)) {
+			return {error: `The host type must be one of: ${Object.keys(providerTypes).join(', ')}.`};
+		}
+
+		options.hostType = hostType;
+	}
+
+	return options;
+}
+
+/** Node has no `localStorage`, where hosts and tokens are read from, so the CLI keeps them in memory */
+function createMemoryStorage(): Storage {
+	const items = new Map<string, string>();
+	return {
+		get length() {
+			return items.size;
+		},
+		clear() {
+			items.clear();
+		},
+		getItem: key => items.get(key) ?? null,
+		key: index => [...items.keys()][index] ?? null,
+		removeItem(key) {
+			items.delete(key);
+		},
+		setItem(key, value) {
+			items.set(key, String(value));
+		},
+	};
+}
+
+/** Registers the host and token for the URL, or returns why it can't */
+function configureHost(url: URL, options: CommandLineOptions, env: Record<string, string | undefined>): string | void {
+	if (!options.tokenEnv && !options.hostType) {
+		return;
+	}
+
+	const token = options.tokenEnv ? env[options.tokenEnv] : undefined;
+	if (options.tokenEnv && !token) {
+		return `The ${options.tokenEnv} environment variable is empty.`;
+	}
+
+	globalThis.localStorage ??= createMemoryStorage();
+
+	const host = findHostConfig(url);
+	if (!options.hostType && host?.hostname === 'github.com') {
+		localStorage.setItem('token', token!);
+		return;
+	}
+
+	const type = options.hostType ?? host?.type;
+	if (!type) {
+		return `${url.hostname} is not a known host. Pass --host-type to register it.`;
+	}
+
+	const hostname = options.hostType ? normalizeHostname(url.hostname) : host!.hostname;
+	saveHostConfigs([
+		...getHostConfigs().filter(config => config.hostname !== hostname),
+		{...host, hostname, type, token},
+	]);
+}
+
+/** Lists the files to download, limited to the changes for compare URLs, and applies the filter */
+async function selectFiles(info: RepositoryInfo, {provider, options, signal, log}: {
+	provider: Provider;
+	options: CommandLineOptions;
+	signal: AbortSignal;
+	log: (message: string) => void;
+}): Promise<{files: SubmoduleFile[]; attachments: JobAttachment[]; filters: string[]}> {
+	let files: SubmoduleFile[] = 'filePath' in info
+		? [{path: info.filePath}]
+		: await provider.listFiles(info, {reference: info.commit, directory: info.directory, signal});
+
+	let attachments: JobAttachment[] = [];
+	if ('baseCommit' in info && info.baseCommit) {
+		if (!provider.compare) {
+			throw new Error(`${provider.name} does not support comparing references.`);
+		}
+
+		log(`Comparing ${info.baseReference ?? info.baseCommit}...${info.gitReference}`);
+		const summary = summarizeChanges(await provider.compare(info, {base: info.baseCommit, head: info.commit, signal}), info.directory);
+		files = files.filter(file => summary.changedPaths.has(file.path));
+		attachments = createChangeNotes(summary);
+	}
+
+	const expansion = await expandSubmodules(files, {
+		provider,
+		repository: info,
+		commit: info.commit,
+		isPrivate: info.isPrivate,
+		depth: options.submoduleDepth,
+		signal,
+	});
+	files = expansion.files;
+	for (const {path, url, commit, skipped} of expansion.submodules) {
+		log(skipped ? `Skipped submodule ${path}: ${skipped}` : `Submodule ${path}: ${url!} at ${commit}`);
+	}
+
+	const rules = parseFilter(options.filters.join('\n'), {caseSensitive: options.caseSensitive});
+	return {
+		files: filterFiles(files, rules, info.directory).files,
+		attachments,
+		filters: rules.map(rule => rule.source),
+	};
+}
+
+function getComparisonBase(info: RepositoryInfo): {reference: string; commit: string} | undefined {
+	return 'baseCommit' in info && info.baseReference && info.baseCommit
+		? {reference: info.baseReference, commit: info.baseCommit}
+		: undefined;
+}
+
+function createWriters(options: CommandLineOptions): ArchiveWriter[] {
+	const writers: ArchiveWriter[] = [];
+	if (options.output) {
+		writers.push(createSinkArchiveWriter(options.format, createNodeFileSink(options.output)));
+	}
+
+	if (options.extractTo) {
+		writers.push(createNodeFolderWriter(options.extractTo));
+	}
+
+	return writers;
+}
+
+export default async function runCommandLine(argv: string[], {
+	signal = new AbortController().signal,
+	stdout = process.stdout,
+	stderr = process.stderr,
+	env = process.env,
+}: {
+	signal?: AbortSignal;
+	stdout?: Output;
+	stderr?: Output;
+	env?: Record<string, string | undefined>;
+} = {}): Promise<number> {
+	const options = parseArguments(argv);
+	if ('error' in options) {
+		stderr.write(`${options.error}\n\n${usage}`);
+		return exitCodes.usage;
+	}
+
+	if (options.help) {
+		stdout.write(usage);
+		return exitCodes.success;
+	}
+
+	// Terminals get a single progress line that updates in place, logs get one line per file
+	const clearLine = stderr.isTTY ? '\r\u001B[K' : '';
+	const log = (message: string) => {
+		if (!options.quiet) {
+			stderr.write(`${clearLine}${message}\n`);
+		}
+	};
+
+	const url = new URL(options.url);
+	const hostError = configureHost(url, options, env);
+	if (hostError) {
+		stderr.write(`${hostError}\n`);
+		return exitCodes.usage;
+	}
+
+	const provider = getProvider(url);
+	if (!provider) {
+		stderr.write(`${url.hostname} is not supported. Pass --host-type for self-hosted instances.\n`);
+		return exitCodes.notFound;
+	}
+
+	let writers: ArchiveWriter[] = [];
+	const stopListening = onRateLimitPause(({hostname, resumeAt}) => {
+		log(`${hostname} rate limit reached, waiting until ${new Date(resumeAt).toLocaleTimeString()}`);
+	});
+	try {
+		log(`Resolving ${options.url}`);
+		const info = await getRepositoryInfo(options.url);
+		if ('error' in info) {
+			stderr.write(`${parseErrorMessage(info.error)}\n`);
+			return exitCodes.notFound;
+		}
+
+		log(`${info.user}/${info.repository} at ${info.commit} on ${provider.name}`);
+		const {files, attachments, filters} = await selectFiles(info, {provider, options, signal, log});
+		if (files.length === 0 && attachments.length === 0) {
+			stderr.write('No files matched.\n');
+			return exitCodes.noFiles;
+		}
+
+		writers = createWriters(options);
+		const output = {
+			async addFile(path: string, blob: Blob, {mode}: {mode?: string} = {}) {
+				await Promise.all(writers.map(async writer => writer.addFile(path, blob, {mode})));
+			},
+		};
+
+		const sizes = new Map<string, number>();
+		log(`Downloading ${files.length} files with concurrency ${options.concurrency}`);
+		const failed = await downloadFiles(files, {
+			async download(file) {
+				const blob = await downloadFile({
+					...getFileSource(file, {
+						user: info.user,
+						repository: info.repository,
+						reference: info.commit,
+						isPrivate: info.isPrivate,
+						provider,
+					}),
+					signal,
+					verify: options.verify,
+				});
+				await output.addFile(getRelativePath(file.path, info.directory), blob, {mode: file.mode});
+				sizes.set(file.path, blob.size);
+				if (!options.quiet) {
+					stderr.write(`${clearLine}[${sizes.size}/${files.length}] ${file.path}${clearLine ? '' : '\n'}`);
+				}
+			},
+			concurrency: options.concurrency,
+			signal,
+			onFailure(file, error) {
+				log(`Failed: ${file.path} (${getErrorMessage(error)})`);
+			},
+			onRetry(retried) {
+				log(`Retrying ${retried.length} failed files`);
+			},
+		});
+
+		await addGeneratedFiles(output, {
+			url: options.url,
+			user: info.user,
+			repository: info.repository,
+			gitReference: info.gitReference,
+			commit: info.commit,
+			base: getComparisonBase(info),
+			directory: info.directory,
+			filters,
+			files,
+			attachments,
+			manifest: options.manifest,
+			failedPaths: failed.map(file => file.path),
+			sizes,
+			log,
+		});
+
+		await Promise.all(writers.map(async writer => writer.close()));
+		const total = [...sizes.values()].reduce((sum, size) => sum + size, 0);
+		log(`Saved ${sizes.size} files, ${formatBytes(total)}, to ${[options.output, options.extractTo].filter(Boolean).join(' and ')}`);
+		if (failed.length > 0) {
+			stderr.write(`${failed.length} files could not be downloaded:\n${failed.map(file => `  ${file.path}\n`).join('')}`);
+			return exitCodes.incomplete;
+		}
+
+		return exitCodes.success;
+	} catch (error) {
+		await Promise.allSettled(writers.map(async writer => writer.abort()));
+		if (signal.aborted || isAbortError(error)) {
+			stderr.write(`${clearLine}Canceled.\n`);
+			return exitCodes.canceled;
+		}
+
+		stderr.write(`${clearLine}${getErrorMessage(error)}\n`);
+		return exitCodes.failure;
+	} finally {
+		stopListening();
+	}
+}
@@ -0,0 +1,96 @@
+import {expect, test} from 'vitest';
+import {createConcurrencyLimiter} from './concurrency-limiter.js';
+
+function createClock() {
+	let time = 0;
+	return {
+		now: () => time,
+		advance(milliseconds: number) {
+			time += milliseconds;
+		},
+	};
+}
+
+/** A task that takes `latency` on the fake clock and returns `size` bytes */
+function createTask(clock: ReturnType<typeof createClock>, latency: number, size = 1000) {
+	return async () => {
+		clock.advance(latency);
+		return new Blob([new Uint8Array(size)]);
+	};
+}
+
+test('a fixed limiter never runs more tasks than allowed', async () => {
+	const limiter = createConcurrencyLimiter({initial: 2});
+	let running = 0;
+	let peak = 0;
+	await Promise.all(Array.from({length: 10}, async () => limiter.run(async () => {
+		running++;
+		peak = Math.max(peak, running);
+		await new Promise(resolve => {
+			setTimeout(resolve, 1);
+		});
+		running--;
+	})));
+	expect(peak).toBe(2);
+	expect(limiter.concurrency).toBe(2);
+});
+
+test('grows by one after every clean window', async () => {
+	const clock = createClock();
+	const limiter = createConcurrencyLimiter({initial: 4, adaptive: true, now: clock.now});
+	const levels: number[] = [];
+	limiter.onChange(concurrency => levels.push(concurrency));
+	for (let index = 0; index < 13; index++) {
+		// eslint-disable-next-line no-await-in-loop -- The clock is shared
+		await limiter.run(createTask(clock, 50));
+	}
+
+	expect(levels).toEqual([5, 6]);
+});
+
+test('shrinks on errors and throttling, once per window', async () => {
+	const clock = createClock();
+	const limiter = createConcurrencyLimiter({initial: 20, adaptive: true, now: clock.now});
+	limiter.recordError();
+	limiter.recordError();
+	expect(limiter.concurrency).toBe(15);
+
+	await expect(limiter.run(async () => {
+		throw new Error('HTTP 500');
+	})).rejects.toThrow('HTTP 500');
+	for (let index = 0; index < 14; index++) {
+		// eslint-disable-next-line no-await-in-loop -- The clock is shared
+		await limiter.run(createTask(clock, 50));
+	}
+
+	// The window with errors ended without growing
+	expect(limiter.concurrency).toBe(15);
+	limiter.recordThrottle();
+	expect(limiter.concurrency).toBe(7);
+	limiter.recordThrottle();
+	expect(limiter.concurrency).toBe(7);
+});
+
+test('shrinks when latency rises without more throughput', async () => {
+	const clock = createClock();
+	const limiter = createConcurrencyLimiter({initial: 4, adaptive: true, now: clock.now});
+	for (let index = 0; index < 4; index++) {
+		// eslint-disable-next-line no-await-in-loop -- The clock is shared
+		await limiter.run(createTask(clock, 50));
+	}
+
+	expect(limiter.concurrency).toBe(5);
+	for (let index = 0; index < 5; index++) {
+		// eslint-disable-next-line no-await-in-loop -- The clock is shared
+		await limiter.run(createTask(clock, 200));
+	}
+
+	expect(limiter.concurrency).toBe(3);
+});
+
+test('stays within the bounds', async () => {
+	const limiter = createConcurrencyLimiter({initial: 2, min: 2, max: 3, adaptive: true});
+	limiter.recordThrottle();
+	expect(limiter.concurrency).toBe(2);
+	expect(createConcurrencyLimiter({initial: 99}).concurrency).toBe(40);
+});
@@ -0,0 +1,164 @@
+export type ConcurrencyLimiter = {
+	/** How many tasks may run at once right now */
+	readonly concurrency: number;
+	/** Waits for a free slot, then runs the task. Rejections count as errors */
+	run<T>(task: () => Promise<T>): Promise<T>;
+	/** Records a failed attempt that is retried inside a task, like a 5xx response or a dropped connection */
+	recordError(): void;
+	/** Records a 429 response or a rate limit pause */
+	recordThrottle(): void;
+	/** Calls `listener` whenever the concurrency changes. Returns a function that stops it */
+	onChange(listener: (concurrency: number) => void): () => void;
+};
+
+export type ConcurrencyLimiterOptions = {
+	initial: number;
+	min?: number;
+	max?: number;
+	/** Adjusts the concurrency from what it observes, otherwise it stays at `initial` */
+	adaptive?: boolean;
+	now?: () => number;
+};
+
+type Window = {
+	startedAt: number;
+	settled: number;
+	completed: number;
+	bytes: number;
+	latency: number;
+	errors: number;
+	decreased: boolean;
+};
+
+/**
+ * Limits how many tasks run at once. In adaptive mode it works like TCP congestion control (AIMD): the limit grows by one after every clean window of completed tasks and shrinks by a factor on errors, throttling or rising latency, at most once per window so that the tasks that were already running don't make it collapse.
+ */
+export function createConcurrencyLimiter({
+	initial,
+	min = 1,
+	max = 40,
+	adaptive = false,
+	now = () => performance.now(),
+}: ConcurrencyLimiterOptions): ConcurrencyLimiter {
+	const clamp = (value: number) => Math.max(min, Math.min(max, Math.round(value)));
+	let concurrency = clamp(initial);
+	let active = 0;
+	const queue: Array<() => void> = [];
+	const listeners = new Set<(concurrency: number) => void>();
+
+	const createWindow = (): Window => ({
+		startedAt: now(),
+		settled: 0,
+		completed: 0,
+		bytes: 0,
+		latency: 0,
+		errors: 0,
+		decreased: false,
+	});
+
+	let window = createWindow();
+	let previousThroughput = 0;
+	let bestLatency = Number.POSITIVE_INFINITY;
+
+	const startQueuedTasks = () => {
+		while (active < concurrency && queue.length > 0) {
+			active++;
+			queue.shift()!();
+		}
+	};
+
+	const setConcurrency = (value: number) => {
+		const next = clamp(value);
+		if (next === concurrency) {
+			return;
+		}
+
+		concurrency = next;
+		for (const listener of listeners) {
+			listener(concurrency);
+		}
+
+		startQueuedTasks();
+	};
+
+	const decrease = (factor: number) => {
+		if (!adaptive || window.decreased) {
+			return;
+		}
+
+		window.decreased = true;
+		setConcurrency(Math.floor(concurrency * factor));
+	};
+
+	const endWindow = () => {
+		const throughput = window.bytes / Math.max(now() - window.startedAt, 1);
+		const latency = window.completed > 0 ? window.latency / window.completed : 0;
+		if (window.completed > 0) {
+			bestLatency = Math.min(bestLatency, latency);
+		}
+
+		if (window.errors === 0 && !window.decreased) {
+			// Slower responses without more data means the connection is saturated
+			if (latency > bestLatency * 2 && throughput <= previousThroughput) {
+				decrease(0.75);
+			} else {
+				setConcurrency(concurrency + 1);
+			}
+		}
+
+		previousThroughput = throughput;
+		window = createWindow();
+	};
+
+	const settle = () => {
+		active--;
+		window.settled++;
+		if (adaptive && window.settled >= Math.max(concurrency, 4)) {
+			endWindow();
+		}
+
+		startQueuedTasks();
+	};
+
+	const recordError = () => {
+		window.errors++;
+		decrease(0.75);
+	};
+
+	return {
+		get concurrency() {
+			return concurrency;
+		},
+		async run(task) {
+			await new Promise<void>(resolve => {
+				queue.push(resolve);
+				startQueuedTasks();
+			});
+
+			const startedAt = now();
+			try {
+				const result = await task();
+				window.completed++;
+				window.latency += now() - startedAt;
+				window.bytes += result instanceof Blob ? result.size : 0;
+				return result;
+			} catch (error) {
+				recordError();
+				throw error;
+			} finally {
+				settle();
+			}
+		},
+		recordError,
+		recordThrottle() {
+			window.errors++;
+			decrease(0.5);
+		},
+		onChange(listener) {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+	};
+}
@@ -0,0 +1,69 @@
+const databaseName = 'directory-downloader';
+const databaseVersion = 2;
+
+export const jobStore = 'jobs';
+
+// Keyed by `[jobId, path]` so that a job's blobs can be read and deleted as a range
+export const blobStore = 'job-blobs';
+
+export const queueStore = 'queue';
+
+let databasePromise: Promise<IDBDatabase> | undefined;
+
+export async function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.addEventListener('success', () => {
+			resolve(request.result);
+		});
+		request.addEventListener('error', () => {
+			reject(request.error ?? new Error('IndexedDB request failed'));
+		});
+	});
+}
+
+export async function transactionDone(transaction: IDBTransaction): Promise<void> {
+	return new Promise((resolve, reject) => {
+		transaction.addEventListener('complete', () => {
+			resolve();
+		});
+		transaction.addEventListener('error', () => {
+			reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+		});
+		transaction.addEventListener('abort', () => {
+			reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+		});
+	});
+}
+
+export async function openDatabase(): Promise<IDBDatabase> {
+	if (!globalThis.indexedDB) {
+		throw new Error('IndexedDB is not available');
+	}
+
+	databasePromise ??= new Promise((resolve, reject) => {
+		const request = indexedDB.open(databaseName, databaseVersion);
+		request.addEventListener('upgradeneeded', () => {
+			const database = request.result;
+			if (!database.objectStoreNames.contains(jobStore)) {
+				database.createObjectStore(jobStore, {keyPath: 'id'});
+			}
+
+			if (!database.objectStoreNames.contains(blobStore)) {
+				database.createObjectStore(blobStore);
+			}
+
+			if (!database.objectStoreNames.contains(queueStore)) {
+				database.createObjectStore(queueStore, {keyPath: 'id'});
+			}
+		});
+		request.addEventListener('success', () => {
+			resolve(request.result);
+		});
+		request.addEventListener('error', () => {
+			databasePromise = undefined;
+			reject(request.error ?? new Error('Could not open IndexedDB'));
+		});
+	});
+
+	return databasePromise;
+}
@@ -0,0 +1,68 @@
+import {expect, test} from 'vitest';
+import {addGeneratedFiles, downloadFiles, getRelativePath} from './download-files.js';
+
+test('getRelativePath', () => {
+	expect(getRelativePath('docs/sub/a.md', 'docs')).toBe('sub/a.md');
+	expect(getRelativePath('docs/a.md', '')).toBe('docs/a.md');
+});
+
+test('downloadFiles retries the failed files once', async () => {
+	const attempts = new Map<string, number>();
+	const retried: string[] = [];
+	const failed = await downloadFiles([{path: 'a'}, {path: 'flaky'}, {path: 'broken'}], {
+		async download({path}) {
+			const attempt = (attempts.get(path) ?? 0) + 1;
+			attempts.set(path, attempt);
+			if (path === 'broken' || (path === 'flaky' && attempt === 1)) {
+				throw new Error('HTTP 500');
+			}
+		},
+		concurrency: 2,
+		signal: new AbortController().signal,
+		onRetry(files) {
+			retried.push(...files.map(file => file.path));
+		},
+	});
+
+	expect(failed).toEqual([{path: 'broken'}]);
+	expect(retried.sort()).toEqual(['broken', 'flaky']);
+	expect(Object.fromEntries(attempts)).toEqual({a: 1, flaky: 2, broken: 2});
+});
+
+test('downloadFiles stops when a download is aborted', async () => {
+	const abortError = new DOMException('The download was canceled', 'AbortError');
+	await expect(downloadFiles([{path: 'a'}], {
+		async download() {
+			throw abortError;
+		},
+		concurrency: 1,
+		signal: new AbortController().signal,
+	})).rejects.toBe(abortError);
+});
+
+test('addGeneratedFiles keeps the files of the directory', async () => {
+	const added = new Map<string, Blob>();
+	const archive = {
+		async addFile(path: string, blob: Blob) {
+			added.set(path, blob);
+		},
+	};
+	const options = {
+		url: 'https://github.com/me/repo/tree/main/docs',
+		user: 'me',
+		repository: 'repo',
+		commit: 'a'.repeat(40),
+		directory: 'docs',
+		filters: [],
+		attachments: [{path: 'README.md', content: 'Read me'}, {path: 'NOTES.md', content: 'Notes'}],
+		failedPaths: [],
+		sizes: new Map([['docs/README.md', 3]]),
+	};
+
+	await addGeneratedFiles(archive, {...options, files: [{path: 'docs/README.md'}], manifest: true});
+	expect([...added.keys()]).toEqual(['NOTES.md', 'MANIFEST.json']);
+
+	added.clear();
+	await addGeneratedFiles(archive, {...options, files: [{path: 'docs/MANIFEST.json'}], manifest: true});
+	expect([...added.keys()]).toEqual(['README.md', 'NOTES.md']);
+});
@@ -0,0 +1,103 @@
+import pMap from 'p-map';
+import {type ArchiveWriter} from './archive.js';
+import {type JobAttachment} from './download-jobs.js';
+import {createManifest, manifestFilename, serializeManifest} from './manifest.js';
+import {type ProviderFile} from './provider.js';
+import {isAbortError} from './utilities.js';
+
+/** The path of a repository file inside the output, which starts at the downloaded directory */
+export function getRelativePath(path: string, directory: string): string {
+	return directory ? path.replace(`${directory}/`, '') : path;
+}
+
+/**
+ * Runs `download` for every file, then once more for the ones that failed. Resolves with the files that failed both times, and rejects as soon as one is aborted.
+ */
+export async function downloadFiles<File extends {path: string}>(files: File[], {download, concurrency, signal, onFailure, onRetry}: {
+	download: (file: File) => Promise<void>;
+	concurrency: number;
+	signal: AbortSignal;
+	/** Called for every failure, including the ones that are retried */
+	onFailure?: (file: File, error: unknown) => void;
+	/** Called before the failed files are downloaded again */
+	onRetry?: (files: File[]) => void;
+}): Promise<File[]> {
+	const downloadBatch = async (batch: File[]) => {
+		const failed: File[] = [];
+		await pMap(batch, async file => {
+			try {
+				await download(file);
+			} catch (error) {
+				if (signal.aborted || isAbortError(error)) {
+					throw error;
+				}
+
+				failed.push(file);
+				onFailure?.(file, error);
+			}
+		}, {concurrency, signal});
+		return failed;
+	};
+
+	const failed = await downloadBatch(files);
+	if (failed.length === 0) {
+		return [];
+	}
+
+	onRetry?.(failed);
+	return downloadBatch(failed);
+}
+
+/** Adds the attachments and the manifest next to the downloaded files, without replacing any of them */
+export async function addGeneratedFiles(archive: Pick<ArchiveWriter, 'addFile'>, options: {
+	url: string;
+	user: string;
+	repository: string;
+	gitReference?: string;
+	commit: string;
+	directory: string;
+	filters: string[];
+	base?: {reference: string; commit: string};
+	files: ProviderFile[];
+	attachments?: JobAttachment[];
+	manifest: boolean;
+	failedPaths: string[];
+	sizes: Map<string, number>;
+	log?: (message: string) => void;
+}): Promise<void> {
+	const log = options.log ?? (() => undefined);
+	const archivePaths = new Set(options.files.map(file => getRelativePath(file.path, options.directory)));
+	for (const attachment of options.attachments ?? []) {
+		if (archivePaths.has(attachment.path)) {
+			log(`The directory already has a ${attachment.path}, so it was not replaced.`);
+		} else {
+			// eslint-disable-next-line no-await-in-loop -- The writer handles one entry at a time anyway
+			await archive.addFile(attachment.path, new Blob([attachment.content], {type: 'text/plain'}));
+			log(`Added ${attachment.path}.`);
+		}
+	}
+
+	if (!options.manifest) {
+		return;
+	}
+
+	if (archivePaths.has(manifestFilename)) {
+		log(`The directory already has a ${manifestFilename}, so the manifest was not added.`);
+		return;
+	}
+
+	await archive.addFile(manifestFilename, serializeManifest(createManifest({
+		source: options.url,
+		owner: options.user,
+		repository: options.repository,
+		reference: options.gitReference,
+		commit: options.commit,
+		base: options.base,
+		directory: options.directory,
+		filters: options.filters,
+		files: options.files,
+		failedPaths: options.failedPaths,
+		sizes: options.sizes,
+	})));
+	log(`Added ${manifestFilename} with ${options.files.length - options.failedPaths.length} files.`);
+}
@@ -0,0 +1,91 @@
+// eslint-disable-next-line import/no-unassigned-import -- Installs `indexedDB` and `IDBKeyRange` as globals
+import 'fake-indexeddb/auto';
+import {afterEach, expect, test, vi} from 'vitest';
+import {
+	type DownloadJob,
+	createJob,
+	discardJob,
+	discardStaleJobs,
+	getJob,
+	getJobFiles,
+	listJobs,
+	saveJobFile,
+} from './download-jobs.js';
+
+const day = 24 * 60 * 60 * 1000;
+
+const job: Omit<DownloadJob, 'id' | 'createdAt' | 'updatedAt'> = {
+	url: 'https://github.com/me/repo/tree/main/docs',
+	user: 'me',
+	repository: 'repo',
+	gitReference: 'main',
+	commit: 'a'.repeat(40),
+	directory: 'docs',
+	isPrivate: false,
+	filename: 'repo-docs.zip',
+	format: 'zip',
+	files: [{path: 'docs/a.md'}, {path: 'docs/b.md'}, {path: 'docs/sub/c.md'}],
+};
+
+afterEach(async () => {
+	vi.restoreAllMocks();
+	const jobs = await listJobs();
+	await Promise.all(jobs.map(async ({id}) => discardJob(id)));
+});
+
+test('createJob stores the job with an ID and timestamps', async () => {
+	const created = await createJob(job);
+	expect(created.id).toBeTruthy();
+	expect(created.createdAt).toBe(created.updatedAt);
+	expect(await getJob(created.id)).toEqual(created);
+	expect(await getJob('missing')).toBeUndefined();
+});
+
+test('saveJobFile keeps the blobs of each job apart', async () => {
+	const first = await createJob(job);
+	const second = await createJob(job);
+	await saveJobFile(first.id, 'docs/a.md', new Blob(['a']));
+	await saveJobFile(first.id, 'docs/sub/c.md', new Blob(['ccc']));
+	await saveJobFile(second.id, 'docs/b.md', new Blob(['bb']));
+
+	const files = await getJobFiles(first.id);
+	expect([...files.keys()].sort()).toEqual(['docs/a.md', 'docs/sub/c.md']);
+	expect(await files.get('docs/sub/c.md')?.text()).toBe('ccc');
+	const otherFiles = await getJobFiles(second.id);
+	expect([...otherFiles.keys()]).toEqual(['docs/b.md']);
+});
+
+test('listJobs summarizes the progress, most recent first', async () => {
+	const first = await createJob(job);
+	const second = await createJob(job);
+	vi.spyOn(Date, 'now').mockReturnValue(second.updatedAt + 1000);
+	await saveJobFile(first.id, 'docs/a.md', new Blob(['a']));
+
+	const [latest, older] = await listJobs();
+	expect(latest).toMatchObject({id: first.id, totalFiles: 3, completedPaths: ['docs/a.md']});
+	expect(latest).not.toHaveProperty('files');
+	expect(older).toMatchObject({id: second.id, completedPaths: []});
+});
+
+test('discardJob removes the job and only its blobs', async () => {
+	const first = await createJob(job);
+	const second = await createJob(job);
+	await saveJobFile(first.id, 'docs/a.md', new Blob(['a']));
+	await saveJobFile(second.id, 'docs/a.md', new Blob(['a']));
+
+	await discardJob(first.id);
+	expect(await getJob(first.id)).toBeUndefined();
+	const [discardedFiles, keptFiles] = await Promise.all([getJobFiles(first.id), getJobFiles(second.id)]);
+	expect(discardedFiles.size).toBe(0);
+	expect(keptFiles.size).toBe(1);
+});
+
+test('discardStaleJobs removes jobs without recent progress', async () => {
+	const stale = await createJob(job);
+	vi.spyOn(Date, 'now').mockReturnValue(stale.updatedAt + (3 * day));
+	const fresh = await createJob(job);
+
+	expect(await discardStaleJobs(2 * day)).toBe(1);
+	expect(await getJob(stale.id)).toBeUndefined();
+	expect(await getJob(fresh.id)).toBeDefined();
+});
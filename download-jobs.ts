@@ -0,0 +1,140 @@
+import {type ArchiveFormat} from './archive.js';
+import {
+	blobStore,
+	jobStore,
+	openDatabase,
+	promisifyRequest,
+	transactionDone,
+} from './database.js';
+import {type SubmoduleFile} from './submodules.js';
+
+export type JobFile = SubmoduleFile;
+
+/** Text files written next to the downloaded ones, like the list of deleted files in a comparison */
+export type JobAttachment = {
+	path: string;
+	content: string;
+};
+
+export type DownloadJob = {
+	id: string;
+	url: string;
+	user: string;
+	repository: string;
+	gitReference: string;
+	/** Missing on jobs created before downloads were pinned to a commit */
+	commit?: string;
+	directory: string;
+	isPrivate: boolean;
+	/** The sources of the filter rules that were applied */
+	filters?: string[];
+	/** Set when only the files that changed since this reference are downloaded */
+	base?: {reference: string; commit: string};
+	attachments?: JobAttachment[];
+	filename: string;
+	format: ArchiveFormat;
+	/** The token profile that the queue item picked */
+	tokenProfile?: string;
+	files: JobFile[];
+	createdAt: number;
+	updatedAt: number;
+};
+
+export type DownloadJobSummary = Omit<DownloadJob, 'files'> & {
+	totalFiles: number;
+	completedPaths: string[];
+};
+
+const staleJobAge = 7 * 24 * 60 * 60 * 1000;
+
+function jobRange(jobId: string): IDBKeyRange {
+	// Arrays sort after strings, so `[jobId, []]` is past every `[jobId, path]`
+	return IDBKeyRange.bound([jobId], [jobId, []]);
+}
+
+export async function createJob(
+	job: Omit<DownloadJob, 'id' | 'createdAt' | 'updatedAt'>,
+): Promise<DownloadJob> {
+	const now = Date.now();
+	const record: DownloadJob = {
+		...job,
+		id: crypto.randomUUID(),
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	const database = await openDatabase();
+	const transaction = database.transaction(jobStore, 'readwrite');
+	transaction.objectStore(jobStore).put(record);
+	await transactionDone(transaction);
+	return record;
+}
+
+export async function getJob(jobId: string): Promise<DownloadJob | undefined> {
+	const database = await openDatabase();
+	const transaction = database.transaction(jobStore, 'readonly');
+	return promisifyRequest(transaction.objectStore(jobStore).get(jobId) as IDBRequest<DownloadJob | undefined>);
+}
+
+export async function saveJobFile(jobId: string, path: string, blob: Blob): Promise<void> {
+	const database = await openDatabase();
+	const transaction = database.transaction([jobStore, blobStore], 'readwrite');
+	transaction.objectStore(blobStore).put(blob, [jobId, path]);
+	const jobs = transaction.objectStore(jobStore);
+	const job = await promisifyRequest(jobs.get(jobId) as IDBRequest<DownloadJob | undefined>);
+	if (job) {
+		jobs.put({...job, updatedAt: Date.now()});
+	}
+
+	await transactionDone(transaction);
+}
+
+/** Returns the blobs fetched so far, keyed by their path in the repository */
+export async function getJobFiles(jobId: string): Promise<Map<string, Blob>> {
+	const database = await openDatabase();
+	const transaction = database.transaction(blobStore, 'readonly');
+	const store = transaction.objectStore(blobStore);
+	const [keys, blobs] = await Promise.all([
+		promisifyRequest(store.getAllKeys(jobRange(jobId))),
+		promisifyRequest(store.getAll(jobRange(jobId)) as IDBRequest<Blob[]>),
+	]);
+
+	const files = new Map<string, Blob>();
+	for (const [index, key] of keys.entries()) {
+		files.set((key as [string, string])[1], blobs[index]!);
+	}
+
+	return files;
+}
+
+export async function listJobs(): Promise<DownloadJobSummary[]> {
+	const database = await openDatabase();
+	const transaction = database.transaction([jobStore, blobStore], 'readonly');
+	const jobs = await promisifyRequest(transaction.objectStore(jobStore).getAll() as IDBRequest<DownloadJob[]>);
+	const summaries = await Promise.all(jobs.map(async ({files, ...job}) => {
+		const keys = await promisifyRequest(transaction.objectStore(blobStore).getAllKeys(jobRange(job.id)));
+		return {
+			...job,
+			totalFiles: files.length,
+			completedPaths: keys.map(key => (key as [string, string])[1]),
+		};
+	}));
+
+	return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function discardJob(jobId: string): Promise<void> {
+	const database = await openDatabase();
+	const transaction = database.transaction([jobStore, blobStore], 'readwrite');
+	transaction.objectStore(jobStore).delete(jobId);
+	transaction.objectStore(blobStore).delete(jobRange(jobId));
+	await transactionDone(transaction);
+}
+
+/** Discards jobs that haven't made progress in `maxAge` milliseconds and returns how many were removed */
+export async function discardStaleJobs(maxAge = staleJobAge): Promise<number> {
+	const jobs = await listJobs();
+	const staleJobs = jobs.filter(job => Date.now() - job.updatedAt > maxAge);
+	await Promise.all(staleJobs.map(async job => discardJob(job.id)));
+	return staleJobs.length;
+}
@@ -0,0 +1,84 @@
+// eslint-disable-next-line import/no-unassigned-import -- Installs `indexedDB` and `IDBKeyRange` as globals
+import 'fake-indexeddb/auto';
+import {afterEach, expect, test} from 'vitest';
+import {
+	type QueueItem,
+	createQueueItem,
+	defaultDownloadSettings,
+	listQueueItems,
+	moveQueueItem,
+	requeueItem,
+	restoreQueue,
+	saveQueueItems,
+} from './download-queue.js';
+
+const items: QueueItem[] = ['a', 'b', 'c'].map(id => ({id, url: `https://github.com/me/${id}`, status: 'pending', addedAt: 0}));
+
+const ids = (queue: QueueItem[]) => queue.map(item => item.id).join('');
+
+afterEach(async () => {
+	await saveQueueItems([]);
+});
+
+test('createQueueItem', () => {
+	const item = createQueueItem({url: 'https://github.com/me/a', format: 'tar'}, 1000);
+	expect(item).toMatchObject({url: 'https://github.com/me/a', format: 'tar', status: 'pending', addedAt: 1000});
+	expect(item.id).not.toBe(createQueueItem({url: 'https://github.com/me/a'}).id);
+});
+
+test('moveQueueItem', () => {
+	expect(ids(moveQueueItem(items, 'c', -1))).toBe('acb');
+	expect(ids(moveQueueItem(items, 'a', 1))).toBe('bac');
+	expect(ids(moveQueueItem(items, 'a', -1))).toBe('abc');
+	expect(ids(moveQueueItem(items, 'c', 5))).toBe('abc');
+	expect(ids(moveQueueItem(items, 'missing', 1))).toBe('abc');
+});
+
+test('requeueItem drops the results of the last run', () => {
+	const failed: QueueItem = {...items[0]!, status: 'failed', error: 'HTTP 500', outputFilename: 'a.zip', startedAt: 1, finishedAt: 2};
+	expect(requeueItem(failed)).toEqual(items[0]);
+	expect(requeueItem(failed, {filter: '*.md'})).toEqual({...items[0], filter: '*.md'});
+});
+
+test('queued links keep their own settings', async () => {
+	const settings = {...defaultDownloadSettings, manifest: true, verify: false, concurrency: '4'};
+	const item = createQueueItem({url: 'https://github.com/me/a', filename: 'docs.zip', settings});
+	await saveQueueItems([{...item, status: 'failed', error: 'HTTP 500'}]);
+
+	const [stored] = await listQueueItems();
+	expect(requeueItem(stored!, {filter: '*.md'})).toEqual({...item, filter: '*.md'});
+});
+
+test('restoreQueue starts interrupted downloads over', () => {
+	const restored = restoreQueue([
+		{...items[0]!, status: 'running', startedAt: 1},
+		{...items[1]!, status: 'done', outputFilename: 'b.zip', startedAt: 1, finishedAt: 2},
+	]);
+	expect(restored).toEqual([items[0], {...items[1], status: 'done', outputFilename: 'b.zip', startedAt: 1, finishedAt: 2}]);
+});
+
+test('saveQueueItems replaces the stored queue and keeps its order', async () => {
+	await saveQueueItems(items);
+	await saveQueueItems(moveQueueItem(items, 'c', -2));
+	const stored = await listQueueItems();
+	expect(ids(stored)).toBe('cab');
+	expect(stored[0]).toEqual(items[2]);
+
+	await saveQueueItems(items.slice(1));
+	await expect(listQueueItems()).resolves.toEqual(items.slice(1));
+});
+
+test('stored items keep their results until they are requeued', async () => {
+	const failed: QueueItem = {...items[0]!, status: 'failed', error: 'HTTP 500', startedAt: 1, finishedAt: 2};
+	const running: QueueItem = {...items[1]!, status: 'running', startedAt: 3};
+	await saveQueueItems([failed, running, items[2]!]);
+
+	// A reload finds the running item interrupted
+	const restored = restoreQueue(await listQueueItems());
+	expect(restored.map(item => item.status)).toEqual(['failed', 'pending', 'pending']);
+	expect(restored[0]).toEqual(failed);
+
+	await saveQueueItems(restored.map(item => item.id === 'a' ? requeueItem(item, {filter: '*.md'}) : item));
+	const [retried] = await listQueueItems();
+	expect(retried).toEqual({...items[0], filter: '*.md'});
+});
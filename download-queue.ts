@@ -0,0 +1,131 @@
+import {type ArchiveFormat} from './archive.js';
+import {
+	openDatabase,
+	promisifyRequest,
+	queueStore,
+	transactionDone,
+} from './database.js';
+
+export type QueueStatus = 'pending' | 'running' | 'done' | 'failed' | 'canceled';
+
+/** The form options that shape a download, kept with each link so it runs with the options it was queued with */
+export type DownloadSettings = {
+	/** Adds the commit SHA to the default filename */
+	includeCommit: boolean;
+	manifest: boolean;
+	verify: boolean;
+	/** `auto`, or how many files download at once */
+	concurrency: string;
+	/** Saves symlinks as copies of the files they point to */
+	materializeSymlinks: boolean;
+	/** How many levels of submodules are expanded, 0 leaves them out */
+	submoduleDepth: number;
+	/** Whether a single file is saved as it is or in the output format */
+	singleFileMode: 'file' | 'archive';
+};
+
+export const defaultDownloadSettings: DownloadSettings = {
+	includeCommit: false,
+	manifest: false,
+	verify: true,
+	concurrency: 'auto',
+	materializeSymlinks: false,
+	submoduleDepth: 3,
+	singleFileMode: 'file',
+};
+
+/** The settings a link was queued with */
+export type QueueRequest = {
+	url: string;
+	filename?: string;
+	filter?: string;
+	caseSensitive?: boolean;
+	format?: ArchiveFormat;
+	/** Set by share links that are locked to a commit */
+	commit?: string;
+	/** Only download the files that changed since this reference */
+	baseRef?: string;
+	/** Skips the size confirmation for downloads up to this size */
+	autoApproveMegabytes?: number;
+	/** The token profile to use instead of the matching one */
+	tokenProfile?: string;
+	/** Share links don't carry these, so they use the defaults */
+	settings?: DownloadSettings;
+};
+
+export type QueueItem = QueueRequest & {
+	id: string;
+	status: QueueStatus;
+	error?: string;
+	/** The name the download was saved as. Public repository archives are named by the host, so they don't have one */
+	outputFilename?: string;
+	addedAt: number;
+	startedAt?: number;
+	finishedAt?: number;
+};
+
+/** How a download ended */
+export type DownloadOutcome = Pick<QueueItem, 'error' | 'outputFilename'> & {
+	status: Exclude<QueueStatus, 'pending' | 'running'>;
+};
+
+type StoredQueueItem = QueueItem & {
+	position: number;
+};
+
+export function createQueueItem(request: QueueRequest, now = Date.now()): QueueItem {
+	return {
+		...request,
+		id: crypto.randomUUID(),
+		status: 'pending',
+		addedAt: now,
+	};
+}
+
+/** Puts the item back in line without the results of its last run, optionally with new settings */
+export function requeueItem(item: QueueItem, changes: Partial<QueueRequest> = {}): QueueItem {
+	const {error, outputFilename, startedAt, finishedAt, ...request} = item;
+	return {...request, ...changes, status: 'pending'};
+}
+
+export function canRetry(item: QueueItem): boolean {
+	return item.status === 'failed' || item.status === 'canceled';
+}
+
+/** Moves the item up (negative offset) or down the queue, stopping at either end */
+export function moveQueueItem(items: QueueItem[], id: string, offset: number): QueueItem[] {
+	const from = items.findIndex(item => item.id === id);
+	if (from === -1) {
+		return items;
+	}
+
+	const to = Math.min(Math.max(from + offset, 0), items.length - 1);
+	const next = items.filter(item => item.id !== id);
+	next.splice(to, 0, items[from]!);
+	return next;
+}
+
+/** Downloads that were running when the page closed start over */
+export function restoreQueue(items: QueueItem[]): QueueItem[] {
+	return items.map(item => item.status === 'running' ? requeueItem(item) : item);
+}
+
+export async function listQueueItems(): Promise<QueueItem[]> {
+	const database = await openDatabase();
+	const transaction = database.transaction(queueStore, 'readonly');
+	const stored = await promisifyRequest(transaction.objectStore(queueStore).getAll() as IDBRequest<StoredQueueItem[]>);
+	return stored.sort((a, b) => a.position - b.position).map(({position, ...item}) => item);
+}
+
+/** Replaces the stored queue, keeping the order of the items */
+export async function saveQueueItems(items: QueueItem[]): Promise<void> {
+	const database = await openDatabase();
+	const transaction = database.transaction(queueStore, 'readwrite');
+	const store = transaction.objectStore(queueStore);
+	store.clear();
+	for (const [position, item] of items.entries()) {
+		store.put({...item, position});
+	}
+
+	await transactionDone(transaction);
+}
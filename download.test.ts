@@ -1,6 +1,6 @@
-import {test, expect} from 'vitest';
-import {type TreeResponseObject} from 'list-github-dir-content';
+import {test, expect, vi} from 'vitest';
 import {downloadFile} from './download.js';
+import {createGithubProvider} from './github-provider.js';
 
 test('downloadFile', async () => {
 	await expect(downloadFile({
@@ -9,7 +9,7 @@ test('downloadFile', async () => {
 		reference: 'github-moji',
 		file: {
 			path: '.github/workflows/wait-for-checks.yml',
-		} as unknown as TreeResponseObject,
+		},
 		signal: new AbortController().signal,
 		isPrivate: false,
 	})).resolves.toBeInstanceOf(Blob);
@@ -23,8 +23,25 @@ test.skip('downloadFile private', async () => {
 		reference: 'github-moji',
 		file: {
 			path: '.github/workflows/wait-for-checks.yml',
-		} as unknown as TreeResponseObject,
+		},
 		signal: new AbortController().signal,
 		isPrivate: true,
 	})).resolves.toBeInstanceOf(Blob);
 });
+
+test('downloadFile reports files that keep failing verification', async () => {
+	const fetchFile = vi.fn(async () => new Blob(['hel']));
+	await expect(downloadFile({
+		user: 'user',
+		repository: 'repository',
+		reference: 'main',
+		file: {
+			path: 'hello.txt',
+			sha: 'ce013625030ba8dba906f756967f9e9ca394464a',
+		},
+		signal: new AbortController().signal,
+		isPrivate: false,
+		provider: {...createGithubProvider(), fetchFile},
+	})).rejects.toThrow('Checksum mismatch for hello.txt');
+	expect(fetchFile).toHaveBeenCalledTimes(2);
+});
@@ -1,76 +1,14 @@
-import {type ContentsReponseObject, type TreeResponseObject} from 'list-github-dir-content';
-import pRetry, {type FailedAttemptError} from 'p-retry';
-import authenticatedFetch from './authenticated-fetch.js';
-
-function escapeFilepath(path: string) {
-	return path.replaceAll('#', '%23');
-}
-
-async function maybeResponseLfs(response: Response): Promise<boolean> {
-	const length = Number(response.headers.get('content-length'));
-	if (length > 128 && length < 140) {
-		const contents = await response.clone().text();
-		return contents.startsWith('version https://git-lfs.github.com/spec/v1');
-	}
-
-	return false;
-}
-
-type FileRequest = {
-	user: string;
-	repository: string;
-	reference: string;
-	file: TreeResponseObject | ContentsReponseObject;
-	signal: AbortSignal;
-};
-
-async function fetchPublicFile({
-	user,
-	repository,
-	reference,
-	file,
-	signal,
-}: FileRequest) {
-	const response = await authenticatedFetch(
-		`https://raw.githubusercontent.com/${user}/${repository}/${reference}/${escapeFilepath(file.path)}`,
-		{signal},
-	);
-
-	if (!response.ok) {
-		throw new Error(`HTTP ${response.statusText} for ${file.path}`);
-	}
-
-	const lfsCompatibleResponse = (await maybeResponseLfs(response))
-		? await authenticatedFetch(
-			`https://media.githubusercontent.com/media/${user}/${repository}/${reference}/${escapeFilepath(file.path)}`,
-			{signal},
-		)
-		: response;
-
-	if (!response.ok) {
-		throw new Error(`HTTP ${response.statusText} for ${file.path}`);
-	}
-
-	return lfsCompatibleResponse.blob();
-}
-
-async function fetchPrivateFile({
-	file,
-	signal,
-}: FileRequest) {
-	const response = await authenticatedFetch(file.url, {signal});
-
-	if (!response.ok) {
-		throw new Error(`HTTP ${response.statusText} for ${file.path}`);
-	}
-
-	// eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-	const {content} = await response.json();
-	const decoder = await fetch(
-		`data:application/octet-stream;base64,${content}`,
-	);
-	return decoder.blob();
-}
+import pRetry, {AbortError, type FailedAttemptError} from 'p-retry';
+import {verifyGitBlob} from './git-blob.js';
+import {createGithubProvider} from './github-provider.js';
+import {
+	type LfsPointer,
+	fetchLfsObject,
+	getLfsUrl,
+	matchesLfsPointer,
+	readLfsPointer,
+} from './lfs.js';
+import {type Provider, type ProviderFile, type RequestOptions} from './provider.js';
 
 export async function downloadFile({
 	user,
@@ -79,25 +17,72 @@ export async function downloadFile({
 	file,
 	isPrivate,
 	signal,
-}: {
+	tokenProfile,
+	provider = createGithubProvider(),
+	verify = true,
+	onRetry,
+}: RequestOptions & {
 	user: string;
 	repository: string;
 	reference: string;
 	isPrivate: boolean;
-	file: TreeResponseObject | ContentsReponseObject;
+	file: ProviderFile;
 	signal: AbortSignal;
+	provider?: Provider;
+	/** Compare the content with the listed blob SHA, when there is one */
+	verify?: boolean;
+	/** Called for every failed attempt that is going to be retried */
+	onRetry?: (error: Error) => void;
 }) {
-	const fileRequest = {
-		user, repository, reference, file, signal,
+	let mismatches = 0;
+	const resolveLfsPointer = async (pointer: LfsPointer) => {
+		try {
+			return await fetchLfsObject(pointer, {
+				url: getLfsUrl(provider.hostname, {user, repository}),
+				mediaUrl: provider.getLfsMediaUrl?.({user, repository}, reference, file.path),
+				path: file.path,
+				signal,
+				tokenProfile,
+			});
+		} catch (error) {
+			// Retrying won't bring back a missing object or an exhausted quota
+			throw error instanceof Error && error.message.startsWith('LFS ') ? new AbortError(error.message) : error;
+		}
+	};
+
+	const localDownload = async () => {
+		let blob = await provider.fetchFile({user, repository}, {
+			reference, file, isPrivate, signal, tokenProfile,
+		});
+
+		// Hosts that don't resolve LFS files on their own return the pointer instead
+		const pointer = await readLfsPointer(blob);
+		if (pointer) {
+			blob = await resolveLfsPointer(pointer);
+		}
+
+		// LFS objects are always checked, since nothing else vouches for them. Repositories using SHA-256 object names can't be checked through the blob SHA
+		const isValid = pointer
+			? await matchesLfsPointer(blob, pointer)
+			: !verify || file.sha?.length !== 40 || await verifyGitBlob(blob, file.sha);
+		if (!isValid) {
+			mismatches++;
+			const message = `Checksum mismatch for ${file.path}`;
+
+			// A second mismatch means the file is corrupted rather than the response being cut short
+			throw mismatches > 1 ? new AbortError(message) : new Error(message);
+		}
+
+		return blob;
 	};
-	const localDownload = async () =>
-		isPrivate
-			? fetchPrivateFile(fileRequest)
-			: fetchPublicFile(fileRequest);
+
 	const onFailedAttempt = (error: FailedAttemptError) => {
 		console.error(
 			`Error downloading ${file.path}. Attempt ${error.attemptNumber}. ${error.retriesLeft} retries left.`,
 		);
+		if (error.retriesLeft > 0) {
+			onRetry?.(error);
+		}
 	};
 
 	return pRetry(localDownload, {onFailedAttempt});
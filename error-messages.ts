@@ -0,0 +1,37 @@
+/** Describes the `error` codes returned by `getRepositoryInfo` */
+export default function parseErrorMessage(error: string): string {
+	switch (error) {
+		case 'UNSUPPORTED_HOST': {
+			return 'That host is not supported. GitHub Enterprise Server, GitLab and Gitea instances can be added under "Self-hosted instances".';
+		}
+
+		case 'NOT_A_REPOSITORY': {
+			return 'Not a repository URL.';
+		}
+
+		case 'NOT_A_DIRECTORY': {
+			return 'That URL does not point to a directory or a file.';
+		}
+
+		case 'NOT_A_FILE': {
+			return 'That file URL is missing the file path.';
+		}
+
+		case 'REPOSITORY_NOT_FOUND': {
+			return 'Repository not found. If it is private, provide a valid token.';
+		}
+
+		case 'BRANCH_NOT_FOUND': {
+			return 'Branch or tag could not be resolved.';
+		}
+
+		case 'INVALID_COMPARISON': {
+			return 'Compare URLs need two references, like /compare/v1.0...main.';
+		}
+
+		default: {
+			return 'Unknown repository parsing error.';
+		}
+	}
+}
+
@@ -0,0 +1,87 @@
+import {useState} from 'react';
+import {type FileTreeNode} from './file-tree.js';
+
+type FileBrowserProps = {
+	tree: FileTreeNode;
+	selected: Set<string>;
+	onChange: (selected: Set<string>) => void;
+	formatSize: (bytes: number) => string;
+};
+
+type TreeItemProps = FileBrowserProps & {
+	node: FileTreeNode;
+};
+
+function TreeItem({node, selected, onChange, formatSize, tree}: TreeItemProps) {
+	// Folders render their children only once opened, so huge trees stay responsive
+	const [open, setOpen] = useState(false);
+	const selectedCount = node.filePaths.filter(path => selected.has(path)).length;
+	const toggle = (checked: boolean) => {
+		const next = new Set(selected);
+		for (const path of node.filePaths) {
+			if (checked) {
+				next.add(path);
+			} else {
+				next.delete(path);
+			}
+		}
+
+		onChange(next);
+	};
+
+	const checkbox = (
+		<input
+			type="checkbox"
+			aria-label={node.path}
+			checked={selectedCount === node.filePaths.length}
+			ref={element => {
+				if (element) {
+					element.indeterminate = selectedCount > 0 && selectedCount < node.filePaths.length;
+				}
+			}}
+			onChange={event => toggle(event.target.checked)}
+		/>
+	);
+
+	if (!node.children) {
+		return (
+			<li>
+				<label className="tree-row">
+					{checkbox}
+					<span className="tree-name">{node.name}</span>
+					<span className="tree-size">{formatSize(node.size)}</span>
+				</label>
+			</li>
+		);
+	}
+
+	return (
+		<li>
+			<details open={open} onToggle={event => setOpen((event.target as HTMLDetailsElement).open)}>
+				<summary className="tree-row">
+					{checkbox}
+					<span className="tree-name">{`${node.name}/`}</span>
+					<span className="tree-size">{`${node.filePaths.length} files, ${formatSize(node.size)}`}</span>
+				</summary>
+				{open && (
+					<ul className="file-tree">
+						{node.children.map(child => (
+							<TreeItem key={child.path} node={child} tree={tree} selected={selected} onChange={onChange} formatSize={formatSize}/>
+						))}
+					</ul>
+				)}
+			</details>
+		</li>
+	);
+}
+
+/** Expandable checkboxes for every file and folder in `tree` */
+export default function FileBrowser(props: FileBrowserProps) {
+	return (
+		<ul className="file-tree file-tree-root">
+			{(props.tree.children ?? []).map(node => (
+				<TreeItem key={node.path} node={node} {...props}/>
+			))}
+		</ul>
+	);
+}
@@ -0,0 +1,131 @@
+export type FileSink = {
+	/** `true` when chunks go straight to disk instead of being collected in memory */
+	isStreaming: boolean;
+	write(chunk: Blob | Uint8Array): Promise<void>;
+	close(): Promise<void>;
+	abort(): Promise<void>;
+};
+
+type SaveFilePickerOptions = {
+	suggestedName?: string;
+	types?: Array<{description?: string; accept: Record<string, string[]>}>;
+};
+
+type FileSystemAccessGlobal = typeof globalThis & {
+	showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+};
+
+function triggerDownload(blob: Blob, filename: string) {
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = filename;
+	link.click();
+	URL.revokeObjectURL(url);
+}
+
+export function createBlobSink(filename: string, mimeType = 'application/octet-stream'): FileSink {
+	let parts: Array<Blob | Uint8Array> = [];
+	return {
+		isStreaming: false,
+		async write(chunk) {
+			parts.push(chunk);
+		},
+		async close() {
+			triggerDownload(new Blob(parts, {type: mimeType}), filename);
+			parts = [];
+		},
+		async abort() {
+			parts = [];
+		},
+	};
+}
+
+/**
+ * Writes to a file picked via `showSaveFilePicker`. Resolves with nothing where the picker isn't available or the user gesture it needs has expired, and rejects with an `AbortError` when it's dismissed.
+ */
+export async function pickFileSink(filename: string): Promise<FileSink | undefined> {
+	const {showSaveFilePicker} = globalThis as FileSystemAccessGlobal;
+	if (!showSaveFilePicker) {
+		return;
+	}
+
+	let handle: FileSystemFileHandle;
+	try {
+		handle = await showSaveFilePicker({suggestedName: filename});
+	} catch (error) {
+		if (error instanceof DOMException && error.name === 'AbortError') {
+			throw error;
+		}
+
+		return;
+	}
+
+	const writable = await handle.createWritable();
+	return {
+		isStreaming: true,
+		async write(chunk) {
+			await writable.write(chunk);
+		},
+		async close() {
+			await writable.close();
+		},
+		async abort() {
+			await writable.abort();
+		},
+	};
+}
+
+/**
+ * Writes to a picked file where available, otherwise collects a Blob and downloads it on `close`. Dismissing the picker rejects with an `AbortError`.
+ */
+export async function createFileSink(
+	filename: string,
+	{mimeType = 'application/octet-stream'}: {mimeType?: string} = {},
+): Promise<FileSink> {
+	// The picker requires a recent user gesture, which queued downloads may not have
+	return await pickFileSink(filename) ?? createBlobSink(filename, mimeType);
+}
+
+/** Compresses everything written to it with gzip before passing it on to `target` */
+export function createGzipSink(target: FileSink): FileSink {
+	const compression = new CompressionStream('gzip');
+	const writer = compression.writable.getWriter();
+	const pumping = (async () => {
+		const reader = compression.readable.getReader() as ReadableStreamDefaultReader<Uint8Array>;
+		for (;;) {
+			// eslint-disable-next-line no-await-in-loop -- Chunks must be written in order
+			const {done, value} = await reader.read();
+			if (done) {
+				return;
+			}
+
+			// eslint-disable-next-line no-await-in-loop -- Chunks must be written in order
+			await target.write(value);
+		}
+	})();
+
+	return {
+		isStreaming: target.isStreaming,
+		async write(chunk) {
+			await writer.ready;
+			await writer.write(chunk instanceof Blob ? new Uint8Array(await chunk.arrayBuffer()) : chunk);
+		},
+		async close() {
+			await writer.close();
+			await pumping;
+			await target.close();
+		},
+		async abort() {
+			await Promise.allSettled([writer.abort(), pumping]);
+			await target.abort();
+		},
+	};
+}
+
+/** Saves the blob to the given sink, like one picked when the download started, or asks where to save it */
+export async function saveFile(blob: Blob, filename: string, target?: FileSink): Promise<void> {
+	const sink = target ?? await createFileSink(filename, {mimeType: blob.type || undefined});
+	await sink.write(blob);
+	await sink.close();
+}
@@ -0,0 +1,66 @@
+import {test, expect} from 'vitest';
+import {buildFileTree, getSelectionRules} from './file-tree.js';
+import {filterFiles, parseFilter} from './path-filter.js';
+
+const files = [
+	{path: 'docs/readme.md', size: 10},
+	{path: 'docs/guide/intro.md', size: 20},
+	{path: 'docs/guide/setup.md', size: 30},
+	{path: 'docs/guide/assets/logo.svg', size: 40},
+	{path: 'docs/api/index.md'},
+	{path: 'docs/[draft], notes.md', size: 5},
+];
+
+function applyRules(rules: string[]): string[] {
+	return filterFiles(files, parseFilter(rules.join(', '), {caseSensitive: true}), 'docs').files.map(file => file.path);
+}
+
+test('buildFileTree nests files with folders first and sums their sizes', () => {
+	const tree = buildFileTree(files, 'docs');
+	expect(tree.size).toBe(105);
+	expect(tree.filePaths).toHaveLength(6);
+	expect(tree.children!.map(node => node.name)).toEqual(['api', 'guide', '[draft], notes.md', 'readme.md']);
+
+	const guide = tree.children![1]!;
+	expect(guide).toMatchObject({path: 'docs/guide', size: 90});
+	expect(guide.children!.map(node => node.path)).toEqual(['docs/guide/assets', 'docs/guide/intro.md', 'docs/guide/setup.md']);
+	expect(tree.children![0]).toMatchObject({path: 'docs/api', size: 0, filePaths: ['docs/api/index.md']});
+});
+
+test('getSelectionRules prefers whole folders and the shorter list', () => {
+	const tree = buildFileTree(files, 'docs');
+	expect(getSelectionRules(tree, new Set(tree.filePaths))).toEqual([]);
+	expect(getSelectionRules(tree, new Set(['docs/guide/intro.md', 'docs/guide/setup.md', 'docs/guide/assets/logo.svg']))).toEqual(['/guide/']);
+	expect(getSelectionRules(tree, new Set(tree.filePaths.filter(path => path !== 'docs/guide/assets/logo.svg')))).toEqual(['!/guide/assets/']);
+});
+
+test('getSelectionRules round-trips through the filter', () => {
+	const tree = buildFileTree(files, 'docs');
+	const selections = [
+		['docs/readme.md'],
+		['docs/[draft], notes.md', 'docs/api/index.md'],
+		['docs/guide/intro.md', 'docs/guide/assets/logo.svg', 'docs/readme.md'],
+		tree.filePaths.filter(path => path !== 'docs/[draft], notes.md'),
+	];
+	for (const selection of selections) {
+		expect(applyRules(getSelectionRules(tree, new Set(selection))).sort()).toEqual(selection.sort());
+	}
+});
+
+test('getSelectionRules escapes braces without merging the rules after them', () => {
+	const braceFiles = [{path: '{draft/a.md'}, {path: 'notes{1}.md'}, {path: 'readme.md'}, {path: 'license'}, {path: 'src/index.ts'}];
+	const tree = buildFileTree(braceFiles, '');
+	const selection = ['readme.md', '{draft/a.md'];
+	const rules = getSelectionRules(tree, new Set(selection));
+	expect(rules).toEqual(['/[{]draft/', '/readme.md']);
+
+	// Joined like the review exports them to the filter
+	const parsed = parseFilter(rules.join(', '), {caseSensitive: true});
+	expect(parsed.map(rule => rule.source)).toEqual(rules);
+	expect(filterFiles(braceFiles, parsed, '').files.map(file => file.path).sort()).toEqual(selection);
+});
+
+test('getSelectionRules works at the repository root', () => {
+	const tree = buildFileTree([{path: 'readme.md'}, {path: 'src/index.ts'}], '');
+	expect(getSelectionRules(tree, new Set(['readme.md']))).toEqual(['/readme.md']);
+});
@@ -0,0 +1,96 @@
+import {type ProviderFile} from './provider.js';
+
+export type FileTreeNode = {
+	name: string;
+	/** From the repository root, like the listed file paths */
+	path: string;
+	/** The total of the sizes that the listing included */
+	size: number;
+	/** Every file at or below this node */
+	filePaths: string[];
+	/** Only set on folders */
+	children?: FileTreeNode[];
+};
+
+function sortNodes(nodes: FileTreeNode[]): FileTreeNode[] {
+	return nodes.sort((a, b) => Number(!a.children) - Number(!b.children) || a.name.localeCompare(b.name));
+}
+
+/** Nests the listed files under `directory`, with folders first */
+export function buildFileTree(files: ProviderFile[], directory: string): FileTreeNode {
+	const prefix = directory ? `${directory}/` : '';
+	const root: FileTreeNode = {
+		name: directory.split('/').at(-1) ?? '',
+		path: directory,
+		size: 0,
+		filePaths: [],
+		children: [],
+	};
+	const folders = new Map([[directory, root]]);
+
+	for (const file of files) {
+		const size = file.size ?? 0;
+		const segments = file.path.slice(prefix.length).split('/');
+		let parent = root;
+		for (const segment of segments.slice(0, -1)) {
+			const path = parent.path ? `${parent.path}/${segment}` : segment;
+			let folder = folders.get(path);
+			if (!folder) {
+				folder = {name: segment, path, size: 0, filePaths: [], children: []};
+				folders.set(path, folder);
+				parent.children!.push(folder);
+			}
+
+			parent.size += size;
+			parent.filePaths.push(file.path);
+			parent = folder;
+		}
+
+		parent.size += size;
+		parent.filePaths.push(file.path);
+		parent.children!.push({name: segments.at(-1)!, path: file.path, size, filePaths: [file.path]});
+	}
+
+	for (const folder of folders.values()) {
+		sortNodes(folder.children!);
+	}
+
+	return root;
+}
+
+// `parseFilter` has no escape character, so glob characters are wrapped in a class and commas, which split rules, match any character
+function escapeGlob(path: string): string {
+	return path.replaceAll(/[*?[{]/g, '[$&]').replaceAll(',', '?');
+}
+
+/**
+ * Turns a selection into rules for `parseFilter`, using whole folders where possible and whichever of include or exclude rules is shorter. The rules are anchored, so they're meant to be parsed with `caseSensitive`. An empty list means everything, so the selection must not be empty.
+ */
+export function getSelectionRules(tree: FileTreeNode, selected: Set<string>): string[] {
+	const prefix = tree.path ? `${tree.path}/` : '';
+	const includes: string[] = [];
+	const excludes: string[] = [];
+	const toRule = (node: FileTreeNode) => `/${escapeGlob(node.path.slice(prefix.length))}${node.children ? '/' : ''}`;
+	const collect = (node: FileTreeNode) => {
+		const count = node.filePaths.filter(path => selected.has(path)).length;
+		if (count === node.filePaths.length) {
+			includes.push(toRule(node));
+		} else if (count === 0) {
+			excludes.push(`!${toRule(node)}`);
+		} else {
+			for (const child of node.children!) {
+				collect(child);
+			}
+		}
+	};
+
+	if (tree.filePaths.every(path => selected.has(path))) {
+		return [];
+	}
+
+	for (const child of tree.children ?? []) {
+		collect(child);
+	}
+
+	return excludes.length < includes.length ? excludes : includes;
+}
@@ -0,0 +1,56 @@
+/* eslint-disable @typescript-eslint/naming-convention -- Recorded API responses */
+import {type Fixture} from './serve-fixtures.js';
+
+const repository = 'https://api.bitbucket.org/2.0/repositories/atlassian/python-bitbucket';
+const commit = '7e3d5a0c4b1f9e8d2c6a5b4f3e2d1c0b9a8f7e6d';
+
+const bitbucket: Record<string, Fixture> = {
+	[repository]: {
+		body: {
+			full_name: 'atlassian/python-bitbucket',
+			is_private: false,
+			mainbranch: {name: 'master', type: 'branch'},
+		},
+	},
+	[`${repository}/refs/branches/master`]: {
+		body: {name: 'master', type: 'branch', target: {hash: commit}},
+	},
+	[`${repository}/src/${commit}/docs?format=meta`]: {
+		body: {type: 'commit_directory', path: 'docs'},
+	},
+	[`${repository}/src/${commit}/docs/?pagelen=100`]: {
+		body: {
+			pagelen: 100,
+			values: [
+				{type: 'commit_file', path: 'docs/index.rst', size: 1380, attributes: []},
+				{type: 'commit_directory', path: 'docs/api'},
+			],
+			next: `${repository}/src/${commit}/docs/?pagelen=100&page=2`,
+		},
+	},
+	[`${repository}/src/${commit}/docs/?pagelen=100&page=2`]: {
+		body: {
+			pagelen: 100,
+			values: [
+				{type: 'commit_file', path: 'docs/make.sh', size: 210, attributes: ['executable']},
+			],
+		},
+	},
+	[`${repository}/src/${commit}/docs/api/?pagelen=100`]: {
+		body: {
+			pagelen: 100,
+			values: [
+				{type: 'commit_file', path: 'docs/api/latest', size: 7, attributes: ['link']},
+			],
+		},
+	},
+	[`${repository}/src/${commit}/docs/index.rst`]: {
+		body: 'Python Bitbucket\n================\n',
+	},
+	'https://api.bitbucket.org/2.0/repositories/atlassian/private-repository': {
+		status: 403,
+		body: {type: 'error', error: {message: 'Access denied'}},
+	},
+};
+
+export default bitbucket;
@@ -0,0 +1,50 @@
+/* eslint-disable @typescript-eslint/naming-convention -- Recorded API responses */
+import {type Fixture} from './serve-fixtures.js';
+
+const repository = 'https://codeberg.org/api/v1/repos/forgejo/forgejo';
+const commit = '5f1a1c5b1e0f2a9c3d7e8b6a4f2d1c0b9a8e7d6c';
+
+const gitea: Record<string, Fixture> = {
+	[repository]: {
+		body: {
+			full_name: 'forgejo/forgejo',
+			private: false,
+			internal: false,
+			default_branch: 'forgejo',
+		},
+	},
+	[`${repository}/commits?sha=forgejo&limit=1&stat=false`]: {
+		body: [{sha: commit}],
+	},
+	[`${repository}/contents/docs?ref=${commit}`]: {
+		body: [{name: 'readme.md', path: 'docs/readme.md', type: 'file'}],
+	},
+	[`${repository}/contents/docs/readme.md?ref=${commit}`]: {
+		body: {name: 'readme.md', path: 'docs/readme.md', type: 'file'},
+	},
+	[`${repository}/git/trees/${commit}?recursive=true&per_page=1000&page=1`]: {
+		body: {
+			sha: commit,
+			truncated: true,
+			tree: [
+				{path: 'README.md', mode: '100644', type: 'blob', size: 4021, sha: '8b2f0a6c1d3e5f7a9b0c2d4e6f8a0b1c3d5e7f9a'},
+				{path: 'docs', mode: '040000', type: 'tree', size: 0, sha: '1a2b3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b'},
+				{path: 'docs/readme.md', mode: '100644', type: 'blob', size: 112, sha: '2b3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b1c'},
+			],
+		},
+	},
+	[`${repository}/git/trees/${commit}?recursive=true&per_page=1000&page=2`]: {
+		body: {
+			sha: commit,
+			truncated: false,
+			tree: [
+				{path: 'docs/build.sh', mode: '100755', type: 'blob', size: 64, sha: '3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b1c2d'},
+			],
+		},
+	},
+	[`${repository}/media/docs/readme.md?ref=forgejo`]: {
+		body: '# Documentation\n',
+	},
+};
+
+export default gitea;
@@ -0,0 +1,59 @@
+/* eslint-disable @typescript-eslint/naming-convention -- Recorded API responses */
+import {type Fixture} from './serve-fixtures.js';
+
+const repository = 'https://github.corp.example/api/v3/repos/platform/tools';
+
+const githubEnterprise: Record<string, Fixture> = {
+	[repository]: {
+		body: {
+			full_name: 'platform/tools',
+			private: true,
+			visibility: 'internal',
+			default_branch: 'main',
+		},
+	},
+	[`${repository}/commits/main`]: {
+		body: '0c5e0a53c1ef9b2ad0d2e5d8f1b4f6a2c3e4d5f6',
+	},
+	[`${repository}/git/trees/main?recursive=1`]: {
+		body: {
+			sha: '0c5e0a53c1ef9b2ad0d2e5d8f1b4f6a2c3e4d5f6',
+			truncated: false,
+			tree: [
+				{path: 'scripts', mode: '040000', type: 'tree', sha: '5a1d2f8e9c0b3a4d5e6f7a8b9c0d1e2f3a4b5c6d', url: `${repository}/git/trees/5a1d2f8e9c0b3a4d5e6f7a8b9c0d1e2f3a4b5c6d`},
+				{path: 'scripts/deploy.sh', mode: '100755', type: 'blob', size: 512, sha: '6b2e3f9a0d1c4b5e6f7a8b9c0d1e2f3a4b5c6d7e', url: `${repository}/git/blobs/6b2e3f9a0d1c4b5e6f7a8b9c0d1e2f3a4b5c6d7e`},
+				{path: 'readme.md', mode: '100644', type: 'blob', size: 48, sha: '7c3f4a0b1e2d5c6f7a8b9c0d1e2f3a4b5c6d7e8f', url: `${repository}/git/blobs/7c3f4a0b1e2d5c6f7a8b9c0d1e2f3a4b5c6d7e8f`},
+			],
+		},
+	},
+	[`${repository}/compare/v1.0...main?per_page=100&page=1`]: {
+		body: {
+			status: 'ahead',
+			ahead_by: 3,
+			files: [
+				{filename: 'scripts/deploy.sh', status: 'modified', sha: '6b2e3f9a0d1c4b5e6f7a8b9c0d1e2f3a4b5c6d7e', additions: 2, deletions: 1},
+				{filename: 'readme.md', previous_filename: 'README', status: 'renamed', sha: '7c3f4a0b1e2d5c6f7a8b9c0d1e2f3a4b5c6d7e8f', additions: 0, deletions: 0},
+				{filename: 'scripts/build.sh', status: 'removed', sha: '8d4a5b1c2f3e6d7a8b9c0d1e2f3a4b5c6d7e8f90', additions: 0, deletions: 12},
+				{filename: 'scripts/vendor', status: 'unchanged', sha: '9e5b6c2d3a4f7e8b9c0d1e2f3a4b5c6d7e8f9012', additions: 0, deletions: 0},
+			],
+		},
+	},
+	[`${repository}/git/blobs/6b2e3f9a0d1c4b5e6f7a8b9c0d1e2f3a4b5c6d7e`]: {
+		body: '#!/bin/sh\n',
+	},
+	[`${repository}/contents/assets/dataset.csv?ref=main`]: {
+		status: 403,
+		body: {
+			message: 'This API returns blobs up to 100 MB in size. The requested blob is too large to fetch via the API, but you can use the Git Data API to request blobs up to 100 MB in size.',
+			errors: [{resource: 'Blob', field: 'data', code: 'too_large'}],
+		},
+	},
+	[`${repository}/git/blobs/a1b2c3d4e5f60718293a4b5c6d7e8f9012345678`]: {
+		body: 'id,value\n1,2\n',
+	},
+	'https://github.corp.example/raw/platform/tools/main/scripts/deploy.sh': {
+		body: '#!/bin/sh\n',
+	},
+};
+
+export default githubEnterprise;
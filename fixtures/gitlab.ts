@@ -0,0 +1,55 @@
+/* eslint-disable @typescript-eslint/naming-convention -- Recorded API responses */
+import {type Fixture} from './serve-fixtures.js';
+
+const project = 'https://gitlab.com/api/v4/projects/gitlab-org%2Fcli';
+
+const gitlab: Record<string, Fixture> = {
+	[project]: {
+		body: {
+			id: 34_675_721,
+			path_with_namespace: 'gitlab-org/cli',
+			default_branch: 'main',
+			visibility: 'public',
+		},
+	},
+	[`${project}/repository/commits/main`]: {
+		body: {id: '3d3bd0ba4ee0fde06fb1a5ee8b4a8b8e5c36c5f0'},
+	},
+	[`${project}/repository/tree?ref=main&path=docs&recursive=true&per_page=100&page=1`]: {
+		headers: {'x-next-page': '2'},
+		body: [
+			{id: 'a9f3c5c7e4b3a3fd4b7a0b1f2f9c54d4e0a3d1c2', name: 'source', type: 'tree', path: 'docs/source', mode: '040000'},
+			{id: '6f1e8d2c4b5a69788d0e1f2a3b4c5d6e7f8091a2', name: 'index.md', type: 'blob', path: 'docs/index.md', mode: '100644'},
+		],
+	},
+	[`${project}/repository/tree?ref=main&path=docs&recursive=true&per_page=100&page=2`]: {
+		headers: {'x-next-page': ''},
+		body: [
+			{id: 'c0ffee0b4b5a69788d0e1f2a3b4c5d6e7f8091a2', name: 'gen.sh', type: 'blob', path: 'docs/source/gen.sh', mode: '100755'},
+		],
+	},
+	[`${project}/repository/commits/v1.0`]: {
+		body: {id: '1a2b3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d'},
+	},
+	[`${project}/repository/compare?from=1a2b3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d&to=3d3bd0ba4ee0fde06fb1a5ee8b4a8b8e5c36c5f0`]: {
+		body: {
+			commits: [],
+			diffs: [
+				{old_path: 'docs/index.md', new_path: 'docs/index.md', a_mode: '100644', b_mode: '100644', new_file: false, renamed_file: false, deleted_file: false},
+				{old_path: 'docs/gen.sh', new_path: 'docs/source/gen.sh', a_mode: '100755', b_mode: '100755', new_file: false, renamed_file: true, deleted_file: false},
+				{old_path: 'docs/install.md', new_path: 'docs/install.md', a_mode: '100644', b_mode: '0', new_file: false, renamed_file: false, deleted_file: true},
+			],
+		},
+	},
+	[`${project}/repository/files/docs%2Findex.md/raw?ref=main&lfs=true`]: {
+		body: '# GitLab CLI\n',
+	},
+	'https://gitlab.com/api/v4/projects/gitlab-org%2Fsecurity%2Fcli': {
+		body: {visibility: 'private', default_branch: 'main'},
+	},
+	'https://gitlab.com/api/v4/projects/gitlab-org%2Fsecurity%2Fcli/repository/commits/main': {
+		body: {id: '9a8b7c6d5e4f3a2b1c0d9e8f7a6b5c4d3e2f1a0b'},
+	},
+};
+
+export default gitlab;
@@ -0,0 +1,30 @@
+import {vi} from 'vitest';
+
+export type Fixture = {
+	status?: number;
+	statusText?: string;
+	headers?: Record<string, string>;
+	/** Strings are served as is, anything else as JSON */
+	body?: unknown;
+};
+
+/** Replaces `fetch` with recorded responses, keyed by URL. Returns the list of requests it received */
+export default function serveFixtures(fixtures: Record<string, Fixture>): Request[] {
+	const requests: Request[] = [];
+	vi.stubGlobal('fetch', async (url: string, init: RequestInit = {}) => {
+		requests.push(new Request(url, init));
+		const fixture = fixtures[url];
+		if (!fixture) {
+			return new Response('Not Found', {status: 404});
+		}
+
+		const body = typeof fixture.body === 'string' ? fixture.body : JSON.stringify(fixture.body);
+		return new Response(init.method === 'HEAD' ? null : body, {
+			status: fixture.status ?? 200,
+			statusText: fixture.statusText,
+			headers: fixture.headers,
+		});
+	});
+
+	return requests;
+}
@@ -0,0 +1,24 @@
+import {test, expect} from 'vitest';
+import {createLfsPointer, getGitBlobSha, verifyGitBlob} from './git-blob.js';
+
+test('getGitBlobSha matches git hash-object', async () => {
+	await expect(getGitBlobSha(new Blob([]))).resolves.toBe('e69de29bb2d1d6434b8b29ae775ad8c2e48c5391');
+	await expect(getGitBlobSha(new Blob(['hello\n']))).resolves.toBe('ce013625030ba8dba906f756967f9e9ca394464a');
+});
+
+test('verifyGitBlob rejects truncated content', async () => {
+	await expect(verifyGitBlob(new Blob(['hello\n']), 'ce013625030ba8dba906f756967f9e9ca394464a')).resolves.toBe(true);
+	await expect(verifyGitBlob(new Blob(['hel']), 'ce013625030ba8dba906f756967f9e9ca394464a')).resolves.toBe(false);
+});
+
+test('verifyGitBlob accepts LFS files through their pointer', async () => {
+	const content = new Blob(['large binary content']);
+	const oid = '5ab2b4e1f8d3a3d5cbd3cb4a4f4c0c9dd1d1ce6b8e6ac7e6c3f1b5d1c6f3a9d0';
+	const pointerSha = await getGitBlobSha(new Blob([createLfsPointer(oid, content.size)]));
+	await expect(verifyGitBlob(content, pointerSha)).resolves.toBe(false);
+
+	const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', await content.arrayBuffer()));
+	const realOid = [...digest].map(byte => byte.toString(16).padStart(2, '0')).join('');
+	const realPointerSha = await getGitBlobSha(new Blob([createLfsPointer(realOid, content.size)]));
+	await expect(verifyGitBlob(content, realPointerSha)).resolves.toBe(true);
+});
@@ -0,0 +1,27 @@
+function toHex(buffer: ArrayBuffer): string {
+	return [...new Uint8Array(buffer)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** The SHA-1 that git stores the content under, which is what tree listings call `sha` */
+export async function getGitBlobSha(blob: Blob): Promise<string> {
+	const content = new Blob([`blob ${blob.size}\0`, blob]);
+	return toHex(await crypto.subtle.digest('SHA-1', await content.arrayBuffer()));
+}
+
+/** The SHA-256 that Git LFS stores the content under */
+export async function getLfsOid(blob: Blob): Promise<string> {
+	return toHex(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+}
+
+export function createLfsPointer(oid: string, size: number): string {
+	return `version https://git-lfs.github.com/spec/v1\noid sha256:${oid}\nsize ${size}\n`;
+}
+
+/** Checks the content against the listed blob SHA. LFS files are listed with the SHA of their pointer, so resolved ones are checked through it */
+export async function verifyGitBlob(blob: Blob, sha: string): Promise<boolean> {
+	if (await getGitBlobSha(blob) === sha) {
+		return true;
+	}
+
+	return await getGitBlobSha(new Blob([createLfsPointer(await getLfsOid(blob), blob.size)])) === sha;
+}
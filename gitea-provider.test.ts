@@ -0,0 +1,73 @@
+import {afterEach, expect, test, vi} from 'vitest';
+import gitea from './fixtures/gitea.js';
+import serveFixtures from './fixtures/serve-fixtures.js';
+import {createGiteaProvider} from './gitea-provider.js';
+import getRepositoryInfo from './repository-info.js';
+
+const provider = createGiteaProvider();
+const controller = new AbortController();
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+test('parseUrl', () => {
+	expect(provider.parseUrl(new URL('https://codeberg.org/forgejo/forgejo/src/branch/forgejo/docs'))).toEqual({
+		user: 'forgejo',
+		repository: 'forgejo',
+		type: 'path',
+		parts: ['forgejo', 'docs'],
+	});
+	expect(provider.parseUrl(new URL('https://codeberg.org/forgejo/forgejo/raw/tag/v1.0/readme.md'))).toEqual({
+		user: 'forgejo',
+		repository: 'forgejo',
+		type: 'blob',
+		parts: ['v1.0', 'readme.md'],
+	});
+	expect(provider.parseUrl(new URL('https://codeberg.org/forgejo/forgejo/issues'))).toEqual({error: 'NOT_A_DIRECTORY'});
+});
+
+test('getRepositoryInfo', async () => {
+	serveFixtures(gitea);
+	await expect(getRepositoryInfo('https://codeberg.org/forgejo/forgejo/src/branch/forgejo/docs')).resolves.toEqual({
+		user: 'forgejo',
+		repository: 'forgejo',
+		gitReference: 'forgejo',
+		commit: '5f1a1c5b1e0f2a9c3d7e8b6a4f2d1c0b9a8e7d6c',
+		directory: 'docs',
+		isPrivate: false,
+	});
+	await expect(getRepositoryInfo('https://codeberg.org/forgejo/forgejo/src/branch/forgejo/docs/readme.md')).resolves.toEqual({
+		user: 'forgejo',
+		repository: 'forgejo',
+		gitReference: 'forgejo',
+		commit: '5f1a1c5b1e0f2a9c3d7e8b6a4f2d1c0b9a8e7d6c',
+		directory: 'docs',
+		filePath: 'docs/readme.md',
+		isPrivate: false,
+	});
+	await expect(getRepositoryInfo('https://codeberg.org/forgejo/forgejo')).resolves.toMatchObject({
+		commit: '5f1a1c5b1e0f2a9c3d7e8b6a4f2d1c0b9a8e7d6c',
+		downloadUrl: 'https://codeberg.org/api/v1/repos/forgejo/forgejo/archive/5f1a1c5b1e0f2a9c3d7e8b6a4f2d1c0b9a8e7d6c.zip',
+	});
+});
+
+test('listFiles reads every page of the tree', async () => {
+	serveFixtures(gitea);
+	const files = await provider.listFiles({user: 'forgejo', repository: 'forgejo'}, {reference: 'forgejo', directory: 'docs'});
+	expect(files.map(file => [file.path, file.mode])).toEqual([
+		['docs/readme.md', '100644'],
+		['docs/build.sh', '100755'],
+	]);
+});
+
+test('fetchFile', async () => {
+	serveFixtures(gitea);
+	const blob = await provider.fetchFile({user: 'forgejo', repository: 'forgejo'}, {
+		reference: 'forgejo',
+		file: {path: 'docs/readme.md'},
+		isPrivate: false,
+		signal: controller.signal,
+	});
+	await expect(blob.text()).resolves.toBe('# Documentation\n');
+});
@@ -0,0 +1,152 @@
+import authenticatedFetch from './authenticated-fetch.js';
+import {
+	type Provider,
+	type ProviderFile,
+	type RepositoryReference,
+	type RequestOptions,
+	encodePath,
+	getPathSegments,
+} from './provider.js';
+
+type GiteaTree = {
+	tree: Array<{
+		path: string;
+		mode: string;
+		type: 'blob' | 'tree' | 'commit';
+		size: number;
+		sha: string;
+	}>;
+	truncated: boolean;
+};
+
+const referenceKinds = new Set(['branch', 'tag', 'commit']);
+
+/** Works for Gitea and Forgejo instances, like Codeberg */
+export function createGiteaProvider(hostname = 'codeberg.org'): Provider {
+	const apiBase = `https://${hostname}/api/v1`;
+	const commits = new Map<string, Promise<string | undefined>>();
+
+	// Archive URLs need a reference, which root URLs don't have
+	const defaultBranches = new Map<string, string>();
+
+	const getRepositoryUrl = ({user, repository}: RepositoryReference) =>
+		`${apiBase}/repos/${user}/${repository}`;
+
+	const findCommit = async (repository: RepositoryReference, reference: string, options?: RequestOptions): Promise<string | undefined> => {
+		const response = await authenticatedFetch(`${getRepositoryUrl(repository)}/commits?sha=${encodeURIComponent(reference)}&limit=1&stat=false`, options);
+		if (!response.ok) {
+			return;
+		}
+
+		const [commit] = await response.json() as Array<{sha: string}>;
+		return commit?.sha;
+	};
+
+	const resolveCommit = async (repository: RepositoryReference, reference: string, options?: RequestOptions) => {
+		if (/^[\da-f]{40}$/i.test(reference)) {
+			return reference;
+		}
+
+		const key = `${repository.user}/${repository.repository}/${reference}`;
+		let commit = commits.get(key);
+		if (!commit) {
+			commit = findCommit(repository, reference, options);
+			commits.set(key, commit);
+		}
+
+		return commit;
+	};
+
+	return {
+		name: hostname === 'codeberg.org' ? 'Codeberg' : 'Gitea',
+		hostname,
+		parseUrl(url) {
+			const [user, repository, type, ...rest] = getPathSegments(url);
+			if (!user || !repository) {
+				return {error: 'NOT_A_REPOSITORY'};
+			}
+
+			if (!type) {
+				return {user, repository, parts: []};
+			}
+
+			if (type !== 'src' && type !== 'raw' && type !== 'media') {
+				return {error: 'NOT_A_DIRECTORY'};
+			}
+
+			// Current URLs say what kind of reference follows, like `/src/branch/main`
+			const parts = referenceKinds.has(rest[0] ?? '') ? rest.slice(1) : rest;
+			return {user, repository, type: type === 'src' ? 'path' : 'blob', parts};
+		},
+		async getRepository(repository, options) {
+			const response = await authenticatedFetch(getRepositoryUrl(repository), options);
+			if (response.status === 404) {
+				return;
+			}
+
+			const data = await response.json() as {private: boolean; internal?: boolean; default_branch: string};
+			defaultBranches.set(`${repository.user}/${repository.repository}`, data.default_branch);
+			return {isPrivate: data.private || Boolean(data.internal), defaultBranch: data.default_branch};
+		},
+		resolveReference: resolveCommit,
+		async getPathType(repository, reference, path, options) {
+			const response = await authenticatedFetch(`${getRepositoryUrl(repository)}/contents/${encodePath(path)}?ref=${encodeURIComponent(reference)}`, options);
+			if (!response.ok) {
+				return;
+			}
+
+			const contents = await response.json() as unknown[] | {type: string};
+			return Array.isArray(contents) || contents.type === 'dir' ? 'directory' : 'file';
+		},
+		getArchiveUrl(repository, reference, format = 'zip') {
+			const archiveReference = reference ?? defaultBranches.get(`${repository.user}/${repository.repository}`) ?? 'HEAD';
+			return `${getRepositoryUrl(repository)}/archive/${encodeURIComponent(archiveReference)}.${format}`;
+		},
+		async listFiles(repository, {reference, directory, signal, tokenProfile}) {
+			const commit = await resolveCommit(repository, reference, {tokenProfile});
+			if (!commit) {
+				throw new Error('Branch or tag could not be resolved.');
+			}
+
+			const prefix = directory ? `${directory}/` : '';
+			const files: ProviderFile[] = [];
+			for (let page = 1; ; page++) {
+				// eslint-disable-next-line no-await-in-loop -- Pages are fetched until the tree isn't truncated
+				const response = await authenticatedFetch(`${getRepositoryUrl(repository)}/git/trees/${commit}?recursive=true&per_page=1000&page=${page}`, {signal, tokenProfile});
+				if (!response.ok) {
+					throw new Error(`HTTP ${response.status} while listing files`);
+				}
+
+				// eslint-disable-next-line no-await-in-loop -- Pages are fetched until the tree isn't truncated
+				const {tree, truncated} = await response.json() as GiteaTree;
+				for (const item of tree) {
+					if (item.type !== 'tree' && item.path.startsWith(prefix)) {
+						files.push({
+							path: item.path,
+							size: item.size,
+							sha: item.sha,
+							mode: item.mode,
+						});
+					}
+				}
+
+				if (!truncated || tree.length === 0) {
+					return files;
+				}
+			}
+		},
+		async fetchFile(repository, {reference, file, signal, tokenProfile}) {
+			// Unlike `/raw/`, `/media/` resolves LFS pointers
+			const response = await authenticatedFetch(
+				`${getRepositoryUrl(repository)}/media/${encodePath(file.path)}?ref=${encodeURIComponent(reference)}`,
+				{signal, tokenProfile},
+			);
+
+			if (!response.ok) {
+				throw new Error(`HTTP ${response.statusText} for ${file.path}`);
+			}
+
+			return response.blob();
+		},
+	};
+}
@@ -0,0 +1,191 @@
+/* eslint-disable @typescript-eslint/naming-convention -- OAuth parameters */
+
+export type OauthSettings = {
+	/** The client ID of the OAuth or GitHub App, with the device flow enabled */
+	clientId: string;
+	/** Defaults to `https://github.com`. GitHub doesn't allow cross-origin requests to these endpoints, so browsers need a proxy that adds CORS headers */
+	base?: string;
+};
+
+export type DeviceCode = {
+	deviceCode: string;
+	/** Entered by the user on the verification page */
+	userCode: string;
+	verificationUri: string;
+	/** When the codes stop working, as a timestamp */
+	expiresAt: number;
+	/** Seconds between polls */
+	interval: number;
+};
+
+export type OauthSession = {
+	token: string;
+	/** Set when the app issues expiring tokens, as a timestamp */
+	expiresAt?: number;
+};
+
+type TokenResponse = {
+	access_token?: string;
+	expires_in?: number;
+	error?: string;
+	error_description?: string;
+	interval?: number;
+};
+
+/** Checks the token field, as an HTML `pattern`. Signing in with a GitHub App gives `ghu_` tokens, and an OAuth app gives `gho_` ones */
+export const tokenPattern = String.raw`[\da-f]{40}|gh[opsu]_.+|github_pat_.+`;
+
+const settingsStorageKey = 'github-oauth';
+const sessionStorageKey = 'github-oauth-session';
+
+// See https://docs.github.com/en/apps/oauth-apps/building-oauth-apps/authorizing-oauth-apps#device-flow
+const deviceGrantType = 'urn:ietf:params:oauth:grant-type:device_code';
+const slowDownSeconds = 5;
+
+function getBase(settings: OauthSettings): string {
+	return (settings.base ?? 'https://github.com').replace(/\/+$/, '');
+}
+
+async function post<T>(url: string, parameters: Record<string, string>, signal?: AbortSignal): Promise<T> {
+	// Plain `fetch`, the stored token must not be sent along
+	const response = await fetch(url, {
+		method: 'POST',
+		signal,
+		headers: {Accept: 'application/json'},
+		body: new URLSearchParams(parameters),
+	});
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status} from ${new URL(url).hostname}`);
+	}
+
+	return response.json() as Promise<T>;
+}
+
+async function delay(seconds: number, signal?: AbortSignal): Promise<void> {
+	signal?.throwIfAborted();
+	return new Promise((resolve, reject) => {
+		const timeout = setTimeout(resolve, seconds * 1000);
+		signal?.addEventListener('abort', () => {
+			clearTimeout(timeout);
+			reject(signal.reason as Error);
+		}, {once: true});
+	});
+}
+
+export function getOauthSettings(): OauthSettings | undefined {
+	try {
+		const parsed = JSON.parse(globalThis.localStorage?.getItem(settingsStorageKey) ?? 'null') as Partial<OauthSettings> | undefined;
+		return typeof parsed?.clientId === 'string' ? {clientId: parsed.clientId, base: parsed.base} : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+export function saveOauthSettings(settings: OauthSettings | undefined): void {
+	if (settings?.clientId) {
+		globalThis.localStorage?.setItem(settingsStorageKey, JSON.stringify(settings));
+	} else {
+		globalThis.localStorage?.removeItem(settingsStorageKey);
+	}
+}
+
+/** The expiry of the signed-in token, or `undefined` when the token was pasted or there is none */
+export function getOauthSession(): Omit<OauthSession, 'token'> | undefined {
+	try {
+		const parsed = JSON.parse(globalThis.localStorage?.getItem(sessionStorageKey) ?? 'null') as {expiresAt?: number} | undefined;
+		return parsed ? {expiresAt: parsed.expiresAt} : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+export function saveOauthSession(session: OauthSession | undefined): void {
+	if (session) {
+		globalThis.localStorage?.setItem(sessionStorageKey, JSON.stringify({expiresAt: session.expiresAt}));
+	} else {
+		globalThis.localStorage?.removeItem(sessionStorageKey);
+	}
+}
+
+export function isOauthSessionExpired(session: {expiresAt?: number} | undefined, now = Date.now()): boolean {
+	return session?.expiresAt !== undefined && session.expiresAt <= now;
+}
+
+/** Where the user can revoke the app's access, since revoking it through the API needs the client secret */
+export function getRevokeUrl(settings: OauthSettings): string {
+	return `${getBase(settings)}/settings/connections/applications/${settings.clientId}`;
+}
+
+/** Starts the device flow: the user enters the returned code on the verification page */
+export async function requestDeviceCode(settings: OauthSettings, {scope = 'repo', signal}: {scope?: string; signal?: AbortSignal} = {}): Promise<DeviceCode> {
+	const response = await post<{
+		device_code?: string;
+		user_code: string;
+		verification_uri: string;
+		expires_in: number;
+		interval: number;
+		error_description?: string;
+	}>(`${getBase(settings)}/login/device/code`, {client_id: settings.clientId, scope}, signal);
+	if (!response.device_code) {
+		throw new Error(response.error_description ?? 'The device flow is not enabled for this client ID');
+	}
+
+	return {
+		deviceCode: response.device_code,
+		userCode: response.user_code,
+		verificationUri: response.verification_uri,
+		expiresAt: Date.now() + (response.expires_in * 1000),
+		interval: response.interval,
+	};
+}
+
+/**
+ * Waits until the user approves the code and returns the token. Throws `Sign-in code expired` and `Sign-in was denied` when the flow can't finish anymore.
+ */
+export async function pollForToken(settings: OauthSettings, code: DeviceCode, signal?: AbortSignal): Promise<OauthSession> {
+	let {interval} = code;
+	for (;;) {
+		// eslint-disable-next-line no-await-in-loop -- The server sets the polling pace
+		await delay(interval, signal);
+		if (Date.now() >= code.expiresAt) {
+			throw new Error('Sign-in code expired');
+		}
+
+		// eslint-disable-next-line no-await-in-loop -- The server sets the polling pace
+		const response = await post<TokenResponse>(`${getBase(settings)}/login/oauth/access_token`, {
+			client_id: settings.clientId,
+			device_code: code.deviceCode,
+			grant_type: deviceGrantType,
+		}, signal);
+
+		if (response.access_token) {
+			return {
+				token: response.access_token,
+				expiresAt: response.expires_in ? Date.now() + (response.expires_in * 1000) : undefined,
+			};
+		}
+
+		switch (response.error) {
+			case 'authorization_pending': {
+				break;
+			}
+
+			case 'slow_down': {
+				interval = response.interval ?? interval + slowDownSeconds;
+				break;
+			}
+
+			case 'expired_token': {
+				throw new Error('Sign-in code expired');
+			}
+
+			case 'access_denied': {
+				throw new Error('Sign-in was denied');
+			}
+
+			default: {
+				throw new Error(response.error_description ?? response.error ?? 'Unexpected response while signing in');
+			}
+		}
+	}
+}
@@ -0,0 +1,164 @@
+import {afterEach, expect, test, vi} from 'vitest';
+import githubEnterprise from './fixtures/github-enterprise.js';
+import serveFixtures from './fixtures/serve-fixtures.js';
+import {createGithubProvider} from './github-provider.js';
+import getRepositoryInfo from './repository-info.js';
+
+const provider = createGithubProvider({hostname: 'github.corp.example'});
+const controller = new AbortController();
+
+function stubLocalStorage(values: Record<string, string>) {
+	vi.stubGlobal('localStorage', {
+		getItem: (key: string) => values[key] ?? null,
+	});
+}
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+test('parseUrl', () => {
+	expect(createGithubProvider().parseUrl(new URL('https://raw.githubusercontent.com/fregante/doma/develop/readme.md'))).toEqual({
+		user: 'fregante',
+		repository: 'doma',
+		type: 'blob',
+		parts: ['develop', 'readme.md'],
+	});
+	expect(provider.parseUrl(new URL('https://github.corp.example/raw/platform/tools/main/readme.md'))).toEqual({
+		user: 'platform',
+		repository: 'tools',
+		type: 'blob',
+		parts: ['main', 'readme.md'],
+	});
+	expect(provider.parseUrl(new URL('https://github.corp.example/platform/tools/tree/main/scripts'))).toEqual({
+		user: 'platform',
+		repository: 'tools',
+		type: 'tree',
+		parts: ['main', 'scripts'],
+	});
+});
+
+test('getArchiveUrl uses the API base', () => {
+	expect(provider.getArchiveUrl({user: 'platform', repository: 'tools'}, 'main', 'tar.gz'))
+		.toBe('https://github.corp.example/api/v3/repos/platform/tools/tarball/main');
+});
+
+test('getRepositoryInfo routes registered hosts and sends their own token', async () => {
+	stubLocalStorage({
+		token: 'ghp_public',
+		hosts: JSON.stringify([{
+			hostname: 'github.corp.example',
+			type: 'github',
+			apiBase: 'https://github.corp.example/api/v3',
+			rawBase: 'https://github.corp.example/raw',
+			token: 'ghp_enterprise',
+		}]),
+	});
+	const requests = serveFixtures(githubEnterprise);
+	await expect(getRepositoryInfo('https://github.corp.example/platform/tools/tree/main/scripts')).resolves.toEqual({
+		user: 'platform',
+		repository: 'tools',
+		gitReference: 'main',
+		commit: '0c5e0a53c1ef9b2ad0d2e5d8f1b4f6a2c3e4d5f6',
+		directory: 'scripts',
+		isPrivate: true,
+	});
+	await expect(getRepositoryInfo('https://github.corp.example/raw/platform/tools/main/readme.md')).resolves.toMatchObject({
+		filePath: 'readme.md',
+	});
+	expect(requests.find(request => request.url.endsWith('/commits/main'))?.headers.get('accept')).toBe('application/vnd.github.sha');
+	expect(requests.map(request => request.headers.get('authorization'))).toEqual(
+		requests.map(() => 'Bearer ghp_enterprise'),
+	);
+});
+
+test('getRepositoryInfo rejects hosts that are not registered', async () => {
+	stubLocalStorage({});
+	await expect(getRepositoryInfo('https://github.corp.example/platform/tools')).resolves.toEqual({error: 'UNSUPPORTED_HOST'});
+});
+
+test('listFiles', async () => {
+	serveFixtures(githubEnterprise);
+	await expect(provider.listFiles({user: 'platform', repository: 'tools'}, {reference: 'main', directory: 'scripts'})).resolves.toEqual([
+		{
+			path: 'scripts/deploy.sh',
+			size: 512,
+			sha: '6b2e3f9a0d1c4b5e6f7a8b9c0d1e2f3a4b5c6d7e',
+			mode: '100755',
+			url: 'https://github.corp.example/api/v3/repos/platform/tools/git/blobs/6b2e3f9a0d1c4b5e6f7a8b9c0d1e2f3a4b5c6d7e',
+		},
+	]);
+});
+
+test('fetchFile reads public files from the raw base', async () => {
+	serveFixtures(githubEnterprise);
+	const blob = await provider.fetchFile({user: 'platform', repository: 'tools'}, {
+		reference: 'main',
+		file: {path: 'scripts/deploy.sh'},
+		isPrivate: false,
+		signal: controller.signal,
+	});
+	await expect(blob.text()).resolves.toBe('#!/bin/sh\n');
+});
+
+test('fetchFile reports the status of the LFS object', async () => {
+	const pointer = 'version https://git-lfs.github.com/spec/v1\noid sha256:4d7a214614ab2935c943f9e0ff69d22eadbb8f32b1258daaa5e2ca24d17e2393\nsize 12345\n';
+	const path = 'me/repo/main/model.bin';
+	serveFixtures({
+		[`https://raw.githubusercontent.com/${path}`]: {
+			statusText: 'OK',
+			headers: {'content-length': String(pointer.length)},
+			body: pointer,
+		},
+		[`https://media.githubusercontent.com/media/${path}`]: {
+			status: 502,
+			statusText: 'Bad Gateway',
+		},
+	});
+	await expect(createGithubProvider().fetchFile({user: 'me', repository: 'repo'}, {
+		reference: 'main',
+		file: {path: 'model.bin'},
+		isPrivate: false,
+		signal: controller.signal,
+	})).rejects.toThrow('HTTP Bad Gateway for model.bin');
+});
+
+test('fetchFile requests private files as raw bytes', async () => {
+	const requests = serveFixtures(githubEnterprise);
+	const blob = await provider.fetchFile({user: 'platform', repository: 'tools'}, {
+		reference: 'main',
+		file: {
+			path: 'scripts/deploy.sh',
+			sha: '6b2e3f9a0d1c4b5e6f7a8b9c0d1e2f3a4b5c6d7e',
+			url: 'https://github.corp.example/api/v3/repos/platform/tools/git/blobs/6b2e3f9a0d1c4b5e6f7a8b9c0d1e2f3a4b5c6d7e',
+		},
+		isPrivate: true,
+		signal: controller.signal,
+	});
+	await expect(blob.text()).resolves.toBe('#!/bin/sh\n');
+	expect(requests.map(request => request.headers.get('accept'))).toEqual(['application/vnd.github.raw']);
+});
+
+test('fetchFile falls back to the blobs API when the contents API refuses a private file', async () => {
+	const requests = serveFixtures(githubEnterprise);
+	const blob = await provider.fetchFile({user: 'platform', repository: 'tools'}, {
+		reference: 'main',
+		file: {path: 'assets/dataset.csv', sha: 'a1b2c3d4e5f60718293a4b5c6d7e8f9012345678'},
+		isPrivate: true,
+		signal: controller.signal,
+	});
+	await expect(blob.text()).resolves.toBe('id,value\n1,2\n');
+	expect(requests.map(request => request.url)).toEqual([
+		'https://github.corp.example/api/v3/repos/platform/tools/contents/assets/dataset.csv?ref=main',
+		'https://github.corp.example/api/v3/repos/platform/tools/git/blobs/a1b2c3d4e5f60718293a4b5c6d7e8f9012345678',
+	]);
+});
+
+test('compare', async () => {
+	serveFixtures(githubEnterprise);
+	await expect(provider.compare!({user: 'platform', repository: 'tools'}, {base: 'v1.0', head: 'main'})).resolves.toEqual([
+		{path: 'scripts/deploy.sh', sha: '6b2e3f9a0d1c4b5e6f7a8b9c0d1e2f3a4b5c6d7e', status: 'modified'},
+		{path: 'readme.md', sha: '7c3f4a0b1e2d5c6f7a8b9c0d1e2f3a4b5c6d7e8f', status: 'renamed', previousPath: 'README'},
+		{path: 'scripts/build.sh', status: 'removed'},
+	]);
+});
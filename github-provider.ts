@@ -0,0 +1,304 @@
+import authenticatedFetch from './authenticated-fetch.js';
+import {
+	type ChangedFile,
+	type Provider,
+	type ProviderFile,
+	type RepositoryReference,
+	type RequestOptions,
+	getPathSegments,
+} from './provider.js';
+
+type GithubTreeItem = {
+	path: string;
+	mode: string;
+	type: 'blob' | 'tree' | 'commit';
+	size?: number;
+	sha: string;
+	url: string;
+};
+
+type GithubContentsItem = {
+	path: string;
+	type: 'file' | 'dir' | 'symlink' | 'submodule';
+	size: number;
+	sha: string;
+	url: string;
+};
+
+type GithubComparisonFile = {
+	filename: string;
+	previous_filename?: string;
+	status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+	sha: string;
+};
+
+type FileRequest = RepositoryReference & RequestOptions & {
+	reference: string;
+	file: ProviderFile;
+	signal: AbortSignal;
+};
+
+export type GithubProviderOptions = {
+	hostname?: string;
+	/** Defaults to `https://api.github.com` on github.com and `https://<hostname>/api/v3` on GitHub Enterprise Server */
+	apiBase?: string;
+	/** Defaults to `https://raw.githubusercontent.com` on github.com and `https://<hostname>/raw` on GitHub Enterprise Server */
+	rawBase?: string;
+};
+
+function escapeFilepath(path: string) {
+	return path.replaceAll('#', '%23');
+}
+
+async function maybeResponseLfs(response: Response): Promise<boolean> {
+	const length = Number(response.headers.get('content-length'));
+	if (length > 128 && length < 140) {
+		const contents = await response.clone().text();
+		return contents.startsWith('version https://git-lfs.github.com/spec/v1');
+	}
+
+	return false;
+}
+
+const comparisonStatuses: Partial<Record<GithubComparisonFile['status'], ChangedFile['status']>> = {
+	added: 'added',
+	copied: 'added',
+	removed: 'removed',
+	modified: 'modified',
+	changed: 'modified',
+	renamed: 'renamed',
+};
+
+// Served by the contents and blobs APIs, see https://docs.github.com/en/rest/using-the-rest-api/media-types
+const rawMediaType = 'application/vnd.github.raw';
+
+// The API stops listing files after 3000 of them
+const maxComparisonPages = 30;
+
+function trimTrailingSlash(url: string): string {
+	return url.replace(/\/+$/, '');
+}
+
+export function createGithubProvider({
+	hostname = 'github.com',
+	apiBase,
+	rawBase,
+}: GithubProviderOptions = {}): Provider {
+	const isDotcom = hostname === 'github.com';
+	const api = trimTrailingSlash(apiBase ?? (isDotcom ? 'https://api.github.com' : `https://${hostname}/api/v3`));
+	const raw = trimTrailingSlash(rawBase ?? (isDotcom ? 'https://raw.githubusercontent.com' : `https://${hostname}/raw`));
+	const rawUrl = new URL(raw);
+	const rawPrefix = getPathSegments(rawUrl);
+
+	// Only github.com serves LFS objects from a separate host
+	const mediaBase = isDotcom ? 'https://media.githubusercontent.com/media' : undefined;
+
+	const getRepositoryUrl = ({user, repository}: RepositoryReference) => `${api}/repos/${user}/${repository}`;
+
+	const getLfsMediaUrl = ({user, repository}: RepositoryReference, reference: string, path: string) =>
+		`${mediaBase}/${user}/${repository}/${reference}/${escapeFilepath(path)}`;
+
+	const getContentsApiUrl = (repository: RepositoryReference, reference: string, path: string) =>
+		`${getRepositoryUrl(repository)}/contents/${escapeFilepath(path)}?ref=${reference}`;
+
+	const isRawUrl = (url: URL) => url.hostname === rawUrl.hostname
+		&& rawPrefix.every((segment, index) => getPathSegments(url)[index] === segment);
+
+	const fetchPublicFile = async ({user, repository, reference, file, signal, tokenProfile}: FileRequest) => {
+		const response = await authenticatedFetch(
+			`${raw}/${user}/${repository}/${reference}/${escapeFilepath(file.path)}`,
+			{signal, tokenProfile},
+		);
+
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.statusText} for ${file.path}`);
+		}
+
+		const lfsCompatibleResponse = mediaBase && (await maybeResponseLfs(response))
+			? await authenticatedFetch(getLfsMediaUrl({user, repository}, reference, file.path), {signal, tokenProfile})
+			: response;
+
+		if (!lfsCompatibleResponse.ok) {
+			throw new Error(`HTTP ${lfsCompatibleResponse.statusText} for ${file.path}`);
+		}
+
+		return lfsCompatibleResponse.blob();
+	};
+
+	const fetchPrivateFile = async ({user, repository, reference, file, signal, tokenProfile}: FileRequest) => {
+		// The JSON responses only carry base64 content up to 1 MB, the raw media type streams any size
+		const url = file.url ?? getContentsApiUrl({user, repository}, reference, file.path);
+		const response = await authenticatedFetch(url, {signal, tokenProfile, accept: rawMediaType});
+		if (response.ok) {
+			return response.blob();
+		}
+
+		// The contents API refuses files over 100 MB, the blobs API only needs the SHA
+		const blobUrl = file.sha && `${getRepositoryUrl({user, repository})}/git/blobs/${file.sha}`;
+		if (response.status !== 404 && blobUrl && blobUrl !== url) {
+			const blobResponse = await authenticatedFetch(blobUrl, {signal, tokenProfile, accept: rawMediaType});
+			if (blobResponse.ok) {
+				return blobResponse.blob();
+			}
+		}
+
+		throw new Error(`HTTP ${response.statusText} for ${file.path}`);
+	};
+
+	// Great for downloads with few subdirectories on big repositories, but it's one request per directory
+	const listFilesViaContentsApi = async (repository: RepositoryReference, reference: string, directory: string, options: RequestOptions & {signal?: AbortSignal}): Promise<ProviderFile[]> => {
+		const response = await authenticatedFetch(getContentsApiUrl(repository, reference, directory), options);
+		if (response.status === 404) {
+			return [];
+		}
+
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status} while listing files`);
+		}
+
+		const files: ProviderFile[] = [];
+		const subdirectories: Array<Promise<ProviderFile[]>> = [];
+		for (const item of await response.json() as GithubContentsItem[]) {
+			switch (item.type) {
+				case 'file': {
+					files.push({
+						path: item.path,
+						size: item.size,
+						sha: item.sha,
+						url: item.url,
+					});
+					break;
+				}
+
+				case 'submodule': {
+					files.push({path: item.path, sha: item.sha, mode: '160000'});
+					break;
+				}
+
+				case 'dir': {
+					subdirectories.push(listFilesViaContentsApi(repository, reference, item.path, options));
+					break;
+				}
+
+				default: {
+					break;
+				}
+			}
+		}
+
+		const nestedFiles = await Promise.all(subdirectories);
+		return [...files, ...nestedFiles.flat()];
+	};
+
+	// A single request, but the tree is truncated on huge repositories
+	const listFilesViaTreesApi = async (repository: RepositoryReference, reference: string, directory: string, options: RequestOptions & {signal?: AbortSignal}) => {
+		const response = await authenticatedFetch(`${getRepositoryUrl(repository)}/git/trees/${reference}?recursive=1`, options);
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status} while listing files`);
+		}
+
+		const {tree, truncated} = await response.json() as {tree: GithubTreeItem[]; truncated: boolean};
+		const prefix = directory ? `${directory}/` : '';
+		const files: ProviderFile[] = tree
+			.filter(item => item.type !== 'tree' && item.path.startsWith(prefix))
+			.map(({path, size, sha, mode, url}) => ({
+				path, size, sha, mode, url,
+			}));
+		return {files, truncated};
+	};
+
+	return {
+		name: isDotcom ? 'GitHub' : hostname,
+		hostname,
+		parseUrl(url) {
+			const segments = getPathSegments(url);
+
+			// Raw URLs have no type segment: /user/repo/reference/path
+			const [user, repository, type, ...parts] = isRawUrl(url)
+				? [...segments.slice(rawPrefix.length, rawPrefix.length + 2), 'blob', ...segments.slice(rawPrefix.length + 2)]
+				: segments;
+
+			if (!user || !repository) {
+				return {error: 'NOT_A_REPOSITORY'};
+			}
+
+			if (type === undefined) {
+				return {user, repository, parts};
+			}
+
+			if (type !== 'tree' && type !== 'blob' && type !== 'compare') {
+				return {error: 'NOT_A_DIRECTORY'};
+			}
+
+			return {user, repository, type, parts};
+		},
+		async getRepository(repository, {tokenProfile} = {}) {
+			const response = await authenticatedFetch(getRepositoryUrl(repository), {tokenProfile});
+			// Fine-grained tokens get a 403 for repositories they weren't granted
+			if (response.status === 404 || response.status === 403) {
+				return;
+			}
+
+			const {private: isPrivate, default_branch: defaultBranch} = await response.json() as {private: boolean; default_branch: string};
+			return {isPrivate, defaultBranch};
+		},
+		async resolveReference(repository, reference, {tokenProfile} = {}) {
+			// This media type returns just the SHA instead of the whole commit and its diff
+			const response = await authenticatedFetch(`${getRepositoryUrl(repository)}/commits/${reference}`, {tokenProfile, accept: 'application/vnd.github.sha'});
+			return response.ok ? response.text() : undefined;
+		},
+		getArchiveUrl(repository, reference, format = 'zip') {
+			const type = format === 'tar.gz' ? 'tarball' : 'zipball';
+			return `${getRepositoryUrl(repository)}/${type}${reference ? `/${reference}` : ''}`;
+		},
+		getLfsMediaUrl: mediaBase ? getLfsMediaUrl : undefined,
+		async listFiles(repository, {reference, directory, signal, tokenProfile}) {
+			const {files, truncated} = await listFilesViaTreesApi(repository, reference, directory, {signal, tokenProfile});
+			if (!truncated) {
+				return files;
+			}
+
+			return listFilesViaContentsApi(repository, reference, directory, {signal, tokenProfile});
+		},
+		async fetchFile({user, repository}, {reference, file, isPrivate, signal, tokenProfile}) {
+			const fileRequest = {
+				user, repository, reference, file, signal, tokenProfile,
+			};
+			return isPrivate
+				? fetchPrivateFile(fileRequest)
+				: fetchPublicFile(fileRequest);
+		},
+		async compare(repository, {base, head, signal, tokenProfile}) {
+			const files = new Map<string, ChangedFile>();
+			for (let page = 1; page <= maxComparisonPages; page++) {
+				// eslint-disable-next-line no-await-in-loop -- Pages are fetched until one comes back short
+				const response = await authenticatedFetch(`${getRepositoryUrl(repository)}/compare/${base}...${head}?per_page=100&page=${page}`, {signal, tokenProfile});
+				if (!response.ok) {
+					throw new Error(`HTTP ${response.status} while comparing ${base} and ${head}`);
+				}
+
+				// eslint-disable-next-line no-await-in-loop -- Pages are fetched until one comes back short
+				const {files: pageFiles = []} = await response.json() as {files?: GithubComparisonFile[]};
+				const {size} = files;
+				for (const file of pageFiles) {
+					const status = comparisonStatuses[file.status];
+					if (status) {
+						files.set(file.filename, {
+							path: file.filename,
+							sha: status === 'removed' ? undefined : file.sha,
+							status,
+							previousPath: file.previous_filename,
+						});
+					}
+				}
+
+				// Older servers return the same files on every page
+				if (pageFiles.length < 100 || files.size === size) {
+					break;
+				}
+			}
+
+			return [...files.values()];
+		},
+	};
+}
@@ -0,0 +1,120 @@
+import {useEffect, useRef, useState} from 'react';
+import {
+	type DeviceCode,
+	type OauthSession,
+	type OauthSettings,
+	getRevokeUrl,
+	pollForToken,
+	requestDeviceCode,
+} from './github-oauth.js';
+
+type GithubSignInProps = {
+	settings: OauthSettings | undefined;
+	isSignedIn: boolean;
+	disabled: boolean;
+	onSettingsChange: (settings: OauthSettings | undefined) => void;
+	onSignIn: (session: OauthSession) => void;
+	onSignOut: () => void;
+	onStatus: (message: string) => void;
+};
+
+/** The OAuth device flow: shows the code to enter on GitHub and waits for the user to approve it */
+export default function GithubSignIn({settings, isSignedIn, disabled, onSettingsChange, onSignIn, onSignOut, onStatus}: GithubSignInProps) {
+	const [deviceCode, setDeviceCode] = useState<DeviceCode | undefined>();
+	const [clientIdText, setClientIdText] = useState(settings?.clientId ?? '');
+	const [baseText, setBaseText] = useState(settings?.base ?? '');
+	const controllerRef = useRef<AbortController | undefined>(undefined);
+
+	useEffect(() => () => controllerRef.current?.abort(), []);
+
+	const saveSettings = () => {
+		const clientId = clientIdText.trim();
+		const base = baseText.trim() || undefined;
+		if (base && !/^https?:\/\/[^/]+/.test(base)) {
+			onStatus('The sign-in endpoint must be a full URL, like https://github.com.');
+			return;
+		}
+
+		onSettingsChange(clientId ? {clientId, base} : undefined);
+	};
+
+	const signIn = async () => {
+		if (!settings) {
+			return;
+		}
+
+		const controller = new AbortController();
+		controllerRef.current = controller;
+		try {
+			const code = await requestDeviceCode(settings, {signal: controller.signal});
+			setDeviceCode(code);
+			onSignIn(await pollForToken(settings, code, controller.signal));
+		} catch (error) {
+			if (!controller.signal.aborted) {
+				onStatus(`Sign-in failed: ${error instanceof Error ? error.message : String(error)}.`);
+			}
+		} finally {
+			setDeviceCode(undefined);
+			controllerRef.current = undefined;
+		}
+	};
+
+	let status;
+	if (deviceCode) {
+		status = (
+			<>
+				<p>
+					Enter <strong className="user-code">{deviceCode.userCode}</strong> at{' '}
+					<a href={deviceCode.verificationUri} target="_blank" rel="noreferrer">{deviceCode.verificationUri}</a>.
+					Waiting for approval…
+				</p>
+				<button type="button" className="btn btn-ghost" onClick={() => controllerRef.current?.abort()}>Cancel sign-in</button>
+			</>
+		);
+	} else if (isSignedIn) {
+		status = (
+			<>
+				<p className="hint">
+					Signed in with GitHub.
+					{settings ? <> <a href={getRevokeUrl(settings)} target="_blank" rel="noreferrer">Revoke access</a></> : null}
+				</p>
+				<button type="button" className="btn btn-ghost" onClick={onSignOut} disabled={disabled}>Sign out</button>
+			</>
+		);
+	} else {
+		status = <button type="button" className="btn btn-soft" onClick={signIn} disabled={disabled || !settings}>Sign in with GitHub</button>;
+	}
+
+	return (
+		<>
+			<div className="sign-in">{status}</div>
+			<label htmlFor="oauth-client-id">OAuth client ID</label>
+			<div className="input-row">
+				<input
+					id="oauth-client-id"
+					name="oauth-client-id"
+					type="text"
+					placeholder="Iv1.0123456789abcdef"
+					autoComplete="off"
+					value={clientIdText}
+					onChange={event => setClientIdText(event.target.value)}
+					disabled={disabled}
+				/>
+				<button type="button" onClick={saveSettings} disabled={disabled}>Save</button>
+			</div>
+			<label htmlFor="oauth-base">Sign-in endpoint (optional)</label>
+			<input
+				id="oauth-base"
+				name="oauth-base"
+				type="url"
+				placeholder="https://github.com"
+				value={baseText}
+				onChange={event => setBaseText(event.target.value)}
+				disabled={disabled}
+			/>
+			<p className="hint">
+				Sign-in needs an OAuth or GitHub App with the device flow enabled. GitHub doesn&apos;t allow these requests from browsers, so point the endpoint to a proxy that adds CORS headers.
+			</p>
+		</>
+	);
+}
@@ -0,0 +1,112 @@
+import {afterEach, expect, test, vi} from 'vitest';
+import gitlab from './fixtures/gitlab.js';
+import serveFixtures from './fixtures/serve-fixtures.js';
+import {createGitlabProvider} from './gitlab-provider.js';
+import getRepositoryInfo from './repository-info.js';
+
+const provider = createGitlabProvider();
+const controller = new AbortController();
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+test('parseUrl', () => {
+	expect(provider.parseUrl(new URL('https://gitlab.com/gitlab-org/cli/-/tree/main/docs'))).toEqual({
+		user: 'gitlab-org',
+		repository: 'cli',
+		type: 'tree',
+		parts: ['main', 'docs'],
+	});
+	expect(provider.parseUrl(new URL('https://gitlab.com/gitlab-org/security/cli/-/raw/main/readme.md'))).toEqual({
+		user: 'gitlab-org/security',
+		repository: 'cli',
+		type: 'blob',
+		parts: ['main', 'readme.md'],
+	});
+	expect(provider.parseUrl(new URL('https://gitlab.com/gitlab-org/cli'))).toEqual({user: 'gitlab-org', repository: 'cli', parts: []});
+	expect(provider.parseUrl(new URL('https://gitlab.com/gitlab-org/cli/-/issues/1'))).toEqual({error: 'NOT_A_DIRECTORY'});
+	expect(provider.parseUrl(new URL('https://gitlab.com/gitlab-org'))).toEqual({error: 'NOT_A_REPOSITORY'});
+});
+
+test('getRepositoryInfo', async () => {
+	serveFixtures(gitlab);
+	await expect(getRepositoryInfo('https://gitlab.com/gitlab-org/cli/-/tree/main/docs')).resolves.toEqual({
+		user: 'gitlab-org',
+		repository: 'cli',
+		gitReference: 'main',
+		commit: '3d3bd0ba4ee0fde06fb1a5ee8b4a8b8e5c36c5f0',
+		directory: 'docs',
+		isPrivate: false,
+	});
+	await expect(getRepositoryInfo('https://gitlab.com/gitlab-org/cli/-/blob/main/docs/index.md')).resolves.toEqual({
+		user: 'gitlab-org',
+		repository: 'cli',
+		gitReference: 'main',
+		commit: '3d3bd0ba4ee0fde06fb1a5ee8b4a8b8e5c36c5f0',
+		directory: 'docs',
+		filePath: 'docs/index.md',
+		isPrivate: false,
+	});
+	await expect(getRepositoryInfo('https://gitlab.com/gitlab-org/cli')).resolves.toEqual({
+		user: 'gitlab-org',
+		repository: 'cli',
+		commit: '3d3bd0ba4ee0fde06fb1a5ee8b4a8b8e5c36c5f0',
+		directory: '',
+		isPrivate: false,
+		downloadUrl: 'https://gitlab.com/api/v4/projects/gitlab-org%2Fcli/repository/archive.zip?sha=3d3bd0ba4ee0fde06fb1a5ee8b4a8b8e5c36c5f0',
+	});
+	await expect(getRepositoryInfo('https://gitlab.com/gitlab-org/security/cli/-/tree/main')).resolves.toMatchObject({
+		isPrivate: true,
+		commit: '9a8b7c6d5e4f3a2b1c0d9e8f7a6b5c4d3e2f1a0b',
+	});
+	await expect(getRepositoryInfo('https://gitlab.com/gitlab-org/cli/-/compare/v1.0...main')).resolves.toEqual({
+		user: 'gitlab-org',
+		repository: 'cli',
+		gitReference: 'main',
+		commit: '3d3bd0ba4ee0fde06fb1a5ee8b4a8b8e5c36c5f0',
+		directory: '',
+		isPrivate: false,
+		baseReference: 'v1.0',
+		baseCommit: '1a2b3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d',
+	});
+	await expect(getRepositoryInfo('https://gitlab.com/gitlab-org/cli/-/compare/main')).resolves.toEqual({error: 'INVALID_COMPARISON'});
+	await expect(getRepositoryInfo('https://gitlab.com/gitlab-org/cli/-/tree/missing/docs')).resolves.toEqual({error: 'BRANCH_NOT_FOUND'});
+	await expect(getRepositoryInfo('https://gitlab.com/gitlab-org/missing/-/tree/main')).resolves.toEqual({error: 'REPOSITORY_NOT_FOUND'});
+});
+
+test('listFiles follows pagination and skips directories', async () => {
+	serveFixtures(gitlab);
+	await expect(provider.listFiles({user: 'gitlab-org', repository: 'cli'}, {reference: 'main', directory: 'docs'})).resolves.toEqual([
+		{path: 'docs/index.md', sha: '6f1e8d2c4b5a69788d0e1f2a3b4c5d6e7f8091a2', mode: '100644'},
+		{path: 'docs/source/gen.sh', sha: 'c0ffee0b4b5a69788d0e1f2a3b4c5d6e7f8091a2', mode: '100755'},
+	]);
+});
+
+test('fetchFile', async () => {
+	serveFixtures(gitlab);
+	const blob = await provider.fetchFile({user: 'gitlab-org', repository: 'cli'}, {
+		reference: 'main',
+		file: {path: 'docs/index.md'},
+		isPrivate: false,
+		signal: controller.signal,
+	});
+	await expect(blob.text()).resolves.toBe('# GitLab CLI\n');
+});
+
+test('compare', async () => {
+	serveFixtures(gitlab);
+	await expect(provider.compare!({user: 'gitlab-org', repository: 'cli'}, {
+		base: '1a2b3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d',
+		head: '3d3bd0ba4ee0fde06fb1a5ee8b4a8b8e5c36c5f0',
+	})).resolves.toEqual([
+		{path: 'docs/index.md', mode: '100644', status: 'modified'},
+		{path: 'docs/source/gen.sh', mode: '100755', status: 'renamed', previousPath: 'docs/gen.sh'},
+		{path: 'docs/install.md', status: 'removed'},
+	]);
+});
+
+test('getArchiveUrl', () => {
+	expect(provider.getArchiveUrl({user: 'gitlab-org', repository: 'cli'}, 'v1.0', 'tar.gz'))
+		.toBe('https://gitlab.com/api/v4/projects/gitlab-org%2Fcli/repository/archive.tar.gz?sha=v1.0');
+});
@@ -0,0 +1,167 @@
+import authenticatedFetch from './authenticated-fetch.js';
+import {
+	type ChangedFile,
+	type Provider,
+	type ProviderFile,
+	type RepositoryReference,
+	getPathSegments,
+} from './provider.js';
+
+type GitlabTreeItem = {
+	id: string;
+	name: string;
+	type: 'blob' | 'tree' | 'commit';
+	path: string;
+	mode: string;
+};
+
+type GitlabDiff = {
+	old_path: string;
+	new_path: string;
+	b_mode: string;
+	new_file: boolean;
+	renamed_file: boolean;
+	deleted_file: boolean;
+};
+
+function getDiffStatus(diff: GitlabDiff): ChangedFile['status'] {
+	if (diff.new_file) {
+		return 'added';
+	}
+
+	if (diff.deleted_file) {
+		return 'removed';
+	}
+
+	return diff.renamed_file ? 'renamed' : 'modified';
+}
+
+export function createGitlabProvider(hostname = 'gitlab.com'): Provider {
+	const apiBase = `https://${hostname}/api/v4`;
+	const getProjectUrl = ({user, repository}: RepositoryReference) =>
+		`${apiBase}/projects/${encodeURIComponent(`${user}/${repository}`)}`;
+
+	return {
+		name: 'GitLab',
+		hostname,
+		parseUrl(url) {
+			// Projects can be nested in subgroups, so `/-/` is what separates the project from the rest
+			const segments = getPathSegments(url);
+			const separator = segments.indexOf('-');
+			const namespace = separator === -1 ? segments : segments.slice(0, separator);
+			if (namespace.length < 2) {
+				return {error: 'NOT_A_REPOSITORY'};
+			}
+
+			const user = namespace.slice(0, -1).join('/');
+			const repository = namespace.at(-1)!;
+			const [type, ...parts] = separator === -1 ? [] : segments.slice(separator + 1);
+			switch (type) {
+				case undefined: {
+					return {user, repository, parts: []};
+				}
+
+				case 'tree':
+				case 'blob':
+				case 'compare': {
+					return {user, repository, type, parts};
+				}
+
+				case 'raw': {
+					return {user, repository, type: 'blob', parts};
+				}
+
+				default: {
+					return {error: 'NOT_A_DIRECTORY'};
+				}
+			}
+		},
+		async getRepository(repository, {tokenProfile} = {}) {
+			const response = await authenticatedFetch(getProjectUrl(repository), {tokenProfile});
+			if (response.status === 404) {
+				return;
+			}
+
+			const {visibility, default_branch: defaultBranch} = await response.json() as {visibility: 'public' | 'internal' | 'private'; default_branch: string};
+			return {isPrivate: visibility !== 'public', defaultBranch};
+		},
+		async resolveReference(repository, reference, {tokenProfile} = {}) {
+			const response = await authenticatedFetch(`${getProjectUrl(repository)}/repository/commits/${encodeURIComponent(reference)}`, {tokenProfile});
+			if (!response.ok) {
+				return;
+			}
+
+			const {id} = await response.json() as {id: string};
+			return id;
+		},
+		getArchiveUrl(repository, reference, format = 'zip') {
+			const query = reference ? `?sha=${encodeURIComponent(reference)}` : '';
+			return `${getProjectUrl(repository)}/repository/archive.${format}${query}`;
+		},
+		async listFiles(repository, {reference, directory, signal, tokenProfile}) {
+			const files: ProviderFile[] = [];
+			let page = '1';
+			while (page) {
+				const query = new URLSearchParams({
+					ref: reference,
+					path: directory,
+					recursive: 'true',
+					// eslint-disable-next-line @typescript-eslint/naming-convention
+					per_page: '100',
+					page,
+				});
+				// eslint-disable-next-line no-await-in-loop -- Each page says where the next one is
+				const response = await authenticatedFetch(`${getProjectUrl(repository)}/repository/tree?${query.toString()}`, {signal, tokenProfile});
+				if (response.status === 404) {
+					return [];
+				}
+
+				if (!response.ok) {
+					throw new Error(`HTTP ${response.status} while listing files`);
+				}
+
+				// eslint-disable-next-line no-await-in-loop -- Each page says where the next one is
+				const items = await response.json() as GitlabTreeItem[];
+				for (const item of items) {
+					if (item.type !== 'tree') {
+						files.push({path: item.path, sha: item.id, mode: item.mode});
+					}
+				}
+
+				page = response.headers.get('x-next-page') ?? '';
+			}
+
+			return files;
+		},
+		async fetchFile(repository, {reference, file, signal, tokenProfile}) {
+			const response = await authenticatedFetch(
+				`${getProjectUrl(repository)}/repository/files/${encodeURIComponent(file.path)}/raw?ref=${encodeURIComponent(reference)}&lfs=true`,
+				{signal, tokenProfile},
+			);
+
+			if (!response.ok) {
+				throw new Error(`HTTP ${response.statusText} for ${file.path}`);
+			}
+
+			return response.blob();
+		},
+		async compare(repository, {base, head, signal, tokenProfile}) {
+			const query = new URLSearchParams({from: base, to: head});
+			const response = await authenticatedFetch(`${getProjectUrl(repository)}/repository/compare?${query.toString()}`, {signal, tokenProfile});
+			if (!response.ok) {
+				throw new Error(`HTTP ${response.status} while comparing ${base} and ${head}`);
+			}
+
+			const {diffs} = await response.json() as {diffs: GitlabDiff[]};
+			return diffs.map(diff => {
+				const status = getDiffStatus(diff);
+				return {
+					path: status === 'removed' ? diff.old_path : diff.new_path,
+					mode: status === 'removed' ? undefined : diff.b_mode,
+					status,
+					previousPath: status === 'renamed' ? diff.old_path : undefined,
+				};
+			});
+		},
+	};
+}
@@ -0,0 +1,80 @@
+export type ProviderType = 'github' | 'gitlab' | 'bitbucket' | 'gitea';
+
+export type HostConfig = {
+	hostname: string;
+	type: ProviderType;
+	/** Only used by GitHub Enterprise Server hosts, like `https://github.example.com/api/v3` */
+	apiBase?: string;
+	/** Only used by GitHub Enterprise Server hosts, like `https://github.example.com/raw` */
+	rawBase?: string;
+	/** Sent to every request to this host, including its API and raw hosts */
+	token?: string;
+};
+
+export const providerTypes: Record<ProviderType, string> = {
+	github: 'GitHub Enterprise Server',
+	gitlab: 'GitLab',
+	bitbucket: 'Bitbucket Cloud',
+	gitea: 'Gitea / Forgejo',
+};
+
+const hostsStorageKey = 'hosts';
+
+export const builtInHosts: HostConfig[] = [
+	{
+		hostname: 'github.com',
+		type: 'github',
+		apiBase: 'https://api.github.com',
+		rawBase: 'https://raw.githubusercontent.com',
+	},
+	{hostname: 'gitlab.com', type: 'gitlab'},
+	{hostname: 'bitbucket.org', type: 'bitbucket'},
+	{hostname: 'codeberg.org', type: 'gitea'},
+	{hostname: 'gitea.com', type: 'gitea'},
+];
+
+export function normalizeHostname(hostname: string): string {
+	return hostname.trim().toLowerCase().replace(/^www\./, '');
+}
+
+function isHostConfig(value: unknown): value is HostConfig {
+	if (typeof value !== 'object' || value === null) {
+		return false;
+	}
+
+	const {hostname, type} = value as Partial<HostConfig>;
+	return typeof hostname === 'string' && typeof type === 'string' && Object.hasOwn(providerTypes, type);
+}
+
+/** Self-hosted instances added by the user */
+export function getHostConfigs(): HostConfig[] {
+	const stored = globalThis.localStorage?.getItem(hostsStorageKey);
+	if (!stored) {
+		return [];
+	}
+
+	try {
+		const parsed = JSON.parse(stored) as unknown;
+		return Array.isArray(parsed) ? parsed.filter(host => isHostConfig(host)) : [];
+	} catch {
+		return [];
+	}
+}
+
+export function saveHostConfigs(hosts: HostConfig[]): void {
+	if (hosts.length === 0) {
+		globalThis.localStorage?.removeItem(hostsStorageKey);
+	} else {
+		globalThis.localStorage?.setItem(hostsStorageKey, JSON.stringify(hosts));
+	}
+}
+
+function getHostnames({hostname, apiBase, rawBase}: HostConfig): string[] {
+	return [hostname, ...[apiBase, rawBase].filter(Boolean).map(base => new URL(base!).hostname)];
+}
+
+/** Finds the host that serves the URL, either as its web, API or raw host */
+export function findHostConfig(url: URL): HostConfig | undefined {
+	const hostname = normalizeHostname(url.hostname);
+	return [...getHostConfigs(), ...builtInHosts].find(host => getHostnames(host).includes(hostname));
+}
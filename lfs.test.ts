@@ -0,0 +1,120 @@
+import {afterEach, expect, test, vi} from 'vitest';
+import {downloadFile} from './download.js';
+import serveFixtures, {type Fixture} from './fixtures/serve-fixtures.js';
+import {createLfsPointer, getLfsOid} from './git-blob.js';
+import {createGithubProvider} from './github-provider.js';
+import {fetchLfsObject, getLfsUrl, parseLfsPointer} from './lfs.js';
+
+const content = 'large binary content';
+const lfsUrl = getLfsUrl('github.com', {user: 'user', repository: 'private'});
+const objectUrl = 'https://objects.example.com/lfs/object?signature=abc';
+
+async function createFixtures(objectBody = content): Promise<{oid: string; fixtures: Record<string, Fixture>}> {
+	const oid = await getLfsOid(new Blob([content]));
+	return {
+		oid,
+		fixtures: {
+			[`${lfsUrl}/objects/batch`]: {
+				body: {
+					objects: [{oid, size: content.length, actions: {download: {href: objectUrl, header: {'X-Signature': 'abc'}}}}],
+				},
+			},
+			[objectUrl]: {body: objectBody},
+		},
+	};
+}
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+test('parseLfsPointer', () => {
+	const oid = '5ab2b4e1f8d3a3d5cbd3cb4a4f4c0c9dd1d1ce6b8e6ac7e6c3f1b5d1c6f3a9d0';
+	expect(parseLfsPointer(createLfsPointer(oid, 1234))).toEqual({oid, size: 1234});
+	expect(parseLfsPointer(`version https://git-lfs.github.com/spec/v1\next-0-foo 1\noid sha256:${oid}\nsize 5\n`)).toEqual({oid, size: 5});
+	expect(parseLfsPointer('version https://git-lfs.github.com/spec/v1\noid sha256:abc\nsize 5\n')).toBeUndefined();
+	expect(parseLfsPointer('# Readme\n')).toBeUndefined();
+});
+
+test('downloadFile resolves pointers through the batch API and checks the object', async () => {
+	const {oid, fixtures} = await createFixtures();
+	const requests = serveFixtures(fixtures);
+	const provider = {...createGithubProvider(), fetchFile: async () => new Blob([createLfsPointer(oid, content.length)])};
+	const blob = await downloadFile({
+		user: 'user',
+		repository: 'private',
+		reference: 'main',
+		file: {path: 'assets/model.bin'},
+		isPrivate: true,
+		signal: new AbortController().signal,
+		provider,
+	});
+	await expect(blob.text()).resolves.toBe(content);
+
+	const [batch, object] = requests;
+	expect(batch!.method).toBe('POST');
+	expect(batch!.headers.get('content-type')).toBe('application/vnd.git-lfs+json');
+	await expect(batch!.json()).resolves.toEqual({operation: 'download', transfers: ['basic'], objects: [{oid, size: content.length}]});
+	expect(object!.headers.get('x-signature')).toBe('abc');
+	expect(object!.headers.get('authorization')).toBeNull();
+});
+
+test('downloadFile reports LFS objects that do not match their pointer', async () => {
+	const {oid, fixtures} = await createFixtures('tampered binary data');
+	serveFixtures(fixtures);
+	const provider = {...createGithubProvider(), fetchFile: async () => new Blob([createLfsPointer(oid, content.length)])};
+	await expect(downloadFile({
+		user: 'user',
+		repository: 'private',
+		reference: 'main',
+		file: {path: 'assets/model.bin'},
+		isPrivate: true,
+		signal: new AbortController().signal,
+		provider,
+		verify: false,
+	})).rejects.toThrow('Checksum mismatch for assets/model.bin');
+});
+
+test('fetchLfsObject reports missing objects and exhausted quotas', async () => {
+	const pointer = {oid: await getLfsOid(new Blob([content])), size: content.length};
+	const options = {url: lfsUrl, path: 'assets/model.bin'};
+	serveFixtures({
+		[`${lfsUrl}/objects/batch`]: {
+			body: {objects: [{...pointer, error: {code: 404, message: 'Object does not exist'}}]},
+		},
+	});
+	await expect(fetchLfsObject(pointer, options)).rejects.toThrow('LFS object missing for assets/model.bin');
+
+	serveFixtures({
+		[`${lfsUrl}/objects/batch`]: {
+			status: 403,
+			body: {message: 'This repository is over its data quota. Account responsible for LFS bandwidth should purchase more data packs to restore access.'},
+		},
+	});
+	await expect(fetchLfsObject(pointer, options)).rejects.toThrow('LFS quota exceeded for assets/model.bin');
+
+	serveFixtures({[`${lfsUrl}/objects/batch`]: {status: 509}});
+	await expect(fetchLfsObject(pointer, options)).rejects.toThrow('LFS quota exceeded');
+});
+
+test('fetchLfsObject downloads from the media host when the batch API is blocked', async () => {
+	const pointer = {oid: await getLfsOid(new Blob([content])), size: content.length};
+	const mediaUrl = createGithubProvider().getLfsMediaUrl!({user: 'user', repository: 'private'}, 'main', 'assets/model.bin');
+	expect(mediaUrl).toBe('https://media.githubusercontent.com/media/user/private/main/assets/model.bin');
+
+	const requests = serveFixtures({[mediaUrl]: {body: content}});
+	const served = globalThis.fetch;
+	// What a browser does when github.com answers the preflight without CORS headers
+	vi.stubGlobal('fetch', async (url: string, init?: RequestInit) => {
+		if (url.endsWith('/objects/batch')) {
+			throw new TypeError('Failed to fetch');
+		}
+
+		return served(url, init);
+	});
+
+	const blob = await fetchLfsObject(pointer, {url: lfsUrl, mediaUrl, path: 'assets/model.bin'});
+	await expect(blob.text()).resolves.toBe(content);
+	expect(requests.map(request => request.url)).toEqual([mediaUrl]);
+	await expect(fetchLfsObject(pointer, {url: lfsUrl, path: 'assets/model.bin'})).rejects.toThrow('Failed to fetch');
+});
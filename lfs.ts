@@ -0,0 +1,129 @@
+import authenticatedFetch from './authenticated-fetch.js';
+import {getLfsOid} from './git-blob.js';
+import {type RepositoryReference, type RequestOptions} from './provider.js';
+
+export type LfsPointer = {
+	/** The SHA-256 of the object */
+	oid: string;
+	size: number;
+};
+
+type LfsBatchObject = LfsPointer & {
+	actions?: {
+		download?: {
+			href: string;
+			header?: Record<string, string>;
+		};
+	};
+	error?: {
+		code: number;
+		message: string;
+	};
+};
+
+// See https://github.com/git-lfs/git-lfs/blob/main/docs/spec.md
+const maxPointerSize = 1024;
+const lfsMediaType = 'application/vnd.git-lfs+json';
+
+// Object errors that retrying won't fix
+const missingObjectCodes = new Set([404, 410]);
+
+// GitHub answers 403 when the bandwidth or storage quota ran out, other servers use the WebDAV codes
+const quotaStatuses = new Set([507, 509]);
+
+/** Reads the OID and size from a pointer file, or returns `undefined` for any other content */
+export function parseLfsPointer(text: string): LfsPointer | undefined {
+	const lines = text.split('\n');
+	if (!lines[0]?.startsWith('version https://git-lfs.github.com/spec/')) {
+		return;
+	}
+
+	const oid = lines.find(line => line.startsWith('oid sha256:'))?.slice('oid sha256:'.length);
+	const size = lines.find(line => line.startsWith('size '))?.slice('size '.length);
+	return oid && /^[\da-f]{64}$/.test(oid) && size && /^\d+$/.test(size)
+		? {oid, size: Number(size)}
+		: undefined;
+}
+
+export async function readLfsPointer(blob: Blob): Promise<LfsPointer | undefined> {
+	return blob.size <= maxPointerSize ? parseLfsPointer(await blob.text()) : undefined;
+}
+
+/** Where the host serves the LFS API of a repository, which is the same on every supported host */
+export function getLfsUrl(hostname: string, {user, repository}: RepositoryReference): string {
+	return `https://${hostname}/${user}/${repository}.git/info/lfs`;
+}
+
+async function fetchMediaObject(mediaUrl: string, {path, signal, tokenProfile}: RequestOptions & {path: string; signal?: AbortSignal}): Promise<Blob> {
+	const response = await authenticatedFetch(mediaUrl, {signal, tokenProfile});
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status} while downloading the LFS object of ${path}`);
+	}
+
+	return response.blob();
+}
+
+/**
+ * Downloads the object that a pointer stands for through the batch API, with the token of the host. Missing objects and exhausted quotas throw errors that start with `LFS`, because retrying won't help.
+ */
+export async function fetchLfsObject(pointer: LfsPointer, {url, mediaUrl, path, signal, tokenProfile}: RequestOptions & {
+	url: string;
+	/** Where the host serves the object by its path, for when the batch API can't be reached */
+	mediaUrl?: string;
+	path: string;
+	signal?: AbortSignal;
+}): Promise<Blob> {
+	let response: Response;
+	try {
+		response = await authenticatedFetch(`${url}/objects/batch`, {
+			method: 'POST',
+			accept: lfsMediaType,
+			signal,
+			tokenProfile,
+			body: JSON.stringify({
+				operation: 'download',
+				transfers: ['basic'],
+				objects: [pointer],
+			}),
+		});
+	} catch (error) {
+		// Browsers reject blocked cross-origin requests with a `TypeError`, and github.com doesn't allow them on the batch API
+		if (!mediaUrl || !(error instanceof TypeError)) {
+			throw error;
+		}
+
+		return fetchMediaObject(mediaUrl, {path, signal, tokenProfile});
+	}
+
+	if (!response.ok) {
+		const {message = ''} = await response.json().catch(() => ({})) as {message?: string};
+		if (quotaStatuses.has(response.status) || /quota/i.test(message)) {
+			throw new Error(`LFS quota exceeded for ${path}`);
+		}
+
+		throw new Error(`HTTP ${response.status} while resolving the LFS object of ${path}`);
+	}
+
+	const {objects} = await response.json() as {objects: LfsBatchObject[]};
+	const object = objects.find(({oid}) => oid === pointer.oid);
+	if (object?.error && missingObjectCodes.has(object.error.code)) {
+		throw new Error(`LFS object missing for ${path}`);
+	}
+
+	const download = object?.actions?.download;
+	if (!download) {
+		throw new Error(`LFS server returned no download for ${path}${object?.error ? `: ${object.error.message}` : ''}`);
+	}
+
+	// The link is signed or comes with its own headers, so the token must not be sent along
+	const objectResponse = await fetch(download.href, {signal, headers: download.header});
+	if (!objectResponse.ok) {
+		throw new Error(`HTTP ${objectResponse.status} while downloading the LFS object of ${path}`);
+	}
+
+	return objectResponse.blob();
+}
+
+export async function matchesLfsPointer(blob: Blob, pointer: LfsPointer): Promise<boolean> {
+	return blob.size === pointer.size && await getLfsOid(blob) === pointer.oid;
+}
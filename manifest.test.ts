@@ -0,0 +1,53 @@
+import {test, expect} from 'vitest';
+import {createManifest, serializeManifest} from './manifest.js';
+
+const now = new Date('2026-01-02T03:04:05.000Z');
+
+test('createManifest lists files relative to the directory', () => {
+	expect(createManifest({
+		source: 'https://github.com/user/repo/tree/main/docs',
+		owner: 'user',
+		repository: 'repo',
+		reference: 'main',
+		commit: '0123456789abcdef0123456789abcdef01234567',
+		directory: 'docs',
+		filters: ['*.md', '!drafts/'],
+		files: [
+			{path: 'docs/b.md', size: 2, sha: 'bbb', mode: '100644'},
+			{path: 'docs/a.md', sha: 'aaa', mode: '100755'},
+			{path: 'docs/broken.md', size: 5, sha: 'ccc', mode: '100644'},
+		],
+		failedPaths: ['docs/broken.md'],
+		sizes: new Map([['docs/a.md', 10]]),
+		now,
+	})).toEqual({
+		source: 'https://github.com/user/repo/tree/main/docs',
+		owner: 'user',
+		repository: 'repo',
+		reference: 'main',
+		commit: '0123456789abcdef0123456789abcdef01234567',
+		directory: 'docs',
+		filters: ['*.md', '!drafts/'],
+		createdAt: '2026-01-02T03:04:05.000Z',
+		files: [
+			{path: 'a.md', size: 10, sha: 'aaa', mode: '100755'},
+			{path: 'b.md', size: 2, sha: 'bbb', mode: '100644'},
+		],
+		failedFiles: ['broken.md'],
+	});
+});
+
+test('serializeManifest writes readable JSON', async () => {
+	const manifest = createManifest({
+		source: 'https://gitlab.com/group/project',
+		owner: 'group',
+		repository: 'project',
+		commit: 'abc',
+		directory: '',
+		files: [{path: 'readme.md', size: 1}],
+		now,
+	});
+	const text = await serializeManifest(manifest).text();
+	expect(JSON.parse(text)).toEqual(manifest);
+	expect(text).toContain('\n\t"files": [');
+});
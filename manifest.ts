@@ -0,0 +1,86 @@
+import {type ProviderFile} from './provider.js';
+
+export const manifestFilename = 'MANIFEST.json';
+
+export type ManifestFile = {
+	/** Path inside the archive */
+	path: string;
+	size?: number;
+	/** The git blob SHA */
+	sha?: string;
+	/** The git tree mode, like `100644` */
+	mode?: string;
+};
+
+export type Manifest = {
+	source: string;
+	owner: string;
+	repository: string;
+	reference?: string;
+	commit: string;
+	/** Set when the archive only has the files that changed since this reference */
+	base?: {reference: string; commit: string};
+	directory: string;
+	filters: string[];
+	createdAt: string;
+	files: ManifestFile[];
+	/** Paths inside the archive of the files that could not be downloaded */
+	failedFiles: string[];
+};
+
+export function createManifest({
+	source,
+	owner,
+	repository,
+	reference,
+	commit,
+	base,
+	directory,
+	filters = [],
+	files,
+	failedPaths = [],
+	sizes = new Map(),
+	now = new Date(),
+}: {
+	source: string;
+	owner: string;
+	repository: string;
+	reference?: string;
+	commit: string;
+	base?: {reference: string; commit: string};
+	directory: string;
+	filters?: string[];
+	files: ProviderFile[];
+	failedPaths?: string[];
+	/** Downloaded sizes, for hosts whose listings don't include them */
+	sizes?: Map<string, number>;
+	now?: Date;
+}): Manifest {
+	const getRelativePath = (path: string) => directory ? path.replace(`${directory}/`, '') : path;
+	const failed = new Set(failedPaths);
+	return {
+		source,
+		owner,
+		repository,
+		reference,
+		commit,
+		base,
+		directory,
+		filters,
+		createdAt: now.toISOString(),
+		files: files
+			.filter(file => !failed.has(file.path))
+			.map(file => ({
+				path: getRelativePath(file.path),
+				size: file.size ?? sizes.get(file.path),
+				sha: file.sha,
+				mode: file.mode,
+			}))
+			.sort((a, b) => a.path.localeCompare(b.path)),
+		failedFiles: failedPaths.map(path => getRelativePath(path)).sort(),
+	};
+}
+
+export function serializeManifest(manifest: Manifest): Blob {
+	return new Blob([JSON.stringify(manifest, undefined, '\t') + '\n'], {type: 'application/json'});
+}
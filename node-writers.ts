@@ -0,0 +1,109 @@
+import {createWriteStream} from 'node:fs';
+import {
+	chmod,
+	lstat,
+	mkdir,
+	rm,
+	symlink,
+	writeFile,
+} from 'node:fs/promises';
+import path from 'node:path';
+import {type ArchiveWriter, parseGitMode, resolveSymlinkTarget} from './archive.js';
+import {type FileSink} from './file-sink.js';
+
+/** Streams the archive to `filePath`, waiting for each chunk to be flushed before accepting the next */
+export function createNodeFileSink(filePath: string): FileSink {
+	const stream = createWriteStream(filePath);
+	const opened = new Promise<void>((resolve, reject) => {
+		stream.once('open', () => {
+			resolve();
+		});
+		stream.once('error', reject);
+	});
+	// The error surfaces on the first `write` or `close`, it must not crash the process before that
+	opened.catch(() => undefined);
+
+	return {
+		isStreaming: true,
+		async write(chunk) {
+			await opened;
+			const data = chunk instanceof Blob ? new Uint8Array(await chunk.arrayBuffer()) : chunk;
+			await new Promise<void>((resolve, reject) => {
+				stream.write(data, error => {
+					if (error) {
+						reject(error);
+					} else {
+						resolve();
+					}
+				});
+			});
+		},
+		async close() {
+			await opened;
+			await new Promise<void>(resolve => {
+				stream.end(resolve);
+			});
+		},
+		async abort() {
+			stream.destroy();
+			await rm(filePath, {force: true});
+		},
+	};
+}
+
+/** Creates the directories of `relativePath` under `root` one at a time, refusing to go through a symlink */
+async function createDirectories(root: string, relativePath: string): Promise<void> {
+	let directory = root;
+	for (const segment of relativePath.split(path.sep).filter(Boolean)) {
+		directory = path.join(directory, segment);
+		// eslint-disable-next-line no-await-in-loop -- Each directory is checked before anything is created inside it
+		const stats = await lstat(directory).catch(() => undefined);
+		if (stats?.isSymbolicLink()) {
+			throw new Error(`Refusing to write through the symlink ${directory}`);
+		}
+
+		if (!stats) {
+			// eslint-disable-next-line no-await-in-loop -- Each directory is checked before anything is created inside it
+			await mkdir(directory);
+		}
+	}
+}
+
+/** Writes every entry as a file under `root`, keeping executable bits and recreating symlinks that stay inside it */
+export function createNodeFolderWriter(root: string): ArchiveWriter {
+	const resolvedRoot = path.resolve(root);
+	return {
+		isStreaming: true,
+		async addFile(entryPath, blob, {mode} = {}) {
+			const target = path.resolve(resolvedRoot, entryPath);
+			if (!target.startsWith(resolvedRoot + path.sep)) {
+				throw new Error(`Refusing to write outside of ${root}: ${entryPath}`);
+			}
+
+			// A symlink written earlier, or one that differs only in case on some filesystems, could lead the entry elsewhere
+			await mkdir(resolvedRoot, {recursive: true});
+			await createDirectories(resolvedRoot, path.relative(resolvedRoot, path.dirname(target)));
+			await rm(target, {force: true});
+
+			const {isSymlink, permissions} = parseGitMode(mode);
+			if (isSymlink) {
+				const linkTarget = await blob.text();
+				if (!resolveSymlinkTarget(path.relative(resolvedRoot, target).split(path.sep).join('/'), linkTarget)) {
+					throw new Error(`Refusing to create a symlink that points outside of ${root}: ${entryPath}`);
+				}
+
+				await symlink(linkTarget, target);
+				return;
+			}
+
+			await writeFile(target, new Uint8Array(await blob.arrayBuffer()));
+			await chmod(target, permissions);
+		},
+		async close() {
+			// Every file is closed as soon as it's written
+		},
+		async abort() {
+			// Files already written are kept, like with any interrupted copy
+		},
+	};
+}
@@ -0,0 +1,64 @@
+import {test, expect} from 'vitest';
+import {filterFiles, parseFilter} from './path-filter.js';
+
+const files = [
+	'src/index.ts',
+	'src/lib/util.ts',
+	'src/lib/__tests__/util.ts',
+	'src/Readme.MD',
+	'docs/intro.md',
+	'docs/api/reference.md',
+	'package.json',
+].map(path => ({path}));
+
+function match(rules: string, {caseSensitive = false, directory = ''} = {}) {
+	return filterFiles(files, parseFilter(rules, {caseSensitive}), directory);
+}
+
+function paths(rules: string, options?: {caseSensitive?: boolean; directory?: string}) {
+	return match(rules, options).files.map(file => file.path);
+}
+
+test('parseFilter keeps extension-only entries working', () => {
+	expect(paths('.md, json')).toEqual([
+		'src/Readme.MD',
+		'docs/intro.md',
+		'docs/api/reference.md',
+		'package.json',
+	]);
+});
+
+test('parseFilter anchors patterns that contain a slash', () => {
+	expect(paths('docs/*.md')).toEqual(['docs/intro.md']);
+	expect(paths('src/**/*.ts')).toEqual(['src/index.ts', 'src/lib/util.ts', 'src/lib/__tests__/util.ts']);
+	expect(paths('/package.json')).toEqual(['package.json']);
+});
+
+test('parseFilter matches directories at any depth', () => {
+	expect(paths('api/')).toEqual(['docs/api/reference.md']);
+	expect(paths('lib/')).toEqual(['src/lib/util.ts', 'src/lib/__tests__/util.ts']);
+});
+
+test('parseFilter supports negation', () => {
+	expect(paths('src/**/*.ts, !**/__tests__/**')).toEqual(['src/index.ts', 'src/lib/util.ts']);
+	expect(paths('!*.md, !*.json')).toEqual(['src/index.ts', 'src/lib/util.ts', 'src/lib/__tests__/util.ts']);
+});
+
+test('parseFilter supports brace groups', () => {
+	expect(paths('*.{json,ts}, !src/lib/**')).toEqual(['src/index.ts', 'package.json']);
+});
+
+test('parseFilter is case-insensitive by default', () => {
+	expect(paths('*.md')).toContain('src/Readme.MD');
+	expect(paths('*.md', {caseSensitive: true})).not.toContain('src/Readme.MD');
+});
+
+test('filterFiles matches relative to the directory', () => {
+	expect(paths('*.ts, !lib/__tests__/', {directory: 'src'})).toEqual(['src/index.ts', 'src/lib/util.ts']);
+	expect(paths('/lib/util.ts', {directory: 'src'})).toEqual(['src/lib/util.ts']);
+});
+
+test('filterFiles counts matches per rule', () => {
+	expect(match('src/**/*.ts, *.md, !**/__tests__/**').counts).toEqual([3, 3, 1]);
+	expect(match('').counts).toEqual([]);
+});
@@ -0,0 +1,185 @@
+export type FilterRule = {
+	/** The rule as the user typed it, including any `!` prefix */
+	source: string;
+	negated: boolean;
+	regex: RegExp;
+};
+
+export type FilterOptions = {
+	caseSensitive?: boolean;
+};
+
+const globCharacters = /[*?[{]/;
+
+function escapeRegex(value: string): string {
+	return value.replaceAll(/[$()*+.?[\\\]^{|}]/g, '\\$&');
+}
+
+function globToSource(glob: string): string {
+	let source = '';
+	for (let index = 0; index < glob.length; index++) {
+		const character = glob[index]!;
+		switch (character) {
+			case '*': {
+				if (glob[index + 1] !== '*') {
+					source += '[^/]*';
+				} else if (glob[index + 2] === '/') {
+					// `**/` also matches zero directories
+					source += '(?:.*/)?';
+					index += 2;
+				} else {
+					source += '.*';
+					index++;
+				}
+
+				break;
+			}
+
+			case '?': {
+				source += '[^/]';
+				break;
+			}
+
+			case '[': {
+				const end = glob.indexOf(']', index + 2);
+				if (end === -1) {
+					source += '\\[';
+					break;
+				}
+
+				const characterClass = glob.slice(index + 1, end).replaceAll('\\', '\\\\');
+				source += characterClass.startsWith('!')
+					? `[^${characterClass.slice(1)}]`
+					: `[${characterClass}]`;
+				index = end;
+				break;
+			}
+
+			case '{': {
+				const end = glob.indexOf('}', index);
+				if (end === -1) {
+					source += '\\{';
+					break;
+				}
+
+				const alternatives = glob.slice(index + 1, end).split(',').map(alternative => globToSource(alternative));
+				source += `(?:${alternatives.join('|')})`;
+				index = end;
+				break;
+			}
+
+			default: {
+				source += escapeRegex(character);
+			}
+		}
+	}
+
+	return source;
+}
+
+function normalizePattern(pattern: string): string {
+	// Plain words like `ts` or `.md` keep working as extension filters
+	if (!pattern.includes('/') && !globCharacters.test(pattern)) {
+		return `**/*${pattern.startsWith('.') ? pattern : `.${pattern}`}`;
+	}
+
+	let normalized = pattern.replace(/^\.?\//, '');
+
+	// Like in .gitignore, patterns match at any depth unless they have a leading or middle slash
+	const isAnchored = normalized !== pattern || normalized.replace(/\/$/, '').includes('/');
+	if (normalized.endsWith('/')) {
+		normalized = `${normalized}**`;
+	}
+
+	return isAnchored ? normalized : `**/${normalized}`;
+}
+
+/** Split on commas and line breaks, except for the commas inside `{a,b}` groups. Character classes like `[{]` are copied as they are, so their braces don't open a group */
+function splitRules(value: string): string[] {
+	const entries: string[] = [];
+	let current = '';
+	let depth = 0;
+	for (let index = 0; index < value.length; index++) {
+		const character = value[index]!;
+		// Same bounds as in `globToSource`, where the class can't be empty
+		const classEnd = character === '[' ? value.indexOf(']', index + 2) : -1;
+		if (classEnd !== -1 && !/[,\n\r]/.test(value.slice(index, classEnd))) {
+			current += value.slice(index, classEnd + 1);
+			index = classEnd;
+			continue;
+		}
+
+		if (character === '{') {
+			depth++;
+		} else if (character === '}') {
+			depth = Math.max(0, depth - 1);
+		}
+
+		if ((character === ',' && depth === 0) || character === '\n' || character === '\r') {
+			entries.push(current);
+			current = '';
+		} else {
+			current += character;
+		}
+	}
+
+	entries.push(current);
+	return entries.map(entry => entry.trim()).filter(entry => entry.length > 0);
+}
+
+export function parseFilter(value: string, {caseSensitive = false}: FilterOptions = {}): FilterRule[] {
+	return splitRules(value)
+		.map(source => {
+			const negated = source.startsWith('!');
+			const pattern = normalizePattern(negated ? source.slice(1).trim() : source);
+			return {
+				source,
+				negated,
+				regex: new RegExp(`^${globToSource(pattern)}$`, caseSensitive ? '' : 'i'),
+			};
+		})
+		.filter(rule => rule.source !== '!');
+}
+
+/**
+ * Paths are matched relative to `directory`. A file is kept when it matches any include rule (or there are none) and no exclude rule. `counts` holds, for each rule, how many files it matched or excluded.
+ */
+export function filterFiles<T extends {path: string}>(
+	files: T[],
+	rules: FilterRule[],
+	directory = '',
+): {files: T[]; counts: number[]} {
+	const counts = rules.map(() => 0);
+	if (rules.length === 0) {
+		return {files, counts};
+	}
+
+	const hasIncludes = rules.some(rule => !rule.negated);
+	const prefix = directory ? `${directory}/` : '';
+	const kept = files.filter(file => {
+		const relativePath = file.path.startsWith(prefix) ? file.path.slice(prefix.length) : file.path;
+		let included = !hasIncludes;
+		for (const [index, rule] of rules.entries()) {
+			if (!rule.negated && rule.regex.test(relativePath)) {
+				counts[index]!++;
+				included = true;
+			}
+		}
+
+		if (!included) {
+			return false;
+		}
+
+		let excluded = false;
+		for (const [index, rule] of rules.entries()) {
+			if (rule.negated && rule.regex.test(relativePath)) {
+				counts[index]!++;
+				excluded = true;
+			}
+		}
+
+		return !excluded;
+	});
+
+	return {files: kept, counts};
+}
@@ -0,0 +1,68 @@
+export type ProviderFile = {
+	/** Path from the repository root */
+	path: string;
+	size?: number;
+	/** The git blob SHA, where the listing includes it */
+	sha?: string;
+	/** The git tree mode, like `100644`, `100755` or `120000`. Submodules are listed with `160000` and their commit as the SHA */
+	mode?: string;
+	/** The provider's API URL for the file, where the listing includes it */
+	url?: string;
+};
+
+export type ChangedFile = ProviderFile & {
+	status: 'added' | 'modified' | 'removed' | 'renamed';
+	/** The path before a rename */
+	previousPath?: string;
+};
+
+export type RepositoryReference = {
+	/** The owner, workspace or (on GitLab) the full group path */
+	user: string;
+	repository: string;
+};
+
+export type ParsedRepositoryUrl = RepositoryReference & {
+	/** `path` is for URLs that don't say whether they point to a file or a directory */
+	type?: 'tree' | 'blob' | 'path' | 'compare';
+	/** The reference and path segments, which are split later because references can contain slashes. For comparisons it's the `base...head` range */
+	parts: string[];
+};
+
+export type ArchiveUrlFormat = 'zip' | 'tar.gz';
+
+/** Passed along to every request of a download */
+export type RequestOptions = {
+	/** The token profile picked for the download, instead of the one matching each URL */
+	tokenProfile?: string;
+};
+
+export type Provider = {
+	name: string;
+	hostname: string;
+	parseUrl(url: URL): ParsedRepositoryUrl | {error: string};
+	/** Resolves to `undefined` when the repository doesn't exist or isn't visible */
+	getRepository(repository: RepositoryReference, options?: RequestOptions): Promise<{isPrivate: boolean; defaultBranch: string} | undefined>;
+	/** Resolves a branch, tag or commit to the full commit SHA, or to `undefined` if it doesn't exist */
+	resolveReference(repository: RepositoryReference, reference: string, options?: RequestOptions): Promise<string | undefined>;
+	/** Only needed by providers that return `path` URLs */
+	getPathType?(repository: RepositoryReference, reference: string, path: string, options?: RequestOptions): Promise<'file' | 'directory' | undefined>;
+	getArchiveUrl(repository: RepositoryReference, reference?: string, format?: ArchiveUrlFormat): string;
+	listFiles(repository: RepositoryReference, options: RequestOptions & {reference: string; directory: string; signal?: AbortSignal}): Promise<ProviderFile[]>;
+	fetchFile(repository: RepositoryReference, options: RequestOptions & {reference: string; file: ProviderFile; isPrivate: boolean; signal: AbortSignal}): Promise<Blob>;
+	/** Where the host serves LFS objects by their path, for hosts with a separate media host */
+	getLfsMediaUrl?(repository: RepositoryReference, reference: string, path: string): string;
+	/** Lists the files that changed from `base` to `head`, for hosts that can compare references */
+	compare?(repository: RepositoryReference, options: RequestOptions & {base: string; head: string; signal?: AbortSignal}): Promise<ChangedFile[]>;
+};
+
+/** Returns the decoded path segments, without empty ones */
+export function getPathSegments(url: URL): string[] {
+	return decodeURIComponent(url.pathname)
+		.split('/')
+		.filter(segment => segment.length > 0);
+}
+
+export function encodePath(path: string): string {
+	return path.split('/').map(segment => encodeURIComponent(segment)).join('/');
+}
@@ -0,0 +1,46 @@
+import {createBitbucketProvider} from './bitbucket-provider.js';
+import {createGiteaProvider} from './gitea-provider.js';
+import {createGithubProvider} from './github-provider.js';
+import {createGitlabProvider} from './gitlab-provider.js';
+import {type HostConfig, findHostConfig} from './hosts.js';
+import {type Provider} from './provider.js';
+
+function createProvider({hostname, type, apiBase, rawBase}: HostConfig): Provider {
+	switch (type) {
+		case 'gitlab': {
+			return createGitlabProvider(hostname);
+		}
+
+		case 'bitbucket': {
+			return createBitbucketProvider();
+		}
+
+		case 'gitea': {
+			return createGiteaProvider(hostname);
+		}
+
+		default: {
+			return createGithubProvider({hostname, apiBase, rawBase});
+		}
+	}
+}
+
+const providers = new Map<string, Provider>();
+
+/** Returns the provider for the URL's host, or `undefined` for hosts that aren't supported or registered */
+export function getProvider(url: URL): Provider | undefined {
+	const config = findHostConfig(url);
+	if (!config) {
+		return;
+	}
+
+	// Providers cache resolved references, so they're reused for as long as the host config doesn't change
+	const key = [config.type, config.hostname, config.apiBase, config.rawBase].join(' ');
+	let provider = providers.get(key);
+	if (!provider) {
+		provider = createProvider(config);
+		providers.set(key, provider);
+	}
+
+	return provider;
+}
@@ -0,0 +1,151 @@
+import {useState} from 'react';
+import {
+	type QueueItem,
+	type QueueRequest,
+	type QueueStatus,
+	canRetry,
+} from './download-queue.js';
+
+type QueueListProps = {
+	items: QueueItem[];
+	paused: boolean;
+	/** How many items download at the same time */
+	parallel: number;
+	onPausedChange: (paused: boolean) => void;
+	onParallelChange: (parallel: number) => void;
+	onMove: (id: string, offset: number) => void;
+	onEdit: (id: string, changes: Partial<QueueRequest>) => void;
+	onRemove: (id: string) => void;
+	/** Stops a running item */
+	onCancel: (id: string) => void;
+	/** Retries one item, or every failed and canceled one without an ID */
+	onRetry: (id?: string) => void;
+	onClear: () => void;
+};
+
+const statusLabels: Record<QueueStatus, string> = {
+	pending: 'Pending',
+	running: 'Running',
+	done: 'Done',
+	failed: 'Failed',
+	canceled: 'Canceled',
+};
+
+const parallelOptions = [1, 2, 3, 4];
+
+function formatTime(timestamp: number): string {
+	return new Date(timestamp).toLocaleTimeString();
+}
+
+function describeTimes(item: QueueItem): string {
+	if (item.finishedAt && item.startedAt) {
+		return `Started ${formatTime(item.startedAt)}, finished after ${Math.max(1, Math.round((item.finishedAt - item.startedAt) / 1000))}s`;
+	}
+
+	return item.startedAt ? `Started ${formatTime(item.startedAt)}` : `Added ${formatTime(item.addedAt)}`;
+}
+
+/** The links waiting to download and the results of the ones that ran */
+export default function QueueList({items, paused, parallel, onPausedChange, onParallelChange, onMove, onEdit, onRemove, onCancel, onRetry, onClear}: QueueListProps) {
+	const [editingId, setEditingId] = useState<string | undefined>();
+	const [draft, setDraft] = useState({url: '', filename: '', filter: ''});
+
+	const startEditing = (item: QueueItem) => {
+		setEditingId(item.id);
+		setDraft({url: item.url, filename: item.filename ?? '', filter: item.filter ?? ''});
+	};
+
+	const saveEdit = (id: string) => {
+		onEdit(id, {
+			url: draft.url.trim(),
+			filename: draft.filename.trim() || undefined,
+			filter: draft.filter.trim() || undefined,
+		});
+		setEditingId(undefined);
+	};
+
+	const renderEditor = (item: QueueItem) => (
+		<div className="queue-editor">
+			<label htmlFor={`queue-url-${item.id}`}>URL</label>
+			<input id={`queue-url-${item.id}`} type="text" value={draft.url} onChange={event => setDraft({...draft, url: event.target.value})}/>
+			<label htmlFor={`queue-filename-${item.id}`}>Output filename</label>
+			<input id={`queue-filename-${item.id}`} type="text" value={draft.filename} onChange={event => setDraft({...draft, filename: event.target.value})}/>
+			<label htmlFor={`queue-filter-${item.id}`}>Filter</label>
+			<input id={`queue-filter-${item.id}`} type="text" value={draft.filter} onChange={event => setDraft({...draft, filter: event.target.value})}/>
+			<div className="input-row">
+				<button type="button" className="btn btn-soft" onClick={() => saveEdit(item.id)} disabled={!draft.url.trim()}>Save</button>
+				<button type="button" className="btn btn-ghost" onClick={() => setEditingId(undefined)}>Cancel</button>
+			</div>
+		</div>
+	);
+
+	const renderItem = (item: QueueItem, index: number) => {
+		const isRunning = item.status === 'running';
+		return (
+			<li key={item.id} className={`queue-item queue-${item.status}`}>
+				<div className="queue-row">
+					<span className="queue-status">{statusLabels[item.status]}</span>
+					<span className="queue-url">{`${index + 1}. ${item.url}`}</span>
+				</div>
+				<span className="log-hint">
+					{describeTimes(item)}
+					{item.outputFilename && `, saved as ${item.outputFilename}`}
+					{item.autoApproveMegabytes !== undefined && `, auto-approved up to ${item.autoApproveMegabytes} MB`}
+					{item.tokenProfile && `, ${item.tokenProfile} token`}
+				</span>
+				{item.error && <span className="token-error">{item.error}</span>}
+				{editingId === item.id ? renderEditor(item) : (
+					<div className="queue-item-actions">
+						<button type="button" aria-label="Move up" onClick={() => onMove(item.id, -1)} disabled={index === 0}>↑</button>
+						<button type="button" aria-label="Move down" onClick={() => onMove(item.id, 1)} disabled={index === items.length - 1}>↓</button>
+						<button type="button" onClick={() => startEditing(item)} disabled={isRunning}>Edit</button>
+						{canRetry(item) && <button type="button" onClick={() => onRetry(item.id)}>Retry</button>}
+						{isRunning
+							? <button type="button" onClick={() => onCancel(item.id)}>Cancel</button>
+							: <button type="button" onClick={() => onRemove(item.id)}>Remove</button>}
+					</div>
+				)}
+			</li>
+		);
+	};
+
+	return (
+		<div className="panel-card queue-card" id="queue">
+			<div className="card-head">
+				<h2>Queue</h2>
+				<div className="queue-actions">
+					<button id="pause-queue" className="btn btn-soft" type="button" onClick={() => onPausedChange(!paused)}>
+						{paused ? 'Resume' : 'Pause'}
+					</button>
+					<button id="clear-queue" className="btn btn-ghost" type="button" onClick={onClear}>
+						<span className="btn-icon" aria-hidden="true">
+							<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+								<path d="M3 6h18"></path>
+								<path d="M10 6v10"></path>
+								<path d="M14 6v10"></path>
+							</svg>
+						</span>
+					Clear queue
+					</button>
+				</div>
+			</div>
+			<div className="input-row">
+				<label htmlFor="queue-parallel">Run at once</label>
+				<select id="queue-parallel" value={parallel} onChange={event => onParallelChange(Number(event.target.value))}>
+					{parallelOptions.map(option => (
+						<option key={option} value={option}>{option === 1 ? 'One at a time' : `${option} downloads`}</option>
+					))}
+				</select>
+				{items.some(item => canRetry(item)) && (
+					<button id="retry-failed" className="btn btn-ghost" type="button" onClick={() => onRetry()}>Retry failed</button>
+				)}
+			</div>
+			{paused && <p className="hint">The queue is paused. Running downloads finish, the rest wait until it resumes.</p>}
+			<ul className="queue-list">
+				{items.length === 0
+					? <li className="empty">Queue is empty</li>
+					: items.map((item, index) => renderItem(item, index))}
+			</ul>
+		</div>
+	);
+}
@@ -0,0 +1,81 @@
+import {afterEach, beforeEach, expect, test, vi} from 'vitest';
+import authenticatedFetch from './authenticated-fetch.js';
+import {getRateLimitDelay, onRateLimitPause, resetRateLimits} from './rate-limit.js';
+
+const now = Date.parse('2026-01-02T03:04:05.000Z');
+
+function createResponse(status: number, headers: Record<string, string> = {}) {
+	return new Response(status === 200 ? 'ok' : 'limited', {status, headers});
+}
+
+/** Serves the responses in order, one per request */
+function serveResponses(responses: Response[]) {
+	const fetch = vi.fn(async () => responses.shift() ?? createResponse(200));
+	vi.stubGlobal('fetch', fetch);
+	return fetch;
+}
+
+beforeEach(() => {
+	vi.useFakeTimers({now});
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+	vi.unstubAllGlobals();
+	resetRateLimits();
+});
+
+test('getRateLimitDelay', () => {
+	expect(getRateLimitDelay(createResponse(200, {'X-RateLimit-Remaining': '12'}), now)).toBeUndefined();
+	expect(getRateLimitDelay(createResponse(404), now)).toBeUndefined();
+	expect(getRateLimitDelay(createResponse(403), now)).toBeUndefined();
+	expect(getRateLimitDelay(createResponse(200, {'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String((now / 1000) + 30)}), now)).toBe(31_000);
+	expect(getRateLimitDelay(createResponse(429, {'RateLimit-Remaining': '0', 'RateLimit-Reset': String((now / 1000) + 5)}), now)).toBe(6000);
+	expect(getRateLimitDelay(createResponse(403, {'Retry-After': '90'}), now)).toBe(90_000);
+	expect(getRateLimitDelay(createResponse(429, {'Retry-After': new Date(now + 20_000).toUTCString()}), now)).toBe(20_000);
+	expect(getRateLimitDelay(createResponse(429), now)).toBe(60_000);
+});
+
+test('authenticatedFetch waits for the reset and sends the request again', async () => {
+	const fetch = serveResponses([
+		createResponse(403, {'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String((now / 1000) + 59)}),
+	]);
+	const listener = vi.fn();
+	const stopListening = onRateLimitPause(listener);
+
+	const first = authenticatedFetch('https://api.github.com/repos/user/repo');
+	await vi.advanceTimersByTimeAsync(0);
+	expect(listener).toHaveBeenCalledWith({hostname: 'api.github.com', resumeAt: now + 60_000});
+
+	// Other requests to the host wait too, while other hosts don't
+	const second = authenticatedFetch('https://api.github.com/repos/user/repo/contents');
+	await authenticatedFetch('https://gitlab.com/api/v4/projects/1');
+	expect(fetch).toHaveBeenCalledTimes(2);
+
+	await vi.advanceTimersByTimeAsync(59_999);
+	expect(fetch).toHaveBeenCalledTimes(2);
+	await vi.advanceTimersByTimeAsync(1);
+	await expect(first).resolves.toHaveProperty('status', 200);
+	await expect(second).resolves.toHaveProperty('status', 200);
+	expect(fetch).toHaveBeenCalledTimes(4);
+	stopListening();
+});
+
+test('authenticatedFetch handles secondary rate limits and gives up eventually', async () => {
+	const fetch = serveResponses(Array.from({length: 4}, () => createResponse(403, {'Retry-After': '1'})));
+	const request = authenticatedFetch('https://api.github.com/search/code');
+	const rejection = expect(request).rejects.toThrow('Rate limit exceeded');
+	await vi.advanceTimersByTimeAsync(3000);
+	await rejection;
+	expect(fetch).toHaveBeenCalledTimes(4);
+});
+
+test('authenticatedFetch stops waiting when the signal is aborted', async () => {
+	serveResponses([createResponse(429, {'Retry-After': '600'})]);
+	const controller = new AbortController();
+	const request = authenticatedFetch('https://api.github.com/repos/user/repo', {signal: controller.signal});
+	const rejection = expect(request).rejects.toThrow('aborted');
+	await vi.advanceTimersByTimeAsync(1000);
+	controller.abort();
+	await rejection;
+});
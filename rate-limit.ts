@@ -0,0 +1,95 @@
+export type RateLimitPause = {
+	hostname: string;
+	/** When requests to the host resume, in milliseconds since the epoch */
+	resumeAt: number;
+};
+
+type Listener = (pause: RateLimitPause) => void;
+
+// Secondary rate limits without a Retry-After header ask to wait at least a minute
+const defaultDelay = 60_000;
+
+// The reset time is in whole seconds and clocks drift, so requests resume a little later
+const resetMargin = 1000;
+
+const pauses = new Map<string, number>();
+const listeners = new Set<Listener>();
+
+function getHeader(response: Response, name: string): string | null {
+	// GitHub and Bitbucket use the `X-` prefix, GitLab uses the draft standard names
+	return response.headers.get(`X-${name}`) ?? response.headers.get(name);
+}
+
+/** How long to wait before the next request to the same host, if the response says so */
+export function getRateLimitDelay(response: Response, now = Date.now()): number | undefined {
+	const isLimited = response.status === 403 || response.status === 429;
+	const retryAfter = response.headers.get('Retry-After');
+	if (isLimited && retryAfter) {
+		const seconds = Number(retryAfter);
+		return Number.isNaN(seconds)
+			? Math.max(0, Date.parse(retryAfter) - now)
+			: seconds * 1000;
+	}
+
+	if (getHeader(response, 'RateLimit-Remaining') === '0') {
+		const reset = Number(getHeader(response, 'RateLimit-Reset'));
+		return reset ? Math.max(0, (reset * 1000) - now) + resetMargin : defaultDelay;
+	}
+
+	return response.status === 429 ? defaultDelay : undefined;
+}
+
+export function pauseHost(hostname: string, resumeAt: number): void {
+	if ((pauses.get(hostname) ?? 0) >= resumeAt) {
+		return;
+	}
+
+	pauses.set(hostname, resumeAt);
+	for (const listener of listeners) {
+		listener({hostname, resumeAt});
+	}
+}
+
+async function delay(milliseconds: number, signal?: AbortSignal): Promise<void> {
+	signal?.throwIfAborted();
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal!.reason as Error);
+		};
+
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, milliseconds);
+		signal?.addEventListener('abort', onAbort, {once: true});
+	});
+}
+
+/** Resolves once the host's rate limit has reset, or rejects when `signal` is aborted first */
+export async function waitForHost(hostname: string, signal?: AbortSignal): Promise<void> {
+	for (;;) {
+		const resumeAt = pauses.get(hostname);
+		if (!resumeAt || resumeAt <= Date.now()) {
+			pauses.delete(hostname);
+			return;
+		}
+
+		// The pause may be extended while waiting
+		// eslint-disable-next-line no-await-in-loop -- Waiting is the point
+		await delay(resumeAt - Date.now(), signal);
+	}
+}
+
+/** Calls `listener` every time a host gets paused. Returns a function that stops it */
+export function onRateLimitPause(listener: Listener): () => void {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+/** Forgets every pause, for tests */
+export function resetRateLimits(): void {
+	pauses.clear();
+}
@@ -1,13 +1,47 @@
 import {test, expect} from 'vitest';
 import getRepositoryInfo from './repository-info.js';
 
+const anyCommit = expect.stringMatching(/^[\da-f]{40}$/) as string;
+
 test('getRepositoryInfo', async () => {
 	await expect(getRepositoryInfo('https://github.com/user')).resolves.toMatchInlineSnapshot(`
 		{
 		  "error": "NOT_A_REPOSITORY",
 		}
 	`);
-	await expect(getRepositoryInfo('https://github.com/fregante/doma/blob/develop/readme.md')).resolves.toMatchInlineSnapshot(`
+	await expect(getRepositoryInfo('https://github.com/fregante/doma/blob/develop/readme.md')).resolves.toEqual({
+		user: 'fregante',
+		repository: 'doma',
+		gitReference: 'develop',
+		commit: anyCommit,
+		directory: '',
+		filePath: 'readme.md',
+		isPrivate: false,
+	});
+	await expect(getRepositoryInfo('https://github.com/refined-github/sandbox/blob/default-a/.github/workflows/wait-for-checks.yml')).resolves.toEqual({
+		user: 'refined-github',
+		repository: 'sandbox',
+		gitReference: 'default-a',
+		commit: anyCommit,
+		directory: '.github/workflows',
+		filePath: '.github/workflows/wait-for-checks.yml',
+		isPrivate: false,
+	});
+	await expect(getRepositoryInfo('https://raw.githubusercontent.com/fregante/doma/develop/readme.md')).resolves.toEqual({
+		user: 'fregante',
+		repository: 'doma',
+		gitReference: 'develop',
+		commit: anyCommit,
+		directory: '',
+		filePath: 'readme.md',
+		isPrivate: false,
+	});
+	await expect(getRepositoryInfo('https://github.com/fregante/doma/blob/develop')).resolves.toMatchInlineSnapshot(`
+		{
+		  "error": "NOT_A_FILE",
+		}
+	`);
+	await expect(getRepositoryInfo('https://github.com/fregante/doma/commits/develop')).resolves.toMatchInlineSnapshot(`
 		{
 		  "error": "NOT_A_DIRECTORY",
 		}
@@ -22,61 +56,50 @@ test('getRepositoryInfo', async () => {
 		  "error": "REPOSITORY_NOT_FOUND",
 		}
 	`);
-	// Simple branches are not verified at this point. Should they be?
 	await expect(getRepositoryInfo('https://github.com/refined-github/sandbox/tree/durian')).resolves.toMatchInlineSnapshot(`
 		{
-		  "directory": "",
-		  "downloadUrl": "https://api.github.com/repos/refined-github/sandbox/zipball/durian",
-		  "gitReference": "durian",
-		  "isPrivate": false,
-		  "repository": "sandbox",
-		  "user": "refined-github",
-		}
-	`);
-	await expect(getRepositoryInfo('https://github.com/refined-github/sandbox/tree/branch/with/slashes')).resolves.toMatchInlineSnapshot(`
-		{
-		  "directory": "",
-		  "gitReference": "branch/with/slashes",
-		  "isPrivate": false,
-		  "repository": "sandbox",
-		  "user": "refined-github",
-		}
-	`);
-	await expect(getRepositoryInfo('https://github.com/refined-github/sandbox/tree/default-a/.github/workflows')).resolves.toMatchInlineSnapshot(`
-		{
-		  "directory": ".github/workflows",
-		  "gitReference": "default-a",
-		  "isPrivate": false,
-		  "repository": "sandbox",
-		  "user": "refined-github",
-		}
-	`);
-	await expect(getRepositoryInfo('https://github.com/microsoft/typescript')).resolves.toMatchInlineSnapshot(`
-		{
-		  "directory": "",
-		  "downloadUrl": "https://api.github.com/repos/microsoft/typescript/zipball",
-		  "isPrivate": false,
-		  "repository": "typescript",
-		  "user": "microsoft",
-		}
-	`);
-	await expect(getRepositoryInfo('https://github.com/fregante/doma/tree/develop')).resolves.toMatchInlineSnapshot(`
-		{
-		  "directory": "",
-		  "downloadUrl": "https://api.github.com/repos/fregante/doma/zipball/develop",
-		  "gitReference": "develop",
-		  "isPrivate": false,
-		  "repository": "doma",
-		  "user": "fregante",
-		}
-	`);
-	await expect(getRepositoryInfo('https://github.com/wesbos/JavaScript30/tree/master/01%20-%20JavaScript%20Drum%20Kit/sounds')).resolves.toMatchInlineSnapshot(`
-		{
-		  "directory": "01 - JavaScript Drum Kit/sounds",
-		  "gitReference": "master",
-		  "isPrivate": false,
-		  "repository": "JavaScript30",
-		  "user": "wesbos",
+		  "error": "BRANCH_NOT_FOUND",
 		}
 	`);
+	await expect(getRepositoryInfo('https://github.com/refined-github/sandbox/tree/branch/with/slashes')).resolves.toEqual({
+		user: 'refined-github',
+		repository: 'sandbox',
+		gitReference: 'branch/with/slashes',
+		commit: anyCommit,
+		directory: '',
+		isPrivate: false,
+	});
+	await expect(getRepositoryInfo('https://github.com/refined-github/sandbox/tree/default-a/.github/workflows')).resolves.toEqual({
+		user: 'refined-github',
+		repository: 'sandbox',
+		gitReference: 'default-a',
+		commit: anyCommit,
+		directory: '.github/workflows',
+		isPrivate: false,
+	});
+	await expect(getRepositoryInfo('https://github.com/microsoft/typescript')).resolves.toEqual({
+		user: 'microsoft',
+		repository: 'typescript',
+		commit: anyCommit,
+		directory: '',
+		isPrivate: false,
+		downloadUrl: expect.stringMatching(/^https:\/\/api\.github\.com\/repos\/microsoft\/typescript\/zipball\/[\da-f]{40}$/) as string,
+	});
+	await expect(getRepositoryInfo('https://github.com/fregante/doma/tree/develop')).resolves.toEqual({
+		user: 'fregante',
+		repository: 'doma',
+		gitReference: 'develop',
+		commit: anyCommit,
+		directory: '',
+		isPrivate: false,
+		downloadUrl: expect.stringMatching(/^https:\/\/api\.github\.com\/repos\/fregante\/doma\/zipball\/[\da-f]{40}$/) as string,
+	});
+	await expect(getRepositoryInfo('https://github.com/wesbos/JavaScript30/tree/master/01%20-%20JavaScript%20Drum%20Kit/sounds')).resolves.toEqual({
+		user: 'wesbos',
+		repository: 'JavaScript30',
+		gitReference: 'master',
+		commit: anyCommit,
+		directory: '01 - JavaScript Drum Kit/sounds',
+		isPrivate: false,
+	});
 }, 20_000);
@@ -1,36 +1,76 @@
-import authenticatedFetch from './authenticated-fetch.js';
-
-function cleanUrl(url: string) {
-	return url
-		.replace(/[/]{2,}/, '/') // Drop double slashes
-		.replace(/[/]$/, ''); // Drop trailing slash
-}
+import {type Provider, type RepositoryReference, type RequestOptions} from './provider.js';
+import {getProvider} from './providers.js';
 
 async function parsePath(
-	user: string,
-	repo: string,
+	provider: Provider,
+	repository: RepositoryReference,
 	parts: string[],
-): Promise<{gitReference: string; directory: string} | void> {
+	options: RequestOptions,
+): Promise<{gitReference: string; commit: string; directory: string} | void> {
 	for (let i = 0; i < parts.length; i++) {
 		const gitReference = parts.slice(0, i + 1).join('/');
 		// eslint-disable-next-line no-await-in-loop -- One at a time
-		if (await checkBranchExists(user, repo, gitReference)) {
+		const commit = await provider.resolveReference(repository, gitReference, options);
+		if (commit) {
 			return {
 				gitReference,
+				commit,
 				directory: parts.slice(i + 1).join('/'),
 			};
 		}
 	}
 }
 
+/** Splits `base...head` or `base..head` */
+function parseRange(range: string): {base: string; head: string} | void {
+	const [base, head, ...rest] = range.split(range.includes('...') ? '...' : '..');
+	if (base && head && rest.length === 0) {
+		return {base, head};
+	}
+}
+
+async function resolveComparison(
+	provider: Provider,
+	repository: RepositoryReference,
+	parts: string[],
+	options: RequestOptions,
+): Promise<{error: string} | {gitReference: string; commit: string; baseReference: string; baseCommit: string}> {
+	const range = parseRange(parts.join('/'));
+	if (!range) {
+		return {error: 'INVALID_COMPARISON'};
+	}
+
+	const [baseCommit, commit] = await Promise.all([
+		provider.resolveReference(repository, range.base, options),
+		provider.resolveReference(repository, range.head, options),
+	]);
+	if (!baseCommit || !commit) {
+		return {error: 'BRANCH_NOT_FOUND'};
+	}
+
+	return {
+		gitReference: range.head,
+		commit,
+		baseReference: range.base,
+		baseCommit,
+	};
+}
+
+function getParentDirectory(path: string): string {
+	return path.split('/').slice(0, -1).join('/');
+}
+
 export default async function getRepositoryInfo(
 	url: string,
+	options: RequestOptions = {},
 ): Promise<
 	| {error: string}
 	| {
 		user: string;
 		repository: string;
 		gitReference?: string;
+		/** The commit that the reference pointed to, so that every request sees the same tree */
+		commit: string;
 		directory: string;
 		downloadUrl: string;
 		isPrivate: boolean;
@@ -39,58 +79,114 @@ export default async function getRepositoryInfo(
 		user: string;
 		repository: string;
 		gitReference: string;
+		commit: string;
 		directory: string;
 		isPrivate: boolean;
+		/** Only set by compare URLs */
+		baseReference?: string;
+		baseCommit?: string;
+	}
+	| {
+		user: string;
+		repository: string;
+		gitReference: string;
+		commit: string;
+		directory: string;
+		filePath: string;
+		isPrivate: boolean;
 	}
 	> {
-	const [, user, repository, type, ...parts] = cleanUrl(
-		decodeURIComponent(new URL(url).pathname),
-	).split('/');
-
-	if (!user || !repository) {
-		return {error: 'NOT_A_REPOSITORY'};
+	const parsedUrl = new URL(url);
+	const provider = getProvider(parsedUrl);
+	if (!provider) {
+		return {error: 'UNSUPPORTED_HOST'};
 	}
 
-	if (type && type !== 'tree') {
-		return {error: 'NOT_A_DIRECTORY'};
+	const parsed = provider.parseUrl(parsedUrl);
+	if ('error' in parsed) {
+		return parsed;
 	}
 
-	const repoInfoResponse = await authenticatedFetch(
-		`https://api.github.com/repos/${user}/${repository}`,
-	);
+	const {user, repository, type, parts} = parsed;
+	if (type === 'blob' && parts.length < 2) {
+		return {error: 'NOT_A_FILE'};
+	}
 
-	if (repoInfoResponse.status === 404) {
+	const repositoryInfo = await provider.getRepository({user, repository}, options);
+	if (!repositoryInfo) {
 		return {error: 'REPOSITORY_NOT_FOUND'};
 	}
 
-	const {private: isPrivate} = await repoInfoResponse.json() as {private: boolean};
+	const {isPrivate, defaultBranch} = repositoryInfo;
 
-	if (parts.length === 0) {
-		return {
+	if (type === 'compare') {
+		const comparison = await resolveComparison(provider, {user, repository}, parts, options);
+		return 'error' in comparison ? comparison : {
 			user,
 			repository,
+			isPrivate,
 			directory: '',
+			...comparison,
+		};
+	}
+
+	if (type === 'blob') {
+		// The last part is always the filename, so it can't be part of the reference
+		const parsedPath = await parsePath(provider, {user, repository}, parts.slice(0, -1), options);
+		if (!parsedPath) {
+			return {error: 'BRANCH_NOT_FOUND'};
+		}
+
+		const filePath = [parsedPath.directory, parts.at(-1)].filter(Boolean).join('/');
+		return {
+			user,
+			repository,
 			isPrivate,
-			downloadUrl: `https://api.github.com/repos/${user}/${repository}/zipball`,
+			gitReference: parsedPath.gitReference,
+			commit: parsedPath.commit,
+			directory: parsedPath.directory,
+			filePath,
 		};
 	}
 
-	if (parts.length === 1) {
+	if (parts.length <= 1) {
+		const commit = await provider.resolveReference({user, repository}, parts[0] ?? defaultBranch, options);
+		if (!commit) {
+			return {error: 'BRANCH_NOT_FOUND'};
+		}
+
 		return {
 			user,
 			repository,
-			gitReference: parts[0],
+			...(parts[0] ? {gitReference: parts[0]} : {}),
+			commit,
 			directory: '',
 			isPrivate,
-			downloadUrl: `https://api.github.com/repos/${user}/${repository}/zipball/${parts[0]}`,
+			downloadUrl: provider.getArchiveUrl({user, repository}, commit),
 		};
 	}
 
-	const parsedPath = await parsePath(user, repository, parts);
+	const parsedPath = await parsePath(provider, {user, repository}, parts, options);
 	if (!parsedPath) {
 		return {error: 'BRANCH_NOT_FOUND'};
 	}
 
+	// Some hosts use the same URLs for files and directories
+	if (type === 'path' && parsedPath.directory && provider.getPathType) {
+		const pathType = await provider.getPathType({user, repository}, parsedPath.commit, parsedPath.directory, options);
+		if (pathType === 'file') {
+			return {
+				user,
+				repository,
+				isPrivate,
+				gitReference: parsedPath.gitReference,
+				commit: parsedPath.commit,
+				directory: getParentDirectory(parsedPath.directory),
+				filePath: parsedPath.directory,
+			};
+		}
+	}
+
 	return {
 		user,
 		repository,
@@ -98,9 +194,3 @@ export default async function getRepositoryInfo(
 		...parsedPath,
 	};
 }
-
-async function checkBranchExists(user: string, repo: string, gitReference: string): Promise<boolean> {
-	const apiUrl = `https://api.github.com/repos/${user}/${repo}/commits/${gitReference}?per_page=1`;
-	const response = await authenticatedFetch(apiUrl, {method: 'HEAD'});
-	return response.ok;
-}
@@ -0,0 +1,45 @@
+import {expect, test} from 'vitest';
+import {exceedsThresholds, summarizeSize} from './size-summary.js';
+
+const files = [
+	{path: 'repo/readme.md', size: 100},
+	{path: 'repo/.gitignore', size: 10},
+	{path: 'repo/src/index.ts', size: 300},
+	{path: 'repo/src/utils/path.ts', size: 200},
+	{path: 'repo/assets/logo.PNG', size: 5000},
+	{path: 'repo/assets/icons/a.png', size: 50},
+	{path: 'repo/docs/guide.md', size: 400},
+];
+
+test('summarizeSize', () => {
+	const summary = summarizeSize(files, 'repo', 2);
+	expect(summary.count).toBe(7);
+	expect(summary.bytes).toBe(6060);
+	expect(summary.largestFolders).toEqual([
+		{name: 'assets', size: 5050, count: 2},
+		{name: 'src', size: 500, count: 2},
+	]);
+	expect(summary.largestFiles).toEqual([
+		{name: 'assets/logo.PNG', size: 5000, count: 1},
+		{name: 'docs/guide.md', size: 400, count: 1},
+	]);
+	expect(summary.extensions).toEqual([
+		{name: 'png', size: 5050, count: 2},
+		{name: 'md', size: 500, count: 2},
+	]);
+	expect(summarizeSize(files, 'repo').extensions.at(-1)).toEqual({name: '', size: 10, count: 1});
+});
+
+test('summarizeSize without sizes or a directory', () => {
+	const summary = summarizeSize([{path: 'a/b.txt'}, {path: 'c.txt'}], '');
+	expect(summary.bytes).toBe(0);
+	expect(summary.largestFolders).toEqual([{name: 'a', size: 0, count: 1}]);
+	expect(summary.extensions).toEqual([{name: 'txt', size: 0, count: 2}]);
+});
+
+test('exceedsThresholds', () => {
+	const summary = summarizeSize(files, 'repo');
+	expect(exceedsThresholds(summary, {files: 7, bytes: 6060})).toBe(false);
+	expect(exceedsThresholds(summary, {files: 6, bytes: 10_000})).toBe(true);
+	expect(exceedsThresholds(summary, {files: 100, bytes: 6000})).toBe(true);
+});
@@ -0,0 +1,81 @@
+import {type ProviderFile} from './provider.js';
+
+export type SizeThresholds = {
+	files: number;
+	bytes: number;
+};
+
+export type SizeEntry = {
+	/** Relative to the downloaded directory. The extension, without the dot, for `extensions` */
+	name: string;
+	size: number;
+	count: number;
+};
+
+export type SizeSummary = {
+	count: number;
+	/** The total of the sizes that the listing included */
+	bytes: number;
+	/** The folders right below the directory */
+	largestFolders: SizeEntry[];
+	largestFiles: SizeEntry[];
+	/** Files without an extension are counted under an empty name */
+	extensions: SizeEntry[];
+};
+
+export const defaultSizeThresholds: SizeThresholds = {
+	files: 2000,
+	bytes: 500 * 1024 * 1024,
+};
+
+function getExtension(name: string): string {
+	const dot = name.lastIndexOf('.');
+	// Dotfiles like `.gitignore` have no extension
+	return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+function addTo(entries: Map<string, SizeEntry>, name: string, size: number) {
+	const entry = entries.get(name) ?? {name, size: 0, count: 0};
+	entry.size += size;
+	entry.count++;
+	entries.set(name, entry);
+}
+
+function getLargest(entries: Iterable<SizeEntry>, limit: number): SizeEntry[] {
+	return [...entries]
+		.sort((a, b) => b.size - a.size || b.count - a.count || a.name.localeCompare(b.name))
+		.slice(0, limit);
+}
+
+/** Breaks the files of `directory` down by folder, file and extension, `limit` entries each */
+export function summarizeSize(files: ProviderFile[], directory: string, limit = 5): SizeSummary {
+	const prefix = directory ? `${directory}/` : '';
+	const folders = new Map<string, SizeEntry>();
+	const extensions = new Map<string, SizeEntry>();
+	const fileEntries: SizeEntry[] = [];
+	let bytes = 0;
+
+	for (const file of files) {
+		const size = file.size ?? 0;
+		const path = file.path.slice(prefix.length);
+		const segments = path.split('/');
+		bytes += size;
+		fileEntries.push({name: path, size, count: 1});
+		addTo(extensions, getExtension(segments.at(-1)!), size);
+		if (segments.length > 1) {
+			addTo(folders, segments[0]!, size);
+		}
+	}
+
+	return {
+		count: files.length,
+		bytes,
+		largestFolders: getLargest(folders.values(), limit),
+		largestFiles: getLargest(fileEntries, limit),
+		extensions: getLargest(extensions.values(), limit),
+	};
+}
+
+export function exceedsThresholds(summary: SizeSummary, thresholds: SizeThresholds): boolean {
+	return summary.count > thresholds.files || summary.bytes > thresholds.bytes;
+}
@@ -0,0 +1,125 @@
+/* eslint-disable @typescript-eslint/naming-convention -- Recorded API responses */
+import {afterEach, expect, test, vi} from 'vitest';
+import serveFixtures from './fixtures/serve-fixtures.js';
+import {createGitlabProvider} from './gitlab-provider.js';
+import {
+	expandSubmodules,
+	getFileSource,
+	parseGitmodules,
+	resolveSubmoduleUrl,
+} from './submodules.js';
+
+const commit = '3d3bd0ba4ee0fde06fb1a5ee8b4a8b8e5c36c5f0';
+const libCommit = '9c1f4e0a7b2d3c4e5f60718293a4b5c6d7e8f901';
+const zlibCommit = '51b7f2abdade71cd9bb0e7a373ef2610ec6f9daf';
+
+const gitmodules = `[submodule "lib"]
+	path = vendor/lib
+	url = https://github.com/user/lib.git
+[submodule "tools"]
+	path = vendor/tools
+	url = ../tools.git
+[submodule "legacy"]
+	path = vendor/legacy
+	url = git@svn.example.com:legacy.git
+`;
+
+const fixtures = {
+	[`https://gitlab.com/api/v4/projects/group%2Fapp/repository/files/.gitmodules/raw?ref=${commit}&lfs=true`]: {
+		body: gitmodules,
+	},
+	'https://api.github.com/repos/user/lib': {
+		body: {private: false, default_branch: 'main'},
+	},
+	[`https://api.github.com/repos/user/lib/git/trees/${libCommit}?recursive=1`]: {
+		body: {
+			truncated: false,
+			tree: [
+				{path: 'src', mode: '040000', type: 'tree', sha: 'a9f3c5c7e4b3a3fd4b7a0b1f2f9c54d4e0a3d1c2'},
+				{path: 'src/lib.c', mode: '100644', type: 'blob', size: 12, sha: '6f1e8d2c4b5a69788d0e1f2a3b4c5d6e7f8091a2'},
+				{path: 'deps/zlib', mode: '160000', type: 'commit', sha: zlibCommit},
+			],
+		},
+	},
+};
+
+const listing = [
+	{path: 'vendor/readme.md', mode: '100644', sha: 'c0ffee0b4b5a69788d0e1f2a3b4c5d6e7f8091a2'},
+	{path: 'vendor/lib', mode: '160000', sha: libCommit},
+	{path: 'vendor/tools', mode: '160000', sha: '1a2b3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d'},
+	{path: 'vendor/legacy', mode: '160000', sha: 'e83c5163316f89bfbde7d9ab23ca2e25604af290'},
+];
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+test('parseGitmodules', () => {
+	expect(parseGitmodules(`${gitmodules}[core]\n\tpath = ignored\n\turl = ignored\n[submodule "quoted"]\n\tpath = "with space"\n\turl = ../quoted\n`)).toEqual(new Map([
+		['vendor/lib', 'https://github.com/user/lib.git'],
+		['vendor/tools', '../tools.git'],
+		['vendor/legacy', 'git@svn.example.com:legacy.git'],
+		['with space', '../quoted'],
+	]));
+});
+
+test('resolveSubmoduleUrl', () => {
+	const superproject = 'https://gitlab.com/group/app';
+	expect(resolveSubmoduleUrl('https://github.com/user/lib.git', superproject)).toBe('https://github.com/user/lib');
+	expect(resolveSubmoduleUrl('git@github.com:user/lib.git', superproject)).toBe('https://github.com/user/lib');
+	expect(resolveSubmoduleUrl('ssh://git@gitlab.com:2222/group/lib.git/', superproject)).toBe('https://gitlab.com/group/lib');
+	expect(resolveSubmoduleUrl('../tools.git', superproject)).toBe('https://gitlab.com/group/tools');
+	expect(resolveSubmoduleUrl('./nested', superproject)).toBe('https://gitlab.com/group/app/nested');
+	expect(resolveSubmoduleUrl('file:///srv/git/lib.git', superproject)).toBeUndefined();
+});
+
+test('expandSubmodules lists submodules and reports the ones it skips', async () => {
+	const requests = serveFixtures(fixtures);
+	const {files, submodules} = await expandSubmodules(listing, {
+		provider: createGitlabProvider(),
+		repository: {user: 'group', repository: 'app'},
+		commit,
+		isPrivate: false,
+		depth: 1,
+		signal: new AbortController().signal,
+	});
+
+	const source = {url: 'https://github.com/user/lib', user: 'user', repository: 'lib', commit: libCommit, isPrivate: false, path: 'vendor/lib'};
+	expect(files).toEqual([
+		listing[0],
+		{path: 'vendor/lib/src/lib.c', mode: '100644', size: 12, sha: '6f1e8d2c4b5a69788d0e1f2a3b4c5d6e7f8091a2', url: undefined, submodule: source},
+	]);
+	expect(submodules).toEqual([
+		{path: 'vendor/lib', url: 'https://github.com/user/lib', commit: libCommit},
+		{path: 'vendor/lib/deps/zlib', url: undefined, commit: zlibCommit, skipped: 'It is nested deeper than the submodule depth limit.'},
+		{path: 'vendor/tools', url: 'https://gitlab.com/group/tools', commit: '1a2b3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d', skipped: expect.stringContaining('was not found') as string},
+		{path: 'vendor/legacy', url: 'https://svn.example.com/legacy', commit: 'e83c5163316f89bfbde7d9ab23ca2e25604af290', skipped: 'It is hosted on svn.example.com, which is not a supported host.'},
+	]);
+
+	// The nested `.gitmodules` isn't read past the depth limit
+	expect(requests.map(request => request.url)).not.toContain(`https://raw.githubusercontent.com/user/lib/${libCommit}/.gitmodules`);
+
+	expect(getFileSource(files[1]!, {provider: createGitlabProvider(), user: 'group', repository: 'app', reference: commit, isPrivate: true})).toMatchObject({
+		provider: {hostname: 'github.com'},
+		user: 'user',
+		repository: 'lib',
+		reference: libCommit,
+		isPrivate: false,
+		file: {path: 'src/lib.c'},
+	});
+});
+
+test('expandSubmodules only reports submodules when they are turned off', async () => {
+	const requests = serveFixtures(fixtures);
+	const {files, submodules} = await expandSubmodules(listing, {
+		provider: createGitlabProvider(),
+		repository: {user: 'group', repository: 'app'},
+		commit,
+		isPrivate: false,
+		depth: 0,
+		signal: new AbortController().signal,
+	});
+	expect(files).toEqual([listing[0]]);
+	expect(submodules.map(submodule => submodule.skipped)).toEqual(Array.from({length: 3}, () => 'Submodules are turned off.'));
+	expect(requests).toEqual([]);
+});
@@ -0,0 +1,246 @@
+import {
+	type Provider,
+	type ProviderFile,
+	type RepositoryReference,
+	type RequestOptions,
+} from './provider.js';
+import {getProvider} from './providers.js';
+
+/** Where the files of a submodule come from. Kept in download jobs, so it must stay serializable */
+export type SubmoduleSource = RepositoryReference & {
+	/** The submodule's repository, as an `https` URL */
+	url: string;
+	commit: string;
+	isPrivate: boolean;
+	/** Where the submodule is checked out, from the root of the downloaded repository */
+	path: string;
+};
+
+/** A listed file. Files of submodules have their path in the downloaded repository and say where they come from */
+export type SubmoduleFile = ProviderFile & {
+	submodule?: SubmoduleSource;
+};
+
+export type SubmoduleReport = {
+	/** From the root of the downloaded repository */
+	path: string;
+	/** The repository URL, when `.gitmodules` has one */
+	url?: string;
+	commit: string;
+	/** Why the submodule's files are missing, or nothing when they were listed */
+	skipped?: string;
+};
+
+type Level = RequestOptions & {
+	provider: Provider;
+	repository: RepositoryReference;
+	commit: string;
+	isPrivate: boolean;
+	/** The repository URL that relative submodule URLs are resolved against */
+	url: string;
+	/** Unset on the downloaded repository itself */
+	source?: SubmoduleSource;
+};
+
+type Expansion = {
+	files: SubmoduleFile[];
+	submodules: SubmoduleReport[];
+};
+
+/** Submodules are listed as tree entries of this mode, with the pinned commit as their SHA */
+export function isGitlink(file: ProviderFile): boolean {
+	return file.mode === '160000';
+}
+
+/** Maps each submodule path in a `.gitmodules` file to its URL */
+export function parseGitmodules(text: string): Map<string, string> {
+	const submodules = new Map<string, string>();
+	let section: {path?: string; url?: string} | undefined;
+	const addSection = () => {
+		if (section?.path && section.url) {
+			submodules.set(section.path, section.url);
+		}
+	};
+
+	for (const rawLine of text.split(/\r?\n/)) {
+		const line = rawLine.trim();
+		if (line.startsWith('[')) {
+			addSection();
+			section = /^\[submodule\s/.test(line) ? {} : undefined;
+			continue;
+		}
+
+		const match = /^(path|url)\s*=\s*(.*)$/i.exec(line);
+		if (section && match) {
+			const value = match[2]!.replace(/^"(.*)"$/, '$1');
+			section[match[1]!.toLowerCase() as 'path' | 'url'] = value;
+		}
+	}
+
+	addSection();
+	return submodules;
+}
+
+/** Turns the URL from `.gitmodules` into the repository's `https` URL. Relative URLs are resolved against the superproject's */
+export function resolveSubmoduleUrl(url: string, superprojectUrl: string): string | undefined {
+	// SSH shorthand, like `git@github.com:user/repo.git`
+	const shorthand = /^(?:[\w.-]+@)?([\w.-]+):(?!\/\/)(.+)$/.exec(url);
+	let resolved: URL;
+	try {
+		resolved = url.startsWith('./') || url.startsWith('../')
+			? new URL(url, `${superprojectUrl}/`)
+			: new URL(shorthand ? `https://${shorthand[1]!}/${shorthand[2]!}` : url);
+	} catch {
+		return;
+	}
+
+	if (!['https:', 'http:', 'ssh:', 'git:'].includes(resolved.protocol)) {
+		return;
+	}
+
+	return `https://${resolved.hostname}${resolved.pathname.replace(/\/+$/, '').replace(/\.git$/, '')}`;
+}
+
+async function readGitmodules(level: Level, signal: AbortSignal): Promise<Map<string, string>> {
+	try {
+		const blob = await level.provider.fetchFile(level.repository, {
+			reference: level.commit,
+			file: {path: '.gitmodules'},
+			isPrivate: level.isPrivate,
+			signal,
+			tokenProfile: level.tokenProfile,
+		});
+		return parseGitmodules(await blob.text());
+	} catch {
+		signal.throwIfAborted();
+		return new Map();
+	}
+}
+
+function getPath(level: Level, path: string): string {
+	return level.source ? `${level.source.path}/${path}` : path;
+}
+
+async function expand(files: SubmoduleFile[], level: Level, depth: number, signal: AbortSignal): Promise<Expansion> {
+	const gitlinks = files.filter(file => isGitlink(file));
+	const expansion: Expansion = {
+		files: files
+			.filter(file => !isGitlink(file))
+			.map(file => level.source ? {...file, path: getPath(level, file.path), submodule: level.source} : file),
+		submodules: [],
+	};
+	if (gitlinks.length === 0) {
+		return expansion;
+	}
+
+	const urls = depth > 0 ? await readGitmodules(level, signal) : new Map<string, string>();
+	const nested = await Promise.all(gitlinks.map(async gitlink => expandGitlink(gitlink, {level, urls, depth, signal})));
+	for (const {files, submodules} of nested) {
+		expansion.files.push(...files);
+		expansion.submodules.push(...submodules);
+	}
+
+	return expansion;
+}
+
+async function expandGitlink(gitlink: ProviderFile, {level, urls, depth, signal}: {
+	level: Level;
+	urls: Map<string, string>;
+	depth: number;
+	signal: AbortSignal;
+}): Promise<Expansion> {
+	const path = getPath(level, gitlink.path);
+	const rawUrl = urls.get(gitlink.path);
+	const url = rawUrl && resolveSubmoduleUrl(rawUrl, level.url);
+	const report: SubmoduleReport = {path, url: url ?? rawUrl, commit: gitlink.sha ?? ''};
+	const skip = (reason: string): Expansion => ({files: [], submodules: [{...report, skipped: reason}]});
+
+	if (depth <= 0) {
+		return skip(level.source ? 'It is nested deeper than the submodule depth limit.' : 'Submodules are turned off.');
+	}
+
+	if (!rawUrl || !gitlink.sha) {
+		return skip('It is not listed in .gitmodules.');
+	}
+
+	const provider = url ? getProvider(new URL(url)) : undefined;
+	if (!url || !provider) {
+		return skip(`It is hosted on ${url ? new URL(url).hostname : rawUrl}, which is not a supported host.`);
+	}
+
+	const parsed = provider.parseUrl(new URL(url));
+	if ('error' in parsed) {
+		return skip(`${url} is not a repository URL.`);
+	}
+
+	try {
+		const repository = {user: parsed.user, repository: parsed.repository};
+		const info = await provider.getRepository(repository, {tokenProfile: level.tokenProfile});
+		if (!info) {
+			return skip(`${url} was not found, or it is private and the token for ${provider.hostname} can't see it.`);
+		}
+
+		const source: SubmoduleSource = {...repository, url, commit: gitlink.sha, isPrivate: info.isPrivate, path};
+		const files = await provider.listFiles(repository, {reference: gitlink.sha, directory: '', signal, tokenProfile: level.tokenProfile});
+		const nested = await expand(files, {
+			provider,
+			repository,
+			commit: gitlink.sha,
+			isPrivate: info.isPrivate,
+			url,
+			source,
+			tokenProfile: level.tokenProfile,
+		}, depth - 1, signal);
+		return {files: nested.files, submodules: [report, ...nested.submodules]};
+	} catch (error) {
+		signal.throwIfAborted();
+		return skip(error instanceof Error ? error.message : String(error));
+	}
+}
+
+/**
+ * Replaces the submodules in a listing with their files, pinned to the commits that the repository records. Nested submodules are followed up to `depth` levels, and `0` only reports them. Submodules that can't be listed are reported with the reason instead.
+ */
+export async function expandSubmodules(files: ProviderFile[], {provider, repository, commit, isPrivate, depth, signal, tokenProfile}: RequestOptions & {
+	provider: Provider;
+	repository: RepositoryReference;
+	commit: string;
+	isPrivate: boolean;
+	depth: number;
+	signal: AbortSignal;
+}): Promise<Expansion> {
+	return expand(files, {
+		provider,
+		repository,
+		commit,
+		isPrivate,
+		url: `https://${provider.hostname}/${repository.user}/${repository.repository}`,
+		tokenProfile,
+	}, depth, signal);
+}
+
+/** Where to fetch a listed file from: the repository of its submodule, or the downloaded one */
+export function getFileSource<T extends {provider: Provider; user: string; repository: string; reference: string; isPrivate: boolean}>(
+	file: SubmoduleFile,
+	superproject: T,
+): T & {file: ProviderFile} {
+	if (!file.submodule) {
+		return {...superproject, file};
+	}
+
+	const {url, user, repository, commit, isPrivate, path} = file.submodule;
+	const provider = getProvider(new URL(url));
+	if (!provider) {
+		throw new Error(`${new URL(url).hostname} is not a supported host`);
+	}
+
+	return {
+		...superproject,
+		provider,
+		user,
+		repository,
+		reference: commit,
+		isPrivate,
+		file: {...file, path: file.path.slice(path.length + 1)},
+	};
+}
@@ -0,0 +1,94 @@
+import {test, expect} from 'vitest';
+import {type FileSink} from './file-sink.js';
+import {createTarWriter} from './tar-writer.js';
+
+type TarEntry = {
+	name: string;
+	mode: number;
+	size: number;
+	type: string;
+	linkName: string;
+	content: string;
+};
+
+const decoder = new TextDecoder();
+
+function readString(block: Uint8Array, offset: number, length: number): string {
+	return decoder.decode(block.subarray(offset, offset + length)).replace(/\0.*$/s, '');
+}
+
+function readTar(data: Uint8Array): TarEntry[] {
+	const entries: TarEntry[] = [];
+	let offset = 0;
+	while (offset < data.length && data[offset] !== 0) {
+		const header = data.subarray(offset, offset + 512);
+		const size = Number.parseInt(readString(header, 124, 12), 8);
+		const entry = {
+			name: readString(header, 0, 100),
+			mode: Number.parseInt(readString(header, 100, 8), 8),
+			size,
+			type: readString(header, 156, 1),
+			linkName: readString(header, 157, 100),
+			content: decoder.decode(data.subarray(offset + 512, offset + 512 + size)),
+		};
+		entries.push(entry);
+		offset += 512 + (Math.ceil(size / 512) * 512);
+	}
+
+	return entries;
+}
+
+async function writeTar(files: Array<[string, string, string?]>): Promise<Uint8Array> {
+	const chunks: Array<Blob | Uint8Array> = [];
+	const sink: FileSink = {
+		isStreaming: false,
+		async write(chunk) {
+			chunks.push(chunk);
+		},
+		async close() {
+			// Nothing to flush
+		},
+		async abort() {
+			chunks.length = 0;
+		},
+	};
+
+	const writer = createTarWriter(sink, {now: new Date(0)});
+	await Promise.all(files.map(async ([path, content, mode]) => writer.addFile(path, new Blob([content]), {mode})));
+	await writer.close();
+	return new Uint8Array(await new Blob(chunks).arrayBuffer());
+}
+
+test('createTarWriter preserves git modes', async () => {
+	const data = await writeTar([
+		['readme.md', '# Hello', '100644'],
+		['bin/run.sh', '#!/bin/sh\n', '100755'],
+		['latest', 'bin/run.sh', '120000'],
+		['plain.txt', 'no mode'],
+	]);
+
+	expect(data.length % 512).toBe(0);
+	expect(readTar(data)).toEqual([
+		{name: 'readme.md', mode: 0o644, size: 7, type: '0', linkName: '', content: '# Hello'},
+		{name: 'bin/run.sh', mode: 0o755, size: 10, type: '0', linkName: '', content: '#!/bin/sh\n'},
+		{name: 'latest', mode: 0o777, size: 0, type: '2', linkName: 'bin/run.sh', content: ''},
+		{name: 'plain.txt', mode: 0o644, size: 7, type: '0', linkName: '', content: 'no mode'},
+	]);
+});
+
+test('createTarWriter writes valid checksums', async () => {
+	const data = await writeTar([['a.txt', 'a']]);
+	const header = data.slice(0, 512);
+	const stored = Number.parseInt(readString(header, 148, 8), 8);
+	header.fill(32, 148, 156);
+	expect(header.reduce((sum, byte) => sum + byte, 0)).toBe(stored);
+});
+
+test('createTarWriter stores long paths in PAX headers', async () => {
+	const longPath = `${'nested/'.repeat(20)}file.txt`;
+	const [pax, file] = readTar(await writeTar([[longPath, 'content']]));
+	expect(pax!.type).toBe('x');
+	expect(pax!.content).toBe(`${pax!.size} path=${longPath}\n`);
+	expect(file!.type).toBe('0');
+	expect(file!.content).toBe('content');
+});
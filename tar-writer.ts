@@ -0,0 +1,130 @@
+import {type ArchiveWriter, parseGitMode} from './archive.js';
+import {type FileSink} from './file-sink.js';
+
+const blockSize = 512;
+
+// Largest size that fits the 11 octal digits of the ustar size field
+const maxUstarSize = (8 ** 11) - 1;
+
+const encoder = new TextEncoder();
+
+function writeString(header: Uint8Array, value: string, offset: number, length: number) {
+	header.set(encoder.encode(value).subarray(0, length), offset);
+}
+
+function writeOctal(header: Uint8Array, value: number, offset: number, length: number) {
+	writeString(header, `${value.toString(8).padStart(length - 1, '0')}\0`, offset, length);
+}
+
+function getPadding(size: number): Uint8Array {
+	const remainder = size % blockSize;
+	return new Uint8Array(remainder === 0 ? 0 : blockSize - remainder);
+}
+
+function createPaxRecord(key: string, value: string): string {
+	// The length prefix counts its own digits too
+	const body = ` ${key}=${value}\n`;
+	const bodyLength = encoder.encode(body).length;
+	let length = bodyLength;
+	while (length !== bodyLength + String(length).length) {
+		length = bodyLength + String(length).length;
+	}
+
+	return `${length}${body}`;
+}
+
+function createHeader({name, mode, size, type, linkName = '', mtime}: {
+	name: string;
+	mode: number;
+	size: number;
+	type: string;
+	linkName?: string;
+	mtime: number;
+}): Uint8Array {
+	const header = new Uint8Array(blockSize);
+	writeString(header, name, 0, 100);
+	writeOctal(header, mode, 100, 8);
+	writeOctal(header, 0, 108, 8);
+	writeOctal(header, 0, 116, 8);
+	writeOctal(header, Math.min(size, maxUstarSize), 124, 12);
+	writeOctal(header, mtime, 136, 12);
+	writeString(header, ' '.repeat(8), 148, 8);
+	writeString(header, type, 156, 1);
+	writeString(header, linkName, 157, 100);
+	writeString(header, 'ustar\u000000', 257, 8);
+
+	let checksum = 0;
+	for (const byte of header) {
+		checksum += byte;
+	}
+
+	writeString(header, `${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8);
+	return header;
+}
+
+/**
+ * Writes a ustar archive entry by entry. Paths, link targets and sizes that don't fit the ustar fields are stored in PAX extended headers.
+ */
+export function createTarWriter(sink: FileSink, {now = new Date()}: {now?: Date} = {}): ArchiveWriter {
+	const mtime = Math.floor(now.getTime() / 1000);
+	let queue = Promise.resolve();
+
+	const writeEntry = async (path: string, blob: Blob, gitMode?: string) => {
+		const {isSymlink, permissions} = parseGitMode(gitMode);
+		const linkName = isSymlink ? await blob.text() : '';
+		const size = isSymlink ? 0 : blob.size;
+
+		const paxRecords = [
+			encoder.encode(path).length > 100 || /[^ -~]/.test(path) ? createPaxRecord('path', path) : '',
+			encoder.encode(linkName).length > 100 || /[^ -~]/.test(linkName) ? createPaxRecord('linkpath', linkName) : '',
+			size > maxUstarSize ? createPaxRecord('size', String(size)) : '',
+		].join('');
+
+		if (paxRecords) {
+			const paxData = encoder.encode(paxRecords);
+			await sink.write(createHeader({
+				name: 'PaxHeader',
+				mode: 0o644,
+				size: paxData.length,
+				type: 'x',
+				mtime,
+			}));
+			await sink.write(paxData);
+			await sink.write(getPadding(paxData.length));
+		}
+
+		await sink.write(createHeader({
+			name: path,
+			mode: permissions,
+			size,
+			type: isSymlink ? '2' : '0',
+			linkName,
+			mtime,
+		}));
+
+		if (!isSymlink) {
+			await sink.write(blob);
+			await sink.write(getPadding(size));
+		}
+	};
+
+	const enqueue = async (task: () => Promise<void>) => {
+		const result = queue.then(task);
+		queue = result.catch(() => undefined);
+		return result;
+	};
+
+	return {
+		isStreaming: sink.isStreaming,
+		async addFile(path, blob, {mode} = {}) {
+			return enqueue(async () => writeEntry(path, blob, mode));
+		},
+		async close() {
+			await enqueue(async () => sink.write(new Uint8Array(blockSize * 2)));
+			await sink.close();
+		},
+		async abort() {
+			await sink.abort();
+		},
+	};
+}
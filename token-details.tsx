@@ -0,0 +1,57 @@
+import {type TokenInspection} from './token-inspection.js';
+
+type TokenDetailsProps = {
+	/** Unset while there's no token, or it's being checked */
+	inspection: TokenInspection | {error: string} | undefined;
+};
+
+function formatScopes(scopes: string[] | undefined): string {
+	if (!scopes) {
+		return 'Fine-grained, with per-repository permissions';
+	}
+
+	if (scopes.length === 0) {
+		return 'None, so only public data';
+	}
+
+	return scopes.includes('repo') ? scopes.join(', ') : `${scopes.join(', ')} (no repo scope, so no private repositories)`;
+}
+
+function formatSso(sso: TokenInspection['sso']): string {
+	if (sso?.url) {
+		return 'Authorization required';
+	}
+
+	return sso?.organizations ? `Not authorized for ${sso.organizations.length} organization${sso.organizations.length === 1 ? '' : 's'}` : 'No organization asked for it';
+}
+
+/** What GitHub says about the stored token */
+export default function TokenDetails({inspection}: TokenDetailsProps) {
+	if (!inspection) {
+		return null;
+	}
+
+	if ('error' in inspection) {
+		return <p className="hint token-error">{inspection.error === 'Invalid token' ? 'GitHub rejected this token: it is invalid, expired or revoked.' : `The token couldn't be checked: ${inspection.error}.`}</p>;
+	}
+
+	const {login, scopes, expiresAt, sso, rateLimit} = inspection;
+	return (
+		<dl className="token-details">
+			<dt>Account</dt>
+			<dd>{login}</dd>
+			<dt>Scopes</dt>
+			<dd>{formatScopes(scopes)}</dd>
+			<dt>Expires</dt>
+			<dd>{expiresAt ? expiresAt.toLocaleString() : 'Never'}</dd>
+			<dt>SSO</dt>
+			<dd>{sso?.url ? <a href={sso.url} target="_blank" rel="noreferrer">{formatSso(sso)}</a> : formatSso(sso)}</dd>
+			{rateLimit ? (
+				<>
+					<dt>API budget</dt>
+					<dd>{rateLimit.remaining} of {rateLimit.limit} requests left, refills at {new Date(rateLimit.resetAt).toLocaleTimeString()}</dd>
+				</>
+			) : null}
+		</dl>
+	);
+}
@@ -0,0 +1,76 @@
+/* eslint-disable @typescript-eslint/naming-convention -- Recorded API responses */
+import {afterEach, expect, test, vi} from 'vitest';
+import serveFixtures from './fixtures/serve-fixtures.js';
+import {createGithubProvider} from './github-provider.js';
+import {
+	type TokenInspection,
+	diagnoseAccess,
+	inspectToken,
+	parseSsoHeader,
+} from './token-inspection.js';
+
+const repository = {user: 'acme', repository: 'secrets'};
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+test('inspectToken reads the account, scopes, expiry and budget', async () => {
+	vi.stubGlobal('localStorage', {getItem: (key: string) => key === 'token' ? 'ghp_classic' : null});
+	const requests = serveFixtures({
+		'https://api.github.com/user': {
+			headers: {
+				'X-OAuth-Scopes': 'read:org, repo',
+				'GitHub-Authentication-Token-Expiration': '2026-11-01 12:00:00 UTC',
+				'X-RateLimit-Limit': '5000',
+				'X-RateLimit-Remaining': '4990',
+				'X-RateLimit-Reset': '1792000000',
+			},
+			body: {login: 'octocat'},
+		},
+	});
+	await expect(inspectToken()).resolves.toEqual({
+		login: 'octocat',
+		scopes: ['read:org', 'repo'],
+		expiresAt: new Date('2026-11-01T12:00:00Z'),
+		sso: undefined,
+		rateLimit: {limit: 5000, remaining: 4990, resetAt: 1_792_000_000_000},
+	});
+	expect(requests[0]!.headers.get('authorization')).toBe('Bearer ghp_classic');
+});
+
+test('parseSsoHeader', () => {
+	expect(parseSsoHeader('required; url=https://github.com/orgs/acme/sso?authorization_request=abc')).toEqual({
+		url: 'https://github.com/orgs/acme/sso?authorization_request=abc',
+		organizations: undefined,
+	});
+	expect(parseSsoHeader('partial-results; organizations=21955855,20582480')).toEqual({
+		url: undefined,
+		organizations: ['21955855', '20582480'],
+	});
+	expect(parseSsoHeader(null)).toBeUndefined();
+});
+
+test('diagnoseAccess', () => {
+	const classic: TokenInspection = {login: 'octocat', scopes: ['read:org']};
+	expect(diagnoseAccess(classic, repository)).toEqual([
+		'The token lacks the repo scope, so it can\'t read private repositories. Its scopes: read:org.',
+		'If acme uses SAML single sign-on, authorize the token for it in your token settings.',
+	]);
+	expect(diagnoseAccess({login: 'octocat'}, repository)[0]).toContain('Fine-grained tokens only see the repositories picked for them');
+	expect(diagnoseAccess({login: 'acme', scopes: ['repo']}, repository)).toEqual([
+		'acme can\'t see acme/secrets. Check the URL, or ask for access to the repository.',
+	]);
+	expect(diagnoseAccess({...classic, expiresAt: new Date(0)}, repository)).toHaveLength(1);
+});
+
+test('SSO rejections are reported with the authorization link', async () => {
+	serveFixtures({
+		'https://api.github.com/repos/acme/secrets': {
+			status: 403,
+			headers: {'X-GitHub-SSO': 'required; url=https://github.com/orgs/acme/sso?authorization_request=abc'},
+			body: {message: 'Resource protected by organization SAML enforcement.'},
+		},
+	});
+	await expect(createGithubProvider().getRepository(repository)).rejects.toThrow('SSO authorization required: authorize the token at https://github.com/orgs/acme/sso?authorization_request=abc');
+});
@@ -0,0 +1,101 @@
+import authenticatedFetch from './authenticated-fetch.js';
+import {type RepositoryReference} from './provider.js';
+
+export type SsoStatus = {
+	/** Where to authorize the token for the organization that asked for it */
+	url?: string;
+	/** IDs of the organizations whose results were left out, because the token isn't authorized for them */
+	organizations?: string[];
+};
+
+export type TokenInspection = {
+	login: string;
+	/** Only classic tokens and OAuth apps have scopes, fine-grained tokens and GitHub Apps get per-repository permissions */
+	scopes?: string[];
+	/** When the token stops working, or `undefined` when it doesn't expire */
+	expiresAt?: Date;
+	sso?: SsoStatus;
+	rateLimit?: {
+		limit: number;
+		remaining: number;
+		/** When the budget refills, in milliseconds since the epoch */
+		resetAt: number;
+	};
+};
+
+const userUrl = 'https://api.github.com/user';
+
+/** Reads `X-GitHub-SSO`, like `required; url=https://github.com/orgs/...` or `partial-results; organizations=21955855,20582480` */
+export function parseSsoHeader(header: string | null): SsoStatus | undefined {
+	if (!header) {
+		return;
+	}
+
+	const url = /url=(\S+)/.exec(header)?.[1];
+	const organizations = /organizations=([\d,]+)/.exec(header)?.[1]?.split(',');
+	return {url, organizations};
+}
+
+function parseRateLimit(headers: Headers): TokenInspection['rateLimit'] {
+	const limit = headers.get('X-RateLimit-Limit');
+	const remaining = headers.get('X-RateLimit-Remaining');
+	const reset = headers.get('X-RateLimit-Reset');
+	return limit && remaining && reset
+		? {limit: Number(limit), remaining: Number(remaining), resetAt: Number(reset) * 1000}
+		: undefined;
+}
+
+/** Asks GitHub who the stored token, or the given one, belongs to and what it can do. Throws `Invalid token` for tokens that expired or were revoked */
+export async function inspectToken(signal?: AbortSignal, token?: string): Promise<TokenInspection> {
+	const response = token
+		// eslint-disable-next-line @typescript-eslint/naming-convention -- HTTP header
+		? await fetch(userUrl, {signal, headers: {Authorization: `Bearer ${token}`}})
+		: await authenticatedFetch(userUrl, {signal});
+	if (response.status === 401) {
+		throw new Error('Invalid token');
+	}
+
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status} while inspecting the token`);
+	}
+
+	const {login} = await response.json() as {login: string};
+	const scopes = response.headers.get('X-OAuth-Scopes');
+	const expiration = response.headers.get('GitHub-Authentication-Token-Expiration');
+	return {
+		login,
+		scopes: scopes === null ? undefined : scopes.split(',').map(scope => scope.trim()).filter(Boolean),
+		expiresAt: expiration ? new Date(expiration) : undefined,
+		sso: parseSsoHeader(response.headers.get('X-GitHub-SSO')),
+		rateLimit: parseRateLimit(response.headers),
+	};
+}
+
+/**
+ * Explains why a token that works can't see a repository, since GitHub answers 404 instead of 403 to hide private repositories.
+ */
+export function diagnoseAccess(inspection: TokenInspection, {user, repository}: RepositoryReference, now = Date.now()): string[] {
+	const name = `${user}/${repository}`;
+	if (inspection.expiresAt && inspection.expiresAt.getTime() <= now) {
+		return [`The token expired on ${inspection.expiresAt.toLocaleString()}. Create a new one or sign in again.`];
+	}
+
+	const diagnostics: string[] = [];
+	if (!inspection.scopes) {
+		diagnostics.push(`Fine-grained tokens only see the repositories picked for them: check that ${name} is included with read access to Contents, and that the token's resource owner is ${user}.`);
+	} else if (!inspection.scopes.includes('repo')) {
+		diagnostics.push(`The token lacks the repo scope, so it can't read private repositories. Its scopes: ${inspection.scopes.join(', ') || 'none'}.`);
+	}
+
+	if (inspection.sso?.url) {
+		diagnostics.push(`The token isn't authorized for single sign-on: authorize it at ${inspection.sso.url}`);
+	} else if (user.toLowerCase() !== inspection.login.toLowerCase()) {
+		diagnostics.push(`If ${user} uses SAML single sign-on, authorize the token for it in your token settings.`);
+	}
+
+	if (diagnostics.length === 0) {
+		diagnostics.push(`${inspection.login} can't see ${name}. Check the URL, or ask for access to the repository.`);
+	}
+
+	return diagnostics;
+}
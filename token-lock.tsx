@@ -0,0 +1,161 @@
+import {type KeyboardEvent, type SyntheticEvent, useState} from 'react';
+import {lockToken, removeLockedToken, unlockToken} from './token-vault.js';
+
+export type TokenLockState = 'none' | 'locked' | 'unlocked';
+
+type TokenLockProps = {
+	state: TokenLockState;
+	token: string;
+	disabled: boolean;
+	autoLockMinutes: number;
+	onAutoLockChange: (minutes: number) => void;
+	onStateChange: (state: TokenLockState, token?: string) => void;
+	onStatus: (message: string) => void;
+};
+
+// 0 turns it off
+const autoLockOptions = [5, 15, 60, 0];
+
+// Short passphrases are brute-forced quickly, even through PBKDF2
+const minPassphraseLength = 8;
+
+/** Protects the stored token with a passphrase, unlocks it for the session and locks it again */
+export default function TokenLock({state, token, disabled, autoLockMinutes, onAutoLockChange, onStateChange, onStatus}: TokenLockProps) {
+	const [passphrase, setPassphrase] = useState('');
+	const [confirmation, setConfirmation] = useState('');
+	const [isWorking, setIsWorking] = useState(false);
+
+	// The panel sits in the download form, so the buttons and the Enter key must not submit it
+	const run = async (event: SyntheticEvent, task: () => Promise<void>) => {
+		event.preventDefault();
+		setIsWorking(true);
+		try {
+			await task();
+			setPassphrase('');
+			setConfirmation('');
+		} catch (error) {
+			onStatus(error instanceof Error ? `${error.message}.` : String(error));
+		} finally {
+			setIsWorking(false);
+		}
+	};
+
+	const unlock = async (event: SyntheticEvent) => run(event, async () => {
+		const unlocked = await unlockToken(passphrase);
+		onStateChange('unlocked', unlocked);
+		onStatus('Token unlocked for this session.');
+	});
+
+	const protect = async (event: SyntheticEvent) => run(event, async () => {
+		if (passphrase.length < minPassphraseLength) {
+			throw new Error(`The passphrase needs at least ${minPassphraseLength} characters`);
+		}
+
+		if (passphrase !== confirmation) {
+			throw new Error('The passphrases don\'t match');
+		}
+
+		await lockToken(token, passphrase);
+		onStateChange('unlocked', token);
+		onStatus('The token is now encrypted with your passphrase. The plain text copy was removed.');
+	});
+
+	const onEnter = (task: (event: SyntheticEvent) => Promise<void>) => async (event: KeyboardEvent) => {
+		if (event.key === 'Enter') {
+			await task(event);
+		}
+	};
+
+	const forget = () => {
+		removeLockedToken();
+		onStateChange('none', '');
+		onStatus('The locked token was deleted, along with the token profiles.');
+	};
+
+	if (state === 'locked') {
+		return (
+			<div className="token-lock">
+				<label htmlFor="token-passphrase">The token is locked. Passphrase</label>
+				<div className="input-row">
+					<input
+						id="token-passphrase"
+						type="password"
+						autoComplete="current-password"
+						value={passphrase}
+						onChange={event => setPassphrase(event.target.value)}
+						onKeyDown={onEnter(unlock)}
+						disabled={isWorking}
+					/>
+					<button type="button" className="btn btn-soft" onClick={unlock} disabled={isWorking || !passphrase}>Unlock</button>
+					<button type="button" className="btn btn-danger" onClick={forget} disabled={isWorking || disabled}>Forget token</button>
+				</div>
+			</div>
+		);
+	}
+
+	if (state === 'unlocked') {
+		return (
+			<div className="token-lock">
+				<p className="hint">Encrypted with your passphrase and unlocked for this session.</p>
+				<div className="input-row">
+					<label htmlFor="token-auto-lock">Lock after</label>
+					<select
+						id="token-auto-lock"
+						value={autoLockMinutes}
+						onChange={event => onAutoLockChange(Number(event.target.value))}
+					>
+						{autoLockOptions.map(minutes => (
+							<option key={minutes} value={minutes}>{minutes ? `${minutes} minutes of inactivity` : 'Never'}</option>
+						))}
+					</select>
+					<button type="button" className="btn btn-ghost" onClick={() => onStateChange('locked', '')} disabled={disabled}>Lock now</button>
+					<button
+						type="button"
+						className="btn btn-ghost"
+						onClick={() => {
+							removeLockedToken();
+							onStateChange('none', token);
+							onStatus('The passphrase was removed, the token is stored in plain text again.');
+						}}
+						disabled={disabled}
+					>
+						Remove passphrase
+					</button>
+				</div>
+			</div>
+		);
+	}
+
+	if (!token) {
+		return null;
+	}
+
+	return (
+		<div className="token-lock">
+			<p className="hint">The token is stored in plain text. Lock it with a passphrase on shared computers.</p>
+			<label htmlFor="token-new-passphrase">Passphrase</label>
+			<input
+				id="token-new-passphrase"
+				type="password"
+				autoComplete="new-password"
+				value={passphrase}
+				onChange={event => setPassphrase(event.target.value)}
+				onKeyDown={onEnter(protect)}
+				disabled={isWorking || disabled}
+			/>
+			<label htmlFor="token-confirm-passphrase">Repeat the passphrase</label>
+			<div className="input-row">
+				<input
+					id="token-confirm-passphrase"
+					type="password"
+					autoComplete="new-password"
+					value={confirmation}
+					onChange={event => setConfirmation(event.target.value)}
+					onKeyDown={onEnter(protect)}
+					disabled={isWorking || disabled}
+				/>
+				<button type="button" className="btn btn-soft" onClick={protect} disabled={isWorking || disabled || !passphrase}>Lock token</button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,104 @@
+import {useState} from 'react';
+import {normalizeHostname} from './hosts.js';
+import {type TokenProfile, parseOwnerRules} from './token-profiles.js';
+
+type TokenProfilesPanelProps = {
+	profiles: TokenProfile[];
+	/** The profile that links added to the queue use, or an empty string to pick it by their owner and host */
+	queueProfile: string;
+	disabled: boolean;
+	onQueueProfileChange: (name: string) => void;
+	onChange: (profiles: TokenProfile[]) => void;
+	onStatus: (message: string) => void;
+};
+
+/** Named tokens that are sent instead of the main one to some hosts or owners */
+export default function TokenProfilesPanel({profiles, queueProfile, disabled, onQueueProfileChange, onChange, onStatus}: TokenProfilesPanelProps) {
+	const [name, setName] = useState('');
+	const [hostname, setHostname] = useState('github.com');
+	const [token, setToken] = useState('');
+	const [ownersText, setOwnersText] = useState('');
+
+	const addProfile = () => {
+		const profile: TokenProfile = {
+			name: name.trim(),
+			hostname: normalizeHostname(hostname.replace(/^https?:\/\//, '').split('/')[0] ?? ''),
+			token: token.trim(),
+			owners: parseOwnerRules(ownersText),
+		};
+		if (!profile.name || !profile.hostname || !profile.token) {
+			onStatus('A token profile needs a name, a host and a token.');
+			return;
+		}
+
+		if (profiles.some(existing => existing.name === profile.name)) {
+			onStatus(`There is already a token profile named ${profile.name}.`);
+			return;
+		}
+
+		onChange([...profiles, profile]);
+		setName('');
+		setToken('');
+		setOwnersText('');
+		onStatus(`Added the ${profile.name} token profile.`);
+	};
+
+	const removeProfile = (profileName: string) => {
+		onChange(profiles.filter(profile => profile.name !== profileName));
+		if (queueProfile === profileName) {
+			onQueueProfileChange('');
+		}
+
+		onStatus(`Removed the ${profileName} token profile. The other tokens were kept.`);
+	};
+
+	return (
+		<details id="token-profiles-panel">
+			<summary>Token profiles</summary>
+			<label htmlFor="profile-name">Name</label>
+			<input id="profile-name" type="text" placeholder="Work" value={name} onChange={event => setName(event.target.value)} disabled={disabled}/>
+			<label htmlFor="profile-host">Host</label>
+			<input id="profile-host" type="text" placeholder="github.com" value={hostname} onChange={event => setHostname(event.target.value)} disabled={disabled}/>
+			<label htmlFor="profile-owners">Owners (optional)</label>
+			<input id="profile-owners" type="text" placeholder="acme-corp/*, me/dotfiles" value={ownersText} onChange={event => setOwnersText(event.target.value)} disabled={disabled}/>
+			<label htmlFor="profile-token">Token</label>
+			<div className="input-row">
+				<input id="profile-token" type="password" autoComplete="off" value={token} onChange={event => setToken(event.target.value)} disabled={disabled}/>
+				<button type="button" onClick={addProfile} disabled={disabled}>
+					Add
+				</button>
+			</div>
+			{profiles.length > 0 && (
+				<ul className="job-list">
+					{profiles.map(profile => (
+						<li key={profile.name}>
+							<span>{profile.name} ({profile.hostname}, {profile.owners.length > 0 ? profile.owners.join(', ') : 'every repository'})</span>
+							<button type="button" onClick={() => removeProfile(profile.name)} disabled={disabled}>
+								Remove
+							</button>
+						</li>
+					))}
+				</ul>
+			)}
+			{profiles.length > 0 && (
+				<>
+					<label htmlFor="queue-token-profile">Token for links added to the queue</label>
+					<select
+						id="queue-token-profile"
+						value={queueProfile}
+						onChange={event => onQueueProfileChange(event.target.value)}
+						disabled={disabled}
+					>
+						<option value="">Automatic, by owner and host</option>
+						{profiles.map(profile => (
+							<option key={profile.name} value={profile.name}>{profile.name}</option>
+						))}
+					</select>
+				</>
+			)}
+			<p className="hint">
+				Requests to a repository use the first profile whose owners match it, then a profile for its whole host, then the main token. Queue items can pick a profile too. When the main token is locked with a passphrase, the profile tokens are encrypted with it and can only be used or changed while it's unlocked.
+			</p>
+		</details>
+	);
+}
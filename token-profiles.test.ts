@@ -0,0 +1,98 @@
+import {afterEach, expect, test, vi} from 'vitest';
+import authenticatedFetch from './authenticated-fetch.js';
+import serveFixtures from './fixtures/serve-fixtures.js';
+import {
+	type TokenProfile,
+	findTokenProfile,
+	getRepositoryPath,
+	getTokenProfiles,
+	parseOwnerRules,
+	saveTokenProfiles,
+} from './token-profiles.js';
+import {endTokenSession, lockToken, removeLockedToken} from './token-vault.js';
+
+const profiles: TokenProfile[] = [
+	{name: 'Work', hostname: 'github.com', token: 'ghp_work', owners: ['acme-corp/*']},
+	{name: 'Website', hostname: 'github.com', token: 'ghp_website', owners: ['me/website']},
+	{name: 'Enterprise', hostname: 'github.corp.example', token: 'ghp_enterprise', owners: []},
+];
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+test('getRepositoryPath', () => {
+	expect(getRepositoryPath(new URL('https://api.github.com/repos/acme-corp/api/git/trees/main?recursive=1'))).toBe('acme-corp/api');
+	expect(getRepositoryPath(new URL('https://github.corp.example/api/v3/repos/platform/tools/contents/readme.md'))).toBe('platform/tools');
+	expect(getRepositoryPath(new URL('https://gitlab.com/api/v4/projects/group%2Fsub%2Fapp/repository/tree'))).toBe('group/sub/app');
+	expect(getRepositoryPath(new URL('https://raw.githubusercontent.com/acme-corp/api/main/repos/list.txt'))).toBe('acme-corp/api');
+	expect(getRepositoryPath(new URL('https://media.githubusercontent.com/media/acme-corp/api/main/model.bin'))).toBe('acme-corp/api');
+	expect(getRepositoryPath(new URL('https://github.com/acme-corp/api.git/info/lfs/objects/batch'))).toBe('acme-corp/api');
+	expect(getRepositoryPath(new URL('https://api.github.com/user'))).toBeUndefined();
+});
+
+test('parseOwnerRules', () => {
+	expect(parseOwnerRules(' acme-corp/*, me/website\n/other/ ')).toEqual(['acme-corp/*', 'me/website', 'other']);
+});
+
+test('findTokenProfile matches owners, then hosts', () => {
+	const find = (url: string) => findTokenProfile(new URL(url), {profiles})?.name;
+	expect(find('https://api.github.com/repos/acme-corp/api')).toBe('Work');
+	expect(find('https://api.github.com/repos/ACME-CORP/api')).toBe('Work');
+	expect(find('https://raw.githubusercontent.com/me/website/main/index.html')).toBe('Website');
+	expect(find('https://api.github.com/repos/me/dotfiles')).toBeUndefined();
+	expect(find('https://github.corp.example/api/v3/repos/platform/tools')).toBe('Enterprise');
+	// Owner rules only apply on the profile's host
+	expect(find('https://gitlab.com/api/v4/projects/acme-corp%2Fapi')).toBeUndefined();
+});
+
+test('findTokenProfile prefers the named profile on its host', () => {
+	const find = (url: string) => findTokenProfile(new URL(url), {profiles, name: 'Website'})?.name;
+	expect(find('https://api.github.com/repos/acme-corp/api')).toBe('Website');
+	// Other hosts keep their own profiles
+	expect(find('https://github.corp.example/api/v3/repos/platform/tools')).toBe('Enterprise');
+	expect(findTokenProfile(new URL('https://api.github.com/repos/acme-corp/api'), {profiles, name: 'Missing'})?.name).toBe('Work');
+});
+
+test('authenticatedFetch sends the token of the matching profile', async () => {
+	const storage: Record<string, string> = {token: 'ghp_personal', 'token-profiles': JSON.stringify(profiles)};
+	vi.stubGlobal('localStorage', {getItem: (key: string) => storage[key] ?? null});
+	const requests = serveFixtures({});
+	await authenticatedFetch('https://api.github.com/repos/acme-corp/api');
+	await authenticatedFetch('https://api.github.com/repos/me/dotfiles');
+	await authenticatedFetch('https://gitlab.com/api/v4/projects/acme-corp%2Fapi');
+	expect(requests.map(request => request.headers.get('authorization'))).toEqual(['Bearer ghp_work', 'Bearer ghp_personal', null]);
+});
+
+test('authenticatedFetch sends the token of the profile picked for each request', async () => {
+	const storage: Record<string, string> = {'token-profiles': JSON.stringify(profiles)};
+	vi.stubGlobal('localStorage', {getItem: (key: string) => storage[key] ?? null});
+	const requests = serveFixtures({});
+	// Downloads running side by side don't share their picks
+	await Promise.all([
+		authenticatedFetch('https://api.github.com/repos/acme-corp/api', {tokenProfile: 'Website'}),
+		authenticatedFetch('https://api.github.com/repos/acme-corp/api'),
+	]);
+	expect(requests.map(request => request.headers.get('authorization'))).toEqual(['Bearer ghp_website', 'Bearer ghp_work']);
+});
+
+test('saveTokenProfiles encrypts the tokens along with a locked token', async () => {
+	const storage = new Map<string, string>();
+	vi.stubGlobal('localStorage', {
+		getItem: (key: string) => storage.get(key) ?? null,
+		setItem: (key: string, value: string) => storage.set(key, value),
+		removeItem: (key: string) => storage.delete(key),
+	});
+	await saveTokenProfiles(profiles);
+	expect(storage.get('token-profiles')).toContain('ghp_work');
+
+	await lockToken('ghp_personal', 'correct horse battery', 1000);
+	await saveTokenProfiles(profiles);
+	expect(storage.get('token-profiles')).not.toContain('ghp_');
+	expect(getTokenProfiles()).toEqual(profiles);
+
+	endTokenSession();
+	expect(getTokenProfiles().map(profile => profile.token)).toEqual(['', '', '']);
+	await expect(saveTokenProfiles(profiles)).rejects.toThrow('The token is locked');
+	removeLockedToken();
+});
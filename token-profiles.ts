@@ -0,0 +1,102 @@
+import {findHostConfig, normalizeHostname} from './hosts.js';
+import {getLockedToken, getSessionSecrets, updateLockedSecrets} from './token-vault.js';
+
+export type TokenProfile = {
+	name: string;
+	/** The only host that gets the token, like `github.com` or `github.corp.example` */
+	hostname: string;
+	token: string;
+	/** Repositories it's for, like `acme-corp/*` or `acme-corp/website`. Without any, it's for the whole host */
+	owners: string[];
+};
+
+const storageKey = 'token-profiles';
+
+// API paths put the repository after one of these, like `/repos/:owner/:repo` or `/api/v4/projects/:id`
+const apiSegments = new Set(['repos', 'projects', 'repositories']);
+const apiPrefixes = new Set(['api', 'v1', 'v3', 'v4', '2.0']);
+
+// Raw URLs on GitHub Enterprise Server and LFS objects on github.com have a prefix before the owner
+const pathPrefixes = new Set(['raw', 'media']);
+
+function isTokenProfile(value: unknown): value is TokenProfile {
+	const {name, hostname, token, owners} = (value ?? {}) as Partial<TokenProfile>;
+	return typeof name === 'string' && typeof hostname === 'string' && typeof token === 'string' && Array.isArray(owners);
+}
+
+/** While the token is locked with a passphrase, the profiles' tokens are empty until it's unlocked */
+export function getTokenProfiles(): TokenProfile[] {
+	let profiles: TokenProfile[];
+	try {
+		const parsed = JSON.parse(globalThis.localStorage?.getItem(storageKey) ?? '[]') as unknown;
+		profiles = Array.isArray(parsed) ? parsed.filter(profile => isTokenProfile(profile)) : [];
+	} catch {
+		return [];
+	}
+
+	const secrets = getSessionSecrets();
+	return secrets ? profiles.map(profile => ({...profile, token: profile.token || (secrets[profile.name] ?? '')})) : profiles;
+}
+
+/** The tokens are encrypted along with the locked token when there is one, which must be unlocked then */
+export async function saveTokenProfiles(profiles: TokenProfile[]): Promise<void> {
+	let stored = profiles;
+	if (getLockedToken()) {
+		await updateLockedSecrets(Object.fromEntries(profiles.map(profile => [profile.name, profile.token])));
+		stored = profiles.map(profile => ({...profile, token: ''}));
+	}
+
+	if (stored.length === 0) {
+		globalThis.localStorage?.removeItem(storageKey);
+	} else {
+		globalThis.localStorage?.setItem(storageKey, JSON.stringify(stored));
+	}
+}
+
+/** Splits a list of owner rules typed by the user */
+export function parseOwnerRules(text: string): string[] {
+	return text.split(/[\s,]+/).map(rule => rule.replaceAll(/^\/+|\/+$/g, '')).filter(Boolean);
+}
+
+/** The host that the URL belongs to, so its API and raw hosts share the profiles of the web host */
+function getProfileHostname(url: URL): string {
+	if (url.hostname === 'media.githubusercontent.com') {
+		return 'github.com';
+	}
+
+	return findHostConfig(url)?.hostname ?? normalizeHostname(url.hostname);
+}
+
+/** Finds `owner/repository` in API, raw and web URLs. GitLab subgroups are part of the owner */
+export function getRepositoryPath(url: URL): string | undefined {
+	const segments = url.pathname.split('/').filter(Boolean).map(segment => decodeURIComponent(segment));
+	const apiIndex = segments.findIndex(segment => !apiPrefixes.has(segment));
+	if (apiSegments.has(segments[apiIndex] ?? '')) {
+		// GitLab encodes the whole project path as one segment
+		const project = segments[apiIndex + 1];
+		return project?.includes('/') ? project : segments.slice(apiIndex + 1, apiIndex + 3).join('/') || undefined;
+	}
+
+	const start = pathPrefixes.has(segments[0] ?? '') ? 1 : 0;
+	const [owner, repository] = segments.slice(start, start + 2);
+	return owner && repository ? `${owner}/${repository.replace(/\.git$/, '')}` : undefined;
+}
+
+/** `*` matches anything, so `acme-corp/*` covers the owner's subgroups too */
+function matchesOwnerRule(rule: string, path: string): boolean {
+	const pattern = rule.split('*').map(part => part.replaceAll(/[$()+.?[\\\]^{|}]/g, '\\$&')).join('.*');
+	return new RegExp(`^${pattern}$`, 'i').test(path) || new RegExp(`^${pattern}/[^/]+$`, 'i').test(path);
+}
+
+/**
+ * Picks the profile whose token the URL gets: the one named by the request if it's for the URL's host, then the first with a matching owner rule, then the first for the whole host.
+ */
+export function findTokenProfile(url: URL, {profiles = getTokenProfiles(), name}: {profiles?: TokenProfile[]; name?: string} = {}): TokenProfile | undefined {
+	const hostname = getProfileHostname(url);
+	const path = getRepositoryPath(url);
+	const candidates = profiles.filter(profile => normalizeHostname(profile.hostname) === hostname);
+	const picked = name === undefined ? undefined : candidates.find(profile => profile.name === name);
+	return picked
+		?? candidates.find(profile => path && profile.owners.some(rule => matchesOwnerRule(rule, path)))
+		?? candidates.find(profile => profile.owners.length === 0);
+}
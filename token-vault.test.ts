@@ -0,0 +1,88 @@
+import {afterEach, beforeEach, expect, test, vi} from 'vitest';
+import authenticatedFetch from './authenticated-fetch.js';
+import serveFixtures from './fixtures/serve-fixtures.js';
+import {
+	endTokenSession,
+	getLockedToken,
+	getSessionSecrets,
+	getSessionToken,
+	isTokenLocked,
+	lockToken,
+	removeLockedToken,
+	unlockToken,
+	updateLockedSecrets,
+	updateLockedToken,
+} from './token-vault.js';
+
+// Fewer rounds keep the tests fast, the format is the same
+const iterations = 1000;
+
+let storage: Map<string, string>;
+
+beforeEach(() => {
+	storage = new Map();
+	vi.stubGlobal('localStorage', {
+		getItem: (key: string) => storage.get(key) ?? null,
+		setItem: (key: string, value: string) => storage.set(key, value),
+		removeItem: (key: string) => storage.delete(key),
+	});
+});
+
+afterEach(() => {
+	removeLockedToken();
+	vi.unstubAllGlobals();
+});
+
+test('lockToken stores the token encrypted and keeps it unlocked for the session', async () => {
+	await lockToken('ghp_secret', 'correct horse battery', iterations);
+	expect(storage.get('locked-token')).not.toContain('ghp_secret');
+	expect(getLockedToken()).toMatchObject({iterations});
+	expect(getSessionToken()).toBe('ghp_secret');
+	expect(isTokenLocked()).toBe(false);
+
+	endTokenSession();
+	expect(getSessionToken()).toBeUndefined();
+	expect(isTokenLocked()).toBe(true);
+});
+
+test('unlockToken needs the right passphrase', async () => {
+	await lockToken('ghp_secret', 'correct horse battery', iterations);
+	endTokenSession();
+	await expect(unlockToken('wrong horse battery')).rejects.toThrow('Wrong passphrase');
+	expect(isTokenLocked()).toBe(true);
+	await expect(unlockToken('correct horse battery')).resolves.toBe('ghp_secret');
+	expect(isTokenLocked()).toBe(false);
+});
+
+test('updateLockedToken keeps the passphrase', async () => {
+	await expect(updateLockedToken('ghp_new')).rejects.toThrow('The token is locked');
+	await lockToken('ghp_secret', 'correct horse battery', iterations);
+	await updateLockedToken('ghp_new');
+	endTokenSession();
+	await expect(unlockToken('correct horse battery')).resolves.toBe('ghp_new');
+});
+
+test('updateLockedSecrets encrypts other secrets with the same passphrase', async () => {
+	await expect(updateLockedSecrets({work: 'ghp_work'})).rejects.toThrow('The token is locked');
+	await lockToken('ghp_secret', 'correct horse battery', iterations);
+	await updateLockedSecrets({work: 'ghp_work'});
+	expect(storage.get('locked-secrets')).not.toContain('ghp_work');
+
+	endTokenSession();
+	expect(getSessionSecrets()).toBeUndefined();
+	await unlockToken('correct horse battery');
+	expect(getSessionSecrets()).toEqual({work: 'ghp_work'});
+
+	removeLockedToken();
+	expect(storage.has('locked-secrets')).toBe(false);
+});
+
+test('authenticatedFetch only sends a locked token while it is unlocked', async () => {
+	// eslint-disable-next-line @typescript-eslint/naming-convention -- URLs
+	const requests = serveFixtures({'https://api.github.com/user': {body: {login: 'octocat'}}});
+	await lockToken('ghp_secret', 'correct horse battery', iterations);
+	await authenticatedFetch('https://api.github.com/user');
+	endTokenSession();
+	await authenticatedFetch('https://api.github.com/user');
+	expect(requests.map(request => request.headers.get('authorization'))).toEqual(['Bearer ghp_secret', null]);
+});
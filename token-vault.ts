@@ -0,0 +1,160 @@
+/** The token, encrypted with AES-GCM under a key derived from the passphrase. The bytes are hex-encoded */
+export type LockedToken = {
+	salt: string;
+	iv: string;
+	data: string;
+	iterations: number;
+};
+
+type Session = {
+	key: CryptoKey;
+	salt: Uint8Array;
+	iterations: number;
+	token: string;
+	/** Locked along with the token, like the tokens of profiles */
+	secrets: Record<string, string>;
+};
+
+const storageKey = 'locked-token';
+const secretsStorageKey = 'locked-secrets';
+
+// See https://cheatsheetseries.owasp.org/cheatsheets/Password_Storage_Cheat_Sheet.html#pbkdf2
+const defaultIterations = 600_000;
+
+// The decrypted token only lives here, and is gone when the page closes or the token locks
+let session: Session | undefined;
+
+function toHex(bytes: Uint8Array): string {
+	return [...bytes].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(text: string): Uint8Array {
+	return Uint8Array.from(text.match(/../g) ?? [], byte => Number.parseInt(byte, 16));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+	const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+	return crypto.subtle.deriveKey(
+		{name: 'PBKDF2', hash: 'SHA-256', salt, iterations},
+		material,
+		{name: 'AES-GCM', length: 256},
+		false,
+		['encrypt', 'decrypt'],
+	);
+}
+
+async function encrypt(token: string, {key, salt, iterations}: Pick<Session, 'key' | 'salt' | 'iterations'>): Promise<LockedToken> {
+	const iv = crypto.getRandomValues(new Uint8Array(12));
+	const data = await crypto.subtle.encrypt({name: 'AES-GCM', iv}, key, new TextEncoder().encode(token));
+	return {
+		salt: toHex(salt),
+		iv: toHex(iv),
+		data: toHex(new Uint8Array(data)),
+		iterations,
+	};
+}
+
+async function decrypt(locked: LockedToken, key: CryptoKey): Promise<string> {
+	const data = await crypto.subtle.decrypt({name: 'AES-GCM', iv: fromHex(locked.iv)}, key, fromHex(locked.data));
+	return new TextDecoder().decode(data);
+}
+
+function readLocked(key: string): LockedToken | undefined {
+	try {
+		const parsed = JSON.parse(globalThis.localStorage?.getItem(key) ?? 'null') as Partial<LockedToken> | undefined;
+		return parsed?.salt && parsed.iv && parsed.data && parsed.iterations ? parsed as LockedToken : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+export function getLockedToken(): LockedToken | undefined {
+	return readLocked(storageKey);
+}
+
+/** Whether a token is stored but can't be used until the passphrase is entered */
+export function isTokenLocked(): boolean {
+	return !session && getLockedToken() !== undefined;
+}
+
+/** The decrypted token, while it's unlocked */
+export function getSessionToken(): string | undefined {
+	return session?.token;
+}
+
+/** Encrypts the token and stores it. It stays unlocked for the session */
+export async function lockToken(token: string, passphrase: string, iterations = defaultIterations): Promise<void> {
+	const salt = crypto.getRandomValues(new Uint8Array(16));
+	const key = await deriveKey(passphrase, salt, iterations);
+	globalThis.localStorage?.setItem(storageKey, JSON.stringify(await encrypt(token, {key, salt, iterations})));
+	globalThis.localStorage?.removeItem(secretsStorageKey);
+	session = {
+		key, salt, iterations, token, secrets: {},
+	};
+}
+
+/** Decrypts the stored token for the session. Throws `Wrong passphrase` when it doesn't match */
+export async function unlockToken(passphrase: string): Promise<string> {
+	const locked = getLockedToken();
+	if (!locked) {
+		throw new Error('No locked token');
+	}
+
+	const salt = fromHex(locked.salt);
+	const key = await deriveKey(passphrase, salt, locked.iterations);
+	let token: string;
+	try {
+		token = await decrypt(locked, key);
+	} catch {
+		throw new Error('Wrong passphrase');
+	}
+
+	const lockedSecrets = readLocked(secretsStorageKey);
+	const secrets = lockedSecrets ? JSON.parse(await decrypt(lockedSecrets, key)) as Record<string, string> : {};
+	session = {
+		key, salt, iterations: locked.iterations, token, secrets,
+	};
+	return token;
+}
+
+/** Replaces the locked token with the same passphrase, which only works while it's unlocked */
+export async function updateLockedToken(token: string): Promise<void> {
+	if (!session) {
+		throw new Error('The token is locked');
+	}
+
+	globalThis.localStorage?.setItem(storageKey, JSON.stringify(await encrypt(token, session)));
+	session = {...session, token};
+}
+
+/** The secrets locked along with the token, while it's unlocked */
+export function getSessionSecrets(): Record<string, string> | undefined {
+	return session?.secrets;
+}
+
+/** Replaces the secrets locked along with the token, which only works while it's unlocked */
+export async function updateLockedSecrets(secrets: Record<string, string>): Promise<void> {
+	if (!session) {
+		throw new Error('The token is locked');
+	}
+
+	if (Object.keys(secrets).length === 0) {
+		globalThis.localStorage?.removeItem(secretsStorageKey);
+	} else {
+		globalThis.localStorage?.setItem(secretsStorageKey, JSON.stringify(await encrypt(JSON.stringify(secrets), session)));
+	}
+
+	session = {...session, secrets};
+}
+
+/** Forgets the decrypted token, so the passphrase is needed again */
+export function endTokenSession(): void {
+	session = undefined;
+}
+
+/** Deletes the locked token and the secrets locked along with it, along with the passphrase protection */
+export function removeLockedToken(): void {
+	session = undefined;
+	globalThis.localStorage?.removeItem(storageKey);
+	globalThis.localStorage?.removeItem(secretsStorageKey);
+}
@@ -0,0 +1,19 @@
+import {expect, test} from 'vitest';
+import {formatBytes, isAbortError} from './utilities.js';
+
+test('isAbortError', () => {
+	expect(isAbortError(new DOMException('Canceled', 'AbortError'))).toBe(true);
+	const controller = new AbortController();
+	controller.abort();
+	expect(isAbortError(controller.signal.reason)).toBe(true);
+	expect(isAbortError(new Error('HTTP 500'))).toBe(false);
+	expect(isAbortError('AbortError')).toBe(false);
+});
+
+test('formatBytes', () => {
+	expect(formatBytes(0)).toBe('--');
+	expect(formatBytes(512)).toBe('512 B');
+	expect(formatBytes(1536)).toBe('1.5 KB');
+	expect(formatBytes(150 * 1024 * 1024)).toBe('150 MB');
+	expect(formatBytes(3 * (1024 ** 4))).toBe('3072 GB');
+});
@@ -0,0 +1,20 @@
+/** Whether the error comes from an aborted signal, like a `DOMException` from `fetch` or the one `AbortSignal#throwIfAborted` throws */
+export function isAbortError(error: unknown): boolean {
+	return error instanceof Error && error.name === 'AbortError';
+}
+
+export function formatBytes(bytes: number): string {
+	if (!Number.isFinite(bytes) || bytes <= 0) {
+		return '--';
+	}
+
+	const units = ['B', 'KB', 'MB', 'GB'];
+	let value = bytes;
+	let index = 0;
+	while (value >= 1024 && index < units.length - 1) {
+		value /= 1024;
+		index++;
+	}
+
+	return `${value.toFixed(value >= 100 || index === 0 ? 0 : 1)} ${units[index]}`;
+}
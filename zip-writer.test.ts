@@ -0,0 +1,77 @@
+import {test, expect} from 'vitest';
+import JSZip from 'jszip';
+import {type FileSink} from './file-sink.js';
+import {crc32, createZipWriter} from './zip-writer.js';
+
+function createMemorySink() {
+	const chunks: Array<Blob | Uint8Array> = [];
+	const sink: FileSink = {
+		isStreaming: false,
+		async write(chunk) {
+			chunks.push(chunk);
+		},
+		async close() {
+			// Nothing to flush
+		},
+		async abort() {
+			chunks.length = 0;
+		},
+	};
+
+	return {sink, chunks};
+}
+
+test('crc32', () => {
+	expect(crc32(new TextEncoder().encode('The quick brown fox jumps over the lazy dog'))).toBe(0x41_4F_A3_39);
+	expect(crc32(new Uint8Array(0))).toBe(0);
+});
+
+test('createZipWriter writes an archive that JSZip can read', async () => {
+	const {sink, chunks} = createMemorySink();
+	const writer = createZipWriter(sink);
+	await Promise.all([
+		writer.addFile('readme.md', new Blob(['# Hello'])),
+		writer.addFile('src/ünïcode.ts', new Blob(['export default 1;\n'])),
+		writer.addFile('empty.txt', new Blob([])),
+	]);
+	await writer.close();
+
+	const archive = await JSZip.loadAsync(await new Blob(chunks).arrayBuffer());
+	expect(Object.keys(archive.files)).toEqual(['readme.md', 'src/ünïcode.ts', 'empty.txt']);
+	await expect(archive.file('readme.md')!.async('string')).resolves.toBe('# Hello');
+	await expect(archive.file('src/ünïcode.ts')!.async('string')).resolves.toBe('export default 1;\n');
+	await expect(archive.file('empty.txt')!.async('string')).resolves.toBe('');
+});
+
+test('createZipWriter keeps writing after a failed entry', async () => {
+	const {sink, chunks} = createMemorySink();
+	const writer = createZipWriter(sink);
+	const broken = {
+		size: 1,
+		async arrayBuffer() {
+			throw new Error('Read failed');
+		},
+	} as unknown as Blob;
+
+	await expect(writer.addFile('broken.txt', broken)).rejects.toThrow('Read failed');
+	await writer.addFile('ok.txt', new Blob(['ok']));
+	await writer.close();
+
+	const archive = await JSZip.loadAsync(await new Blob(chunks).arrayBuffer());
+	expect(Object.keys(archive.files)).toEqual(['ok.txt']);
+});
+
+test('createZipWriter stores Unix permissions and symlinks', async () => {
+	const {sink, chunks} = createMemorySink();
+	const writer = createZipWriter(sink);
+	await writer.addFile('run.sh', new Blob(['#!/bin/sh\n']), {mode: '100755'});
+	await writer.addFile('readme.md', new Blob(['# Hello']), {mode: '100644'});
+	await writer.addFile('latest', new Blob(['run.sh']), {mode: '120000'});
+	await writer.close();
+
+	const archive = await JSZip.loadAsync(await new Blob(chunks).arrayBuffer());
+	expect(archive.files['run.sh']!.unixPermissions).toBe(0o10_0755);
+	expect(archive.files['readme.md']!.unixPermissions).toBe(0o10_0644);
+	expect(archive.files['latest']!.unixPermissions).toBe(0o12_0777);
+	await expect(archive.file('latest')!.async('string')).resolves.toBe('run.sh');
+});
@@ -0,0 +1,203 @@
+/* eslint-disable no-bitwise -- The zip format is made of bit fields and checksums */
+import {type ArchiveWriter, parseGitMode} from './archive.js';
+import {type FileSink} from './file-sink.js';
+
+type CentralEntry = {
+	name: Uint8Array;
+	crc: number;
+	size: number;
+	offset: number;
+	/** The Unix file type and permissions, like `0o100755` */
+	unixMode: number;
+};
+
+const maxUint16 = 0xFF_FF;
+const maxUint32 = 0xFF_FF_FF_FF;
+const utf8Flag = 0x8_00;
+const zip64Version = 45;
+const defaultVersion = 20;
+
+// The "version made by" host that tells extractors to read Unix permissions from the external attributes
+const unixHost = 3;
+const regularFileType = 0o10_0000;
+const symlinkType = 0o12_0000;
+
+const crcTable = new Uint32Array(256).map((_, index) => {
+	let value = index;
+	for (let bit = 0; bit < 8; bit++) {
+		value = value & 1 ? 0xED_B8_83_20 ^ (value >>> 1) : value >>> 1;
+	}
+
+	return value;
+});
+
+export function crc32(data: Uint8Array): number {
+	let crc = maxUint32;
+	for (const byte of data) {
+		crc = crcTable[(crc ^ byte) & 0xFF]! ^ (crc >>> 8);
+	}
+
+	return (crc ^ maxUint32) >>> 0;
+}
+
+function getDosDateTime(date: Date): {time: number; date: number} {
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+		date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+	};
+}
+
+function getZip64Extra(values: number[]): Uint8Array {
+	if (values.length === 0) {
+		return new Uint8Array(0);
+	}
+
+	const extra = new Uint8Array(4 + (values.length * 8));
+	const view = new DataView(extra.buffer);
+	view.setUint16(0, 0x00_01, true);
+	view.setUint16(2, values.length * 8, true);
+	for (const [index, value] of values.entries()) {
+		view.setBigUint64(4 + (index * 8), BigInt(value), true);
+	}
+
+	return extra;
+}
+
+/**
+ * Writes an uncompressed zip archive entry by entry, so only the entries being added are held in memory. Archives over 4 GB or 65535 entries use the ZIP64 extensions.
+ */
+export function createZipWriter(sink: FileSink, {now = new Date()}: {now?: Date} = {}): ArchiveWriter {
+	const encoder = new TextEncoder();
+	const {time, date} = getDosDateTime(now);
+	const entries: CentralEntry[] = [];
+	let offset = 0;
+	let queue = Promise.resolve();
+
+	const write = async (chunk: Blob | Uint8Array) => {
+		await sink.write(chunk);
+		offset += chunk instanceof Blob ? chunk.size : chunk.byteLength;
+	};
+
+	// Symlinks are stored like Info-ZIP does, with the target path as their content
+	const writeEntry = async (path: string, blob: Blob, gitMode?: string) => {
+		const {isSymlink, permissions} = parseGitMode(gitMode);
+		const name = encoder.encode(path);
+		const crc = crc32(new Uint8Array(await blob.arrayBuffer()));
+		const {size} = blob;
+		const isZip64 = size >= maxUint32;
+		const extra = getZip64Extra(isZip64 ? [size, size] : []);
+
+		const header = new Uint8Array(30 + name.length + extra.length);
+		const view = new DataView(header.buffer);
+		view.setUint32(0, 0x04_03_4B_50, true);
+		view.setUint16(4, isZip64 ? zip64Version : defaultVersion, true);
+		view.setUint16(6, utf8Flag, true);
+		view.setUint16(8, 0, true); // Stored, like JSZip's default
+		view.setUint16(10, time, true);
+		view.setUint16(12, date, true);
+		view.setUint32(14, crc, true);
+		view.setUint32(18, isZip64 ? maxUint32 : size, true);
+		view.setUint32(22, isZip64 ? maxUint32 : size, true);
+		view.setUint16(26, name.length, true);
+		view.setUint16(28, extra.length, true);
+		header.set(name, 30);
+		header.set(extra, 30 + name.length);
+
+		const entryOffset = offset;
+		await write(header);
+		await write(blob);
+		entries.push({
+			name,
+			crc,
+			size,
+			offset: entryOffset,
+			unixMode: (isSymlink ? symlinkType : regularFileType) | permissions,
+		});
+	};
+
+	const writeCentralDirectory = async () => {
+		const centralOffset = offset;
+		const chunks: Uint8Array[] = [];
+		for (const entry of entries) {
+			const isLarge = entry.size >= maxUint32;
+			const isFar = entry.offset >= maxUint32;
+			const extra = getZip64Extra([
+				...(isLarge ? [entry.size, entry.size] : []),
+				...(isFar ? [entry.offset] : []),
+			]);
+
+			const record = new Uint8Array(46 + entry.name.length + extra.length);
+			const view = new DataView(record.buffer);
+			view.setUint32(0, 0x02_01_4B_50, true);
+			view.setUint16(4, (unixHost << 8) | zip64Version, true);
+			view.setUint16(6, extra.length > 0 ? zip64Version : defaultVersion, true);
+			view.setUint16(8, utf8Flag, true);
+			view.setUint16(10, 0, true);
+			view.setUint16(12, time, true);
+			view.setUint16(14, date, true);
+			view.setUint32(16, entry.crc, true);
+			view.setUint32(20, isLarge ? maxUint32 : entry.size, true);
+			view.setUint32(24, isLarge ? maxUint32 : entry.size, true);
+			view.setUint16(28, entry.name.length, true);
+			view.setUint16(30, extra.length, true);
+			view.setUint32(38, (entry.unixMode << 16) >>> 0, true);
+			view.setUint32(42, isFar ? maxUint32 : entry.offset, true);
+			record.set(entry.name, 46);
+			record.set(extra, 46 + entry.name.length);
+			chunks.push(record);
+		}
+
+		await write(new Blob(chunks));
+		const centralSize = offset - centralOffset;
+
+		const needsZip64 = entries.length >= maxUint16 || centralOffset >= maxUint32 || centralSize >= maxUint32;
+		if (needsZip64) {
+			const zip64EndOffset = offset;
+			const zip64End = new Uint8Array(56 + 20);
+			const view = new DataView(zip64End.buffer);
+			view.setUint32(0, 0x06_06_4B_50, true);
+			view.setBigUint64(4, 44n, true);
+			view.setUint16(12, zip64Version, true);
+			view.setUint16(14, zip64Version, true);
+			view.setBigUint64(24, BigInt(entries.length), true);
+			view.setBigUint64(32, BigInt(entries.length), true);
+			view.setBigUint64(40, BigInt(centralSize), true);
+			view.setBigUint64(48, BigInt(centralOffset), true);
+
+			// ZIP64 end of central directory locator
+			view.setUint32(56, 0x07_06_4B_50, true);
+			view.setBigUint64(64, BigInt(zip64EndOffset), true);
+			view.setUint32(72, 1, true);
+			await write(zip64End);
+		}
+
+		const end = new Uint8Array(22);
+		const view = new DataView(end.buffer);
+		view.setUint32(0, 0x06_05_4B_50, true);
+		view.setUint16(8, Math.min(entries.length, maxUint16), true);
+		view.setUint16(10, Math.min(entries.length, maxUint16), true);
+		view.setUint32(12, Math.min(centralSize, maxUint32), true);
+		view.setUint32(16, Math.min(centralOffset, maxUint32), true);
+		await write(end);
+	};
+
+	const enqueue = async (task: () => Promise<void>) => {
+		const result = queue.then(task);
+		queue = result.catch(() => undefined);
+		return result;
+	};
+
+	return {
+		isStreaming: sink.isStreaming,
+		async addFile(path, blob, {mode} = {}) {
+			return enqueue(async () => writeEntry(path, blob, mode));
+		},
+		async close() {
+			await enqueue(writeCentralDirectory);
+			await sink.close();
+		},
+		async abort() {
+			await sink.abort();
+		},
+	};
+}